@@ -122,6 +122,7 @@ export const browserAgent = new Agent({
   hooks: {
     ...developmentHooks,
     onEnd: async (args: OnEndHookArgs) => {
+      await developmentHooks.onEnd?.(args);
       const conversationId = args.context?.userContext?.get('conversationId') || undefined;
       console.log(`[✅ Agent] browser-automation completed operation for conversation:`, conversationId || 'unknown');
     }
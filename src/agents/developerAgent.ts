@@ -103,6 +103,7 @@ export const developerAgent = new Agent({
   hooks: {
     ...developmentHooks,
     onEnd: async (args: OnEndHookArgs) => {
+      await developmentHooks.onEnd?.(args);
       const conversationId = args.context?.userContext?.get('conversationId') || undefined;
       console.log(`[✅ Agent] developerAgent completed operation for conversation:`, conversationId || 'unknown');
     },
@@ -70,6 +70,7 @@ export const documentationAgent = new Agent({
     hooks: {
       ...developmentHooks,
       onEnd: async (args: OnEndHookArgs) => {
+        await developmentHooks.onEnd?.(args);
         const conversationId = args.context?.userContext?.get('conversationId') || undefined;
         console.log(`[✅ Agent] documentationAgent completed operation for conversation:`, conversationId || 'unknown');
       },
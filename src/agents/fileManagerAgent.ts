@@ -133,6 +133,7 @@ export const fileManagerAgent = new Agent({
     ...developmentHooks,
 
     onEnd: async (args: OnEndHookArgs) => {
+      await developmentHooks.onEnd?.(args);
       const conversationId = args.context?.userContext?.get('conversationId') || undefined;
       console.log(`[✅ Agent] fileManagerAgent completed operation for conversation:`, conversationId || 'unknown');
     },
@@ -28,6 +28,11 @@ import { browserAgent } from './browserAgent.js';
 import { documentationAgent } from './documentationAgent.js';
 import { researchAgent } from './researchAgent.js';
 import { workerAgent } from './workerAgent.js';
+import { developmentTaskSchema } from './developerAgent.js';
+import { analysisResultSchema } from './dataAnalysisAgent.js';
+import { systemHealthSchema } from './systemAdminAgent.js';
+import { contentOutputSchema } from './contentCreationAgent.js';
+import { problemSolutionSchema } from './problemSolvingAgent.js';
 
 export const agentRegistry = {
   browser: browserAgent,
@@ -42,3 +47,22 @@ export const agentRegistry = {
   worker: workerAgent,
 } as const;
 
+/**
+ * Result schema each agent produces in structured mode, keyed like agentRegistry.
+ * Agents without an entry only return free text.
+ */
+export const agentResultSchemas = {
+  dataAnalyst: analysisResultSchema,
+  systemAdmin: systemHealthSchema,
+  contentCreator: contentOutputSchema,
+  problemSolver: problemSolutionSchema,
+  developer: developmentTaskSchema,
+} as const;
+
+/**
+ * Names of the tools an agent was created with
+ */
+export function agentToolNames(agent: object): string[] {
+  const { tools } = agent as { tools?: Array<{ name: string }> };
+  return tools?.map(tool => tool.name) ?? [];
+}
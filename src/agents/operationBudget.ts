@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+/**
+ * userContext key holding the OperationBudget of the current agent tree.
+ * VoltAgent copies userContext into sub-agents and delegate_task forwards it,
+ * so every agent in the tree shares the same budget instance.
+ */
+export const BUDGET_KEY = "operationBudget";
+
+/**
+ * Budget limits schema; omitted limits are unbounded
+ */
+export const budgetLimitsSchema = z.object({
+  maxTotalTokens: z.number().int().positive().optional().describe("Maximum tokens across all agents in the operation"),
+  maxToolCalls: z.number().int().positive().optional().describe("Maximum tool calls across all agents in the operation"),
+  maxWallClockMs: z.number().int().positive().optional().describe("Maximum wall-clock time for the whole operation"),
+});
+
+export type BudgetLimits = z.infer<typeof budgetLimitsSchema>;
+
+/**
+ * Which budget was exhausted, and by how much
+ */
+export interface BudgetExceeded {
+  budget: 'maxTotalTokens' | 'maxToolCalls' | 'maxWallClockMs';
+  limit: number;
+  used: number;
+}
+
+/**
+ * OperationBudget: token, tool-call and wall-clock limits for one supervisor
+ * operation and everything it delegates.
+ *
+ * Usage is recorded from hooks. When a limit is crossed the budget's signal
+ * aborts, which cancels in-flight generations that were started with it.
+ */
+export class OperationBudget {
+  readonly limits: BudgetLimits;
+  readonly startedAt = Date.now();
+  private tokens = 0;
+  private toolCalls = 0;
+  private exceededBudget: BudgetExceeded | null = null;
+  private controller = new AbortController();
+  private deadline?: NodeJS.Timeout;
+
+  constructor(limits: BudgetLimits) {
+    this.limits = budgetLimitsSchema.parse(limits);
+    if (this.limits.maxWallClockMs) {
+      const maxWallClockMs = this.limits.maxWallClockMs;
+      this.deadline = setTimeout(() => this.exceed('maxWallClockMs', maxWallClockMs, Date.now() - this.startedAt), maxWallClockMs);
+      this.deadline.unref();
+    }
+  }
+
+  /** Aborts when any limit is exceeded */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** The exhausted budget, or null while within limits */
+  get exceeded(): BudgetExceeded | null {
+    return this.exceededBudget;
+  }
+
+  recordTokens(count: number): void {
+    this.tokens += count;
+    if (this.limits.maxTotalTokens && this.tokens > this.limits.maxTotalTokens) {
+      this.exceed('maxTotalTokens', this.limits.maxTotalTokens, this.tokens);
+    }
+  }
+
+  recordToolCall(): void {
+    this.toolCalls++;
+    if (this.limits.maxToolCalls && this.toolCalls > this.limits.maxToolCalls) {
+      this.exceed('maxToolCalls', this.limits.maxToolCalls, this.toolCalls);
+    }
+  }
+
+  /**
+   * Current usage against the limits
+   */
+  snapshot() {
+    return {
+      limits: this.limits,
+      used: {
+        totalTokens: this.tokens,
+        toolCalls: this.toolCalls,
+        wallClockMs: Date.now() - this.startedAt,
+      },
+      exceeded: this.exceededBudget,
+    };
+  }
+
+  /**
+   * Stop the wall-clock timer once the operation is over
+   */
+  dispose(): void {
+    if (this.deadline) clearTimeout(this.deadline);
+  }
+
+  private exceed(budget: BudgetExceeded['budget'], limit: number, used: number): void {
+    if (this.exceededBudget) return;
+    this.exceededBudget = { budget, limit, used };
+    this.dispose();
+    console.warn(`[💸 Budget] ${budget} exceeded (${used} of ${limit}); stopping operation`);
+    this.controller.abort(new Error(`Budget exceeded: ${budget} (used ${used} of ${limit})`));
+  }
+}
+
+/**
+ * Read the budget shared by the current operation, if one was set
+ */
+export function getOperationBudget(userContext?: Map<string | symbol, unknown>): OperationBudget | undefined {
+  const budget = userContext?.get(BUDGET_KEY);
+  return budget instanceof OperationBudget ? budget : undefined;
+}
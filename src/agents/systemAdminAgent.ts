@@ -130,6 +130,7 @@ export const systemAdminAgent = new Agent({
   hooks: {
     ...developmentHooks,
     onEnd: async (args: OnEndHookArgs) => {
+      await developmentHooks.onEnd?.(args);
       const conversationId = args.context?.userContext?.get('conversationId') || undefined;
       console.log(`[✅ Agent] system-admin completed operation for conversation:`, conversationId || 'unknown');
     },
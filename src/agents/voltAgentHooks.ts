@@ -13,6 +13,47 @@ import {
   type OnHandoffHookArgs
 } from "@voltagent/core";
 import { generateId } from 'ai';
+import { getOperationBudget } from "./operationBudget.js";
+import { appendAuditEntry, type AuditInput } from "../memory/auditLogStore.js";
+
+/**
+ * Write an audit entry without holding up the agent; failures are logged
+ */
+function audit(entry: AuditInput): void {
+  appendAuditEntry(entry).catch((error) => {
+    console.error(`[❌ Audit] Failed to record ${entry.event}${entry.agent ? ` for ${entry.agent}` : ''}:`, error);
+  });
+}
+
+/**
+ * User, session and operation an audit entry belongs to
+ */
+function auditScope(context: { operationId?: string; userContext: Map<string | symbol, unknown> }) {
+  return {
+    userId: context.userContext.get("userId") as string | undefined,
+    sessionId: context.userContext.get("sessionId") as string | undefined,
+    operationId: (context.userContext.get("operationId") as string | undefined) || context.operationId,
+  };
+}
+
+/**
+ * Target agents and outcome of a delegate_task call, from either the
+ * supervisor's delegation tool or VoltAgent's built-in one
+ */
+function delegationDetails(output: unknown): Record<string, unknown> {
+  const results = Array.isArray(output) ? output : (output as { results?: unknown })?.results;
+  const agents = Array.isArray(results)
+    ? [...new Set(results.map(result => (result as { agentName?: string })?.agentName).filter(Boolean))]
+    : [];
+  const summary = (output as { delegationSummary?: Record<string, unknown> })?.delegationSummary;
+  return {
+    agents,
+    task: summary?.task,
+    mode: summary?.mode,
+    successfulAgents: summary?.successfulAgents,
+    success: (output as { success?: boolean })?.success,
+  };
+}
 
 /**
  * Simple development hooks for VoltAgent with minimal overhead
@@ -34,6 +75,8 @@ export const developmentHooks = createHooks({  onStart: async ({ agent, context
       } else {
         console.log(`[🚀 Agent] ${agent.name} starting operation ${operationId}`);
       }
+
+      audit({ event: 'agent_start', agent: agent.name, ...auditScope(context), details: supervisorName ? { supervisor: supervisorName } : undefined });
     } catch (error) {
       console.error(`[❌ Hook Error] Failed to process onStart for ${agent.name}:`, error);
     }
@@ -65,15 +108,25 @@ export const developmentHooks = createHooks({  onStart: async ({ agent, context
           const usage = output.usage as { totalTokens?: number; promptTokens?: number; completionTokens?: number };
           if (usage.totalTokens) {
             console.log(`[📊 Usage] Tokens: ${usage.totalTokens} (Input: ${usage.promptTokens || 0}, Output: ${usage.completionTokens || 0})`);
+            // Count against the budget shared by the whole agent tree
+            getOperationBudget(context.userContext)?.recordTokens(usage.totalTokens);
           }
         }
       }
       
       // Calculate operation duration if we have start time
-      if (startTime) {
-        const duration = new Date(endTime).getTime() - new Date(startTime as string).getTime();
+      const duration = startTime ? new Date(endTime).getTime() - new Date(startTime as string).getTime() : undefined;
+      if (duration !== undefined) {
         console.log(`[⏱️ Duration] Operation took ${duration}ms`);
       }
+
+      const usage = output && "usage" in output ? output.usage as { totalTokens?: number } | undefined : undefined;
+      audit({
+        event: 'agent_end',
+        agent: agent.name,
+        ...auditScope(context),
+        details: { outcome: error ? 'error' : 'success', error: error?.message, durationMs: duration, totalTokens: usage?.totalTokens },
+      });
       
     } catch (hookError) {
       console.error(`[❌ Hook Error] Failed to process onEnd for ${agent.name}:`, hookError);
@@ -89,6 +142,10 @@ export const developmentHooks = createHooks({  onStart: async ({ agent, context
       context.userContext.set(`tool_${tool.name}_start`, new Date().toISOString());
       
       console.log(`[🔧 Tool] Agent ${agent.name} starting tool: ${tool.name} (${toolExecutionId}) for operation ${operationId}`);
+      audit({ event: 'tool_start', agent: agent.name, tool: tool.name, ...auditScope(context), details: { toolExecutionId } });
+
+      // Exceeding the tool-call budget aborts the operation's signal
+      getOperationBudget(context.userContext)?.recordToolCall();
     } catch (error) {
       console.error(`[❌ Hook Error] Failed to process onToolStart for ${tool.name}:`, error);
     }
@@ -115,10 +172,22 @@ export const developmentHooks = createHooks({  onStart: async ({ agent, context
       }
       
       // Calculate tool execution duration
-      if (toolStartTime) {
-        const duration = new Date().getTime() - new Date(toolStartTime as string).getTime();
+      const duration = toolStartTime ? new Date().getTime() - new Date(toolStartTime as string).getTime() : undefined;
+      if (duration !== undefined) {
         console.log(`[⏱️ Tool Duration] ${tool.name} took ${duration}ms (Execution ID: ${toolExecutionId})`);
       }
+
+      const scope = auditScope(context);
+      audit({
+        event: 'tool_end',
+        agent: agent.name,
+        tool: tool.name,
+        ...scope,
+        details: { toolExecutionId, outcome: error ? 'error' : 'success', error: error?.message, durationMs: duration },
+      });
+      if (tool.name === 'delegate_task' && !error) {
+        audit({ event: 'delegation', agent: agent.name, tool: tool.name, ...scope, details: delegationDetails(output) });
+      }
       
     } catch (hookError) {
       console.error(`[❌ Hook Error] Failed to process onToolEnd for ${tool.name}:`, hookError);
@@ -132,6 +201,7 @@ export const developmentHooks = createHooks({  onStart: async ({ agent, context
       } else {
         console.log(`[🔄 Handoff] Task handed off to ${agent.name}`);
       }
+      audit({ event: 'handoff', agent: agent.name, details: { source: source?.name } });
     } catch (error) {
       console.error(`[❌ Hook Error] Failed to process onHandoff for ${agent.name}:`, error);
     }
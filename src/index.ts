@@ -22,13 +22,22 @@ import { VoltAgent, Agent, VoltAgentExporter } from "@voltagent/core";
 import { GoogleGenAIProvider } from "@voltagent/google-ai";
 import { getExaSearchTools, getWintermTools, getFilesystemTools, getGitingestTools, getMarkdownDownloaderTools } from "./tools/mcp.js";
 import path from "node:path";
-import { delegateTaskTool, getAvailableAgents } from "./tools/delegationTool.js";
+import { delegateTaskTool, delegationHistoryTool, getAvailableAgents } from "./tools/delegationTool.js";
+import { routeTaskTool } from "./tools/agentRouter.js";
+import { delegationScheduler } from "./tools/delegationScheduler.js";
+import { delegationProgress, createProgressRenderer, PROGRESS_CHANNEL_KEY } from "./tools/delegationProgress.js";
+import { OperationBudget, BUDGET_KEY, type BudgetLimits } from "./agents/operationBudget.js";
 import { supervisorToolset } from "./tools/supervisorTools.js";
+import { layeredConfig } from "./tools/layeredConfig.js";
+import { notificationDispatcher } from "./tools/notificationDispatcher.js";
+import { jobScheduler } from "./tools/jobScheduler.js";
+import { toolRegistry } from "./tools/toolRegistry.js";
+import { healthProbes, probeResultSchema } from "./tools/healthProbes.js";
 import { agentRegistry } from "./agents/index.js";
 import { developmentHooks } from "./agents/voltAgentHooks.js";
 import { getAgentPrompt } from "./agents/agentPrompt.js";
 import { supervisorRetriever } from "./memory/supervisorRetriever.js";
-import { voltAgentMemory, getOrStartThread } from "./memory/voltAgentMemory.js";
+import { voltAgentMemory, getOrStartThread, countMessages } from "./memory/voltAgentMemory.js";
 
 /**
  * Configuration schema for the VoltMachines system.
@@ -112,8 +121,12 @@ const agentCapabilitySchema = z.object({
 export const systemStatusSchema = z.object({
   /** ISO timestamp when the status was generated */
   timestamp: z.string().datetime(),
-  /** Overall system health status */
+  /** Overall system health status (the worst probe status) */
   status: z.enum(['healthy', 'degraded', 'critical']),
+  /** Why the system is not healthy, one entry per failing probe */
+  reasons: z.array(z.string()),
+  /** Individual health probe results */
+  probes: z.array(probeResultSchema),
   /** Array of all registered agents and their capabilities */
   agents: z.array(agentCapabilitySchema),
   /** Memory subsystem status and statistics */
@@ -203,6 +216,7 @@ const toolkitCapabilities = supervisorToolset.map(tool => tool.name);
 const supervisorConfigSchema = z.object({
   capabilities: z.array(z.string()).default(toolkitCapabilities),
   maxSubAgents: z.number().positive().default(15),
+  maxSubAgentsPerAgent: z.number().positive().default(3),
   delegationTimeout: z.number().positive().default(300000),
   enableFileSystem: z.boolean().default(true),
   enableMemoryManagement: z.boolean().default(true),
@@ -216,10 +230,10 @@ const supervisorConfigSchema = z.object({
 
 export type SupervisorConfig = z.infer<typeof supervisorConfigSchema>;
 
-// Use the dynamic capabilities in the config
-const supervisorConfig: SupervisorConfig = supervisorConfigSchema.parse({
+const supervisorDefaults: SupervisorConfig = {
   capabilities: toolkitCapabilities,
   maxSubAgents: 15,
+  maxSubAgentsPerAgent: 3,
   delegationTimeout: 300000,
   enableFileSystem: true,
   enableMemoryManagement: true,
@@ -229,7 +243,57 @@ const supervisorConfig: SupervisorConfig = supervisorConfigSchema.parse({
   enableMarkdownDownloader: true,
   enableGitingest: true,
   dataDirectory: path.resolve("./data"),
-});
+};
+
+// Register the supervisor section with config_manager
+layeredConfig.register('supervisor', supervisorConfigSchema, supervisorDefaults);
+
+/**
+ * Resolve the supervisor section through the config file,
+ * VOLTMACHINES_SUPERVISOR__* variables and runtime overrides. An unreadable
+ * config file or invalid value falls back to the defaults instead of
+ * failing startup.
+ */
+async function loadSupervisorConfig(): Promise<SupervisorConfig> {
+  try {
+    return supervisorConfigSchema.parse(
+      await layeredConfig.getSection('supervisor', process.env.NODE_ENV || 'default')
+    );
+  } catch (error) {
+    console.warn('Could not load supervisor config, using defaults:', error);
+    return supervisorConfigSchema.parse(supervisorDefaults);
+  }
+}
+
+/**
+ * Apply the delegation limits and start the background services: scheduled
+ * notifications, the tool registry used by jobs and batches, and the job scheduler
+ */
+function startServices(config: SupervisorConfig): void {
+  // Enforce sub-agent concurrency limits for every delegation
+  delegationScheduler.configure({
+    maxConcurrent: config.maxSubAgents,
+    maxConcurrentPerAgent: config.maxSubAgentsPerAgent,
+  });
+
+  // Re-arm notifications scheduled before the last restart
+  notificationDispatcher.start().catch((error) => {
+    console.warn('Could not restore scheduled notifications:', error);
+  });
+
+  // Scheduled jobs and batch items may call any supervisor tool
+  toolRegistry.register([...mcpTools, ...supervisorToolset, delegateTaskTool, delegationHistoryTool, routeTaskTool]);
+
+  // Restore scheduled jobs and apply misfire policies
+  jobScheduler.start().catch((error) => {
+    console.warn('Could not restore scheduled jobs:', error);
+  });
+}
+
+// This module is the application entry point: the supervisor agent below and
+// the services are built from the resolved config when it is loaded
+const supervisorConfig = await loadSupervisorConfig();
+startServices(supervisorConfig);
 
 /**
  * The main supervisor agent that orchestrates the entire multi-agent system.
@@ -256,7 +320,7 @@ export const supervisorAgent = new Agent({
   instructions: getAgentPrompt({
     capabilities: supervisorConfig.capabilities,
     goal: `Act as the VoltMachines system's central orchestrator, autonomously coordinating, delegating, and executing complex multi-agent workflows. Leverage advanced tool access—including terminal, Windows terminal, web search, filesystem, markdown downloader, and gitingest—to deliver seamless, context-rich, and auditable results. Ensure all data, file, and markdown operations are unified in the ${supervisorConfig.dataDirectory} directory for maximum traceability, compliance, and operational efficiency. Proactively monitor agent health, optimize resource allocation, and enforce robust security and auditability across all actions.`,
-    context: `Available tools: ${supervisorConfig.capabilities.join(', ')}. Subagents: dataAnalyst, systemAdmin, contentCreator, problemSolver, fileManager, developer, worker. Config: Max subagents: ${supervisorConfig.maxSubAgents}, Delegation timeout: ${supervisorConfig.delegationTimeout}ms, File system: ${supervisorConfig.enableFileSystem ? 'enabled' : 'disabled'}, Memory: ${supervisorConfig.enableMemoryManagement ? 'enabled' : 'disabled'}, Terminal: ${supervisorConfig.enableTerminal ? 'enabled' : 'disabled'}, Search: ${supervisorConfig.enableSearch ? 'enabled' : 'disabled'}, Windows terminal: ${supervisorConfig.enableWindowsTerminal ? 'enabled' : 'disabled'}, Markdown: ${supervisorConfig.enableMarkdownDownloader ? 'enabled' : 'disabled'}, Gitingest: ${supervisorConfig.enableGitingest ? 'enabled' : 'disabled'}. All persistent operations use ${supervisorConfig.dataDirectory}.`,
+    context: `Available tools: ${supervisorConfig.capabilities.join(', ')}. Subagents: dataAnalyst, systemAdmin, contentCreator, problemSolver, fileManager, developer, worker. Config: Max subagents: ${supervisorConfig.maxSubAgents} (${supervisorConfig.maxSubAgentsPerAgent} per agent), Delegation timeout: ${supervisorConfig.delegationTimeout}ms, File system: ${supervisorConfig.enableFileSystem ? 'enabled' : 'disabled'}, Memory: ${supervisorConfig.enableMemoryManagement ? 'enabled' : 'disabled'}, Terminal: ${supervisorConfig.enableTerminal ? 'enabled' : 'disabled'}, Search: ${supervisorConfig.enableSearch ? 'enabled' : 'disabled'}, Windows terminal: ${supervisorConfig.enableWindowsTerminal ? 'enabled' : 'disabled'}, Markdown: ${supervisorConfig.enableMarkdownDownloader ? 'enabled' : 'disabled'}, Gitingest: ${supervisorConfig.enableGitingest ? 'enabled' : 'disabled'}. All persistent operations use ${supervisorConfig.dataDirectory}.`,
     task: `Continuously analyze user/system requests, select and delegate to the most appropriate specialized agents, and orchestrate workflows that may span terminal, search, markdown, git, and file operations. Manage memory and context for every operation, synthesize results into actionable outputs, and ensure all persistent data is stored in the unified directory. Proactively detect workflow bottlenecks, enforce security, and provide detailed audit trails for every action.`,
   }),
   llm: new GoogleGenAIProvider({
@@ -266,11 +330,14 @@ export const supervisorAgent = new Agent({
   tools: [
     ...mcpTools,
     ...supervisorToolset,
-    delegateTaskTool
+    delegateTaskTool,
+    delegationHistoryTool,
+    routeTaskTool
   ],
   memory: voltAgentMemory,
   memoryOptions: {
     maxSubAgents: supervisorConfig.maxSubAgents,
+    maxSubAgentsPerAgent: supervisorConfig.maxSubAgentsPerAgent,
     delegationTimeout: supervisorConfig.delegationTimeout,
     enableFileSystem: supervisorConfig.enableFileSystem,
     enableMemoryManagement: supervisorConfig.enableMemoryManagement,
@@ -468,20 +535,28 @@ function listAgents(): AgentCapability[] {
  */
 async function getSystemStatus(): Promise<SystemStatus> {
   const agents = listAgents();
-  const conversations = await voltAgentMemory.getConversations('main-user');
+  // Memory failures surface through the libsql probe rather than as errors
+  const [health, conversations, totalMessages] = await Promise.all([
+    healthProbes.run(),
+    voltAgentMemory.getConversations('main-user').catch(() => []),
+    countMessages().catch(() => 0),
+  ]);
+  const mcpProbes = health.probes.filter(probe => probe.name.startsWith('mcp:'));
   
   const status: SystemStatus = {
-    timestamp: new Date().toISOString(),
-    status: 'healthy',
+    timestamp: health.checkedAt,
+    status: health.status,
+    reasons: health.reasons,
+    probes: health.probes,
     agents,
     memory: {
-      connected: true,
+      connected: health.probes.some(probe => probe.name === 'libsql' && probe.status !== 'critical'),
       conversations: conversations.length,
-      totalMessages: 0 // Calculate from conversations
+      totalMessages,
     },
     tools: {
-      mcpConnected: mcpTools.length > 0,
-      toolCount: mcpTools.length,
+      mcpConnected: mcpProbes.length > 0 && mcpProbes.every(probe => probe.status === 'healthy'),
+      toolCount: toolRegistry.size,
     },
     performance: {
       uptime: process.uptime(),
@@ -579,8 +654,15 @@ export const development = {
 /**
  * Interactive chat function using streamText for real-time responses with the supervisor agent
  * 
+ * Progress from sub-agents the supervisor delegates to (start, tool calls,
+ * partial text, finish) is rendered live under a per-agent label.
+ * 
+ * An optional budget caps tokens, tool calls and wall-clock time across the
+ * supervisor and every agent it delegates to; when one is exhausted the turn
+ * stops and the exhausted budget is reported.
+ * 
  * @param input - User input message
- * @param options - Optional parameters like userId and conversationId
+ * @param options - Optional parameters like userId, conversationId and budget
  * @returns Promise resolving when the streaming is complete
  * 
  * @example
@@ -595,10 +677,15 @@ export const development = {
  *   conversationId 
  * });
  * 
+ * // Bounded turn
+ * await chat("Research and summarize VoltAgent hooks", {
+ *   budget: { maxTotalTokens: 50000, maxToolCalls: 20, maxWallClockMs: 120000 }
+ * });
+ * 
  */
 export async function chat(
   input: string, 
-  options: { userId?: string; conversationId?: string } = {}
+  options: { userId?: string; conversationId?: string; budget?: BudgetLimits } = {}
 ): Promise<void> {
   try {
     console.log(`\n🧑 User: ${input}`);
@@ -609,15 +696,42 @@ export async function chat(
     
     console.log(`🏛️ Supervisor: `, ''); // Start on same line for streaming
     
-    // Use supervisor agent with streaming and proper memory context
-    const stream = await supervisorAgent.streamText(input, {
-      userId,
-      conversationId
-    });
-
-    // Stream the response in real-time
-    for await (const chunk of stream.textStream) {
-      process.stdout.write(chunk); // Real-time output without newlines
+    // Route delegation progress for this turn to the terminal
+    const progressChannel = crypto.randomUUID();
+    const renderProgress = createProgressRenderer();
+    const unsubscribe = delegationProgress.subscribe(progressChannel, renderProgress);
+    // userId is recorded with every audit entry for this turn
+    const userContext = new Map<string | symbol, unknown>([[PROGRESS_CHANNEL_KEY, progressChannel], ["userId", userId]]);
+    
+    // Shared by every agent in this turn through userContext
+    const budget = options.budget ? new OperationBudget(options.budget) : undefined;
+    if (budget) userContext.set(BUDGET_KEY, budget);
+    
+    try {
+      // Use supervisor agent with streaming and proper memory context
+      const stream = await supervisorAgent.streamText(input, {
+        userId,
+        conversationId,
+        userContext,
+        signal: budget?.signal,
+      });
+
+      // Stream the response in real-time
+      for await (const chunk of stream.textStream) {
+        process.stdout.write(chunk); // Real-time output without newlines
+      }
+    } catch (error) {
+      // A budget abort is a clean stop, not a chat error
+      if (!budget?.exceeded) throw error;
+    } finally {
+      unsubscribe();
+      renderProgress.flush();
+      budget?.dispose();
+    }
+    
+    if (budget?.exceeded) {
+      const { budget: name, used, limit } = budget.exceeded;
+      console.log(`\n💸 Stopped: ${name} budget exhausted (used ${used} of ${limit})`);
     }
     console.log('\n'); // Add newline when complete
     
@@ -670,7 +784,8 @@ export async function chatWithAgent(
     // Always use streamText for all agents
     const stream = await agent.streamText(input, {
       userId,
-      conversationId
+      conversationId,
+      userContext: new Map<string | symbol, unknown>([["userId", userId]]),
     });
 
     // Stream the response in real-time
@@ -769,7 +884,8 @@ export async function startChatSession(startingAgent: string = 'supervisor'): Pr
             case 'status': {
               const status = await getSystemStatus();
               console.log('📊 System Status:', status.status);
-              console.log(`💾 Conversations: ${status.memory.conversations}`);
+              status.reasons.forEach(reason => console.log(`  ⚠️ ${reason}`));
+              console.log(`💾 Conversations: ${status.memory.conversations} (${status.memory.totalMessages} messages)`);
               console.log(`🛠️ Tools: ${status.tools.toolCount}`);
               console.log(`⚡ Uptime: ${Math.round(status.performance.uptime)}s\n`);
               break;
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Append-only, hash-chained audit log
+ *
+ * Every entry stores the SHA-256 of its own contents together with the hash of
+ * the entry before it, so editing, removing or reordering any stored entry
+ * breaks the chain from that point on. Triggers reject UPDATE and DELETE on
+ * the table; verifyAuditChain() detects changes made around them.
+ */
+
+import { createHash } from "node:crypto";
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const auditTable = `${memoryTablePrefix}_audit_log`;
+
+/** prev_hash of the first entry */
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type AuditEvent = 'agent_start' | 'agent_end' | 'tool_start' | 'tool_end' | 'delegation' | 'handoff' | 'manual';
+
+/**
+ * What a caller records; sequence, time and hashes are assigned on append
+ */
+export interface AuditInput {
+  event: AuditEvent;
+  agent?: string;
+  tool?: string;
+  userId?: string;
+  sessionId?: string;
+  operationId?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A stored entry
+ */
+export interface AuditEntry extends AuditInput {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilters {
+  event?: AuditEvent;
+  agent?: string;
+  tool?: string;
+  userId?: string;
+  sessionId?: string;
+  /** ISO timestamp, inclusive */
+  since?: string;
+  /** ISO timestamp, inclusive */
+  until?: string;
+}
+
+/**
+ * Outcome of walking the chain
+ */
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  /** Hash of the newest entry; keep a copy elsewhere to detect truncation */
+  headHash: string;
+  firstInvalidSeq?: number;
+  problem?: string;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+/**
+ * Create the audit table and its append-only triggers on first use
+ */
+function ensureAuditTable(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${auditTable} (
+          seq INTEGER PRIMARY KEY,
+          timestamp TEXT NOT NULL,
+          event TEXT NOT NULL,
+          agent TEXT,
+          tool TEXT,
+          user_id TEXT,
+          session_id TEXT,
+          operation_id TEXT,
+          details TEXT,
+          prev_hash TEXT NOT NULL,
+          hash TEXT NOT NULL
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${auditTable}_time_idx ON ${auditTable} (timestamp)`);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${auditTable}_session_idx ON ${auditTable} (session_id, seq)`);
+      for (const action of ['UPDATE', 'DELETE']) {
+        await memoryClient.execute(`
+          CREATE TRIGGER IF NOT EXISTS ${auditTable}_no_${action.toLowerCase()}
+          BEFORE ${action} ON ${auditTable}
+          BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END
+        `);
+      }
+    })().catch((error) => {
+      tablesReady = null;
+      throw error;
+    });
+  }
+  return tablesReady;
+}
+
+/**
+ * Hash over every stored field except the hash itself, in a fixed order
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash' | 'details'> & { details: string | null }): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      entry.seq,
+      entry.timestamp,
+      entry.event,
+      entry.agent ?? null,
+      entry.tool ?? null,
+      entry.userId ?? null,
+      entry.sessionId ?? null,
+      entry.operationId ?? null,
+      entry.details,
+      entry.prevHash,
+    ]))
+    .digest('hex');
+}
+
+function rowToEntry(row: Record<string, unknown>): AuditEntry {
+  return {
+    seq: Number(row.seq),
+    timestamp: String(row.timestamp),
+    event: String(row.event) as AuditEvent,
+    agent: (row.agent as string | null) ?? undefined,
+    tool: (row.tool as string | null) ?? undefined,
+    userId: (row.user_id as string | null) ?? undefined,
+    sessionId: (row.session_id as string | null) ?? undefined,
+    operationId: (row.operation_id as string | null) ?? undefined,
+    details: row.details ? JSON.parse(String(row.details)) : undefined,
+    prevHash: String(row.prev_hash),
+    hash: String(row.hash),
+  };
+}
+
+// Appends from this process are chained one at a time
+let appendChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Append an entry to the end of the chain
+ */
+export function appendAuditEntry(input: AuditInput): Promise<AuditEntry> {
+  const appended = appendChain.then(() => insertEntry(input));
+  appendChain = appended.catch(() => undefined);
+  return appended;
+}
+
+async function insertEntry(input: AuditInput, attempt = 1): Promise<AuditEntry> {
+  await ensureAuditTable();
+  const last = await memoryClient.execute(`SELECT seq, hash FROM ${auditTable} ORDER BY seq DESC LIMIT 1`);
+  const seq = last.rows[0] ? Number(last.rows[0].seq) + 1 : 1;
+  const prevHash = last.rows[0] ? String(last.rows[0].hash) : GENESIS_HASH;
+  const details = input.details === undefined ? null : JSON.stringify(input.details);
+  const unhashed = { ...input, seq, timestamp: new Date().toISOString(), prevHash };
+  const hash = hashEntry({ ...unhashed, details });
+
+  try {
+    await memoryClient.execute({
+      sql: `INSERT INTO ${auditTable} (seq, timestamp, event, agent, tool, user_id, session_id, operation_id, details, prev_hash, hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        seq,
+        unhashed.timestamp,
+        input.event,
+        input.agent ?? null,
+        input.tool ?? null,
+        input.userId ?? null,
+        input.sessionId ?? null,
+        input.operationId ?? null,
+        details,
+        prevHash,
+        hash,
+      ],
+    });
+  } catch (error) {
+    // Another process appended the same sequence number first; chain onto its entry
+    if (attempt < 5 && error instanceof Error && /UNIQUE|PRIMARY KEY/i.test(error.message)) {
+      return insertEntry(input, attempt + 1);
+    }
+    throw error;
+  }
+  return { ...unhashed, hash };
+}
+
+/**
+ * Query entries matching all given filters
+ *
+ * @param page.order - `desc` (newest first, default) or `asc`
+ * @param page.afterSeq - Only entries after this sequence number (for paging in `asc` order)
+ */
+export async function listAuditEntries(
+  filters: AuditFilters = {},
+  page: { limit?: number; order?: 'asc' | 'desc'; afterSeq?: number } = {}
+): Promise<AuditEntry[]> {
+  await ensureAuditTable();
+  const where: string[] = [];
+  const args: (string | number)[] = [];
+  if (filters.event) { where.push('event = ?'); args.push(filters.event); }
+  if (filters.agent) { where.push('agent = ?'); args.push(filters.agent); }
+  if (filters.tool) { where.push('tool = ?'); args.push(filters.tool); }
+  if (filters.userId) { where.push('user_id = ?'); args.push(filters.userId); }
+  if (filters.sessionId) { where.push('session_id = ?'); args.push(filters.sessionId); }
+  if (filters.since) { where.push('timestamp >= ?'); args.push(filters.since); }
+  if (filters.until) { where.push('timestamp <= ?'); args.push(filters.until); }
+  if (page.afterSeq !== undefined) { where.push('seq > ?'); args.push(page.afterSeq); }
+  args.push(page.limit ?? 100);
+
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${auditTable} ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY seq ${page.order === 'asc' ? 'ASC' : 'DESC'} LIMIT ?`,
+    args,
+  });
+  return result.rows.map(row => rowToEntry(row as Record<string, unknown>));
+}
+
+/**
+ * Walk the whole chain, recomputing every hash
+ *
+ * Detects edited entries, removed or inserted entries, and reordering.
+ * Truncation of the newest entries is only detectable against a previously
+ * recorded head hash.
+ */
+export async function verifyAuditChain(pageSize = 500): Promise<AuditVerification> {
+  await ensureAuditTable();
+  let expectedPrev = GENESIS_HASH;
+  let expectedSeq = 1;
+  let checked = 0;
+
+  for (;;) {
+    const result = await memoryClient.execute({
+      sql: `SELECT * FROM ${auditTable} WHERE seq >= ? ORDER BY seq ASC LIMIT ?`,
+      args: [expectedSeq, pageSize],
+    });
+    if (result.rows.length === 0) break;
+
+    for (const row of result.rows) {
+      const stored = row as Record<string, unknown>;
+      const entry = rowToEntry(stored);
+      const fail = (problem: string): AuditVerification => ({ valid: false, checked, headHash: expectedPrev, firstInvalidSeq: entry.seq, problem });
+
+      if (entry.seq !== expectedSeq) return fail(`Entries ${expectedSeq}-${entry.seq - 1} are missing`);
+      if (entry.prevHash !== expectedPrev) return fail('prev_hash does not match the previous entry');
+      const details = (stored.details as string | null) ?? null;
+      if (hashEntry({ ...entry, details }) !== entry.hash) return fail('Entry contents do not match its hash');
+
+      expectedPrev = entry.hash;
+      expectedSeq++;
+      checked++;
+    }
+  }
+
+  return { valid: true, checked, headHash: expectedPrev };
+}
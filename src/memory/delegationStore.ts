@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Persistent delegation records
+ *
+ * Every delegate_task outcome is stored in LibSQL next to conversation memory,
+ * so the supervisor can list past delegations, open the exact sub-agent thread
+ * that produced a result, and continue that thread with a follow-up task.
+ */
+
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const table = `${memoryTablePrefix}_delegations`;
+
+/**
+ * A stored delegation outcome
+ */
+export interface DelegationRecord {
+  id: string;
+  task: string;
+  agentName: string;
+  stepId?: string;
+  priority: string;
+  parentOperationId?: string;
+  /** Sub-agent conversation the delegation ran in ('' if it never started) */
+  conversationId: string;
+  userId: string;
+  status: string;
+  success: boolean;
+  duration: number;
+  usage?: unknown;
+  response: string;
+  error?: string;
+  /** Record this delegation continues, for follow-ups */
+  followUpOf?: string;
+  createdAt: string;
+}
+
+let tableReady: Promise<void> | null = null;
+
+/**
+ * Create the delegations table on first use
+ */
+function ensureDelegationTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          id TEXT PRIMARY KEY,
+          task TEXT NOT NULL,
+          agent_name TEXT NOT NULL,
+          step_id TEXT,
+          priority TEXT NOT NULL,
+          parent_operation_id TEXT,
+          conversation_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          duration INTEGER NOT NULL,
+          usage TEXT,
+          response TEXT NOT NULL,
+          error TEXT,
+          follow_up_of TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${table}_created_idx ON ${table} (created_at)`);
+    })().catch((error) => {
+      tableReady = null;
+      throw error;
+    });
+  }
+  return tableReady;
+}
+
+function rowToRecord(row: Record<string, unknown>): DelegationRecord {
+  return {
+    id: String(row.id),
+    task: String(row.task),
+    agentName: String(row.agent_name),
+    stepId: (row.step_id as string | null) ?? undefined,
+    priority: String(row.priority),
+    parentOperationId: (row.parent_operation_id as string | null) ?? undefined,
+    conversationId: String(row.conversation_id),
+    userId: String(row.user_id),
+    status: String(row.status),
+    success: Number(row.success) === 1,
+    duration: Number(row.duration),
+    usage: row.usage ? JSON.parse(String(row.usage)) : undefined,
+    response: String(row.response),
+    error: (row.error as string | null) ?? undefined,
+    followUpOf: (row.follow_up_of as string | null) ?? undefined,
+    createdAt: String(row.created_at),
+  };
+}
+
+/**
+ * Store a delegation outcome
+ *
+ * @returns The stored record's ID
+ */
+export async function recordDelegation(record: Omit<DelegationRecord, 'id' | 'createdAt'>): Promise<string> {
+  await ensureDelegationTable();
+  const id = crypto.randomUUID();
+  await memoryClient.execute({
+    sql: `INSERT INTO ${table} (id, task, agent_name, step_id, priority, parent_operation_id, conversation_id, user_id, status, success, duration, usage, response, error, follow_up_of, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      record.task,
+      record.agentName,
+      record.stepId ?? null,
+      record.priority,
+      record.parentOperationId ?? null,
+      record.conversationId,
+      record.userId,
+      record.status,
+      record.success ? 1 : 0,
+      Math.round(record.duration),
+      record.usage === undefined ? null : JSON.stringify(record.usage),
+      record.response,
+      record.error ?? null,
+      record.followUpOf ?? null,
+      new Date().toISOString(),
+    ],
+  });
+  return id;
+}
+
+/**
+ * Fetch a single delegation record by ID
+ */
+export async function getDelegation(id: string): Promise<DelegationRecord | undefined> {
+  await ensureDelegationTable();
+  const result = await memoryClient.execute({ sql: `SELECT * FROM ${table} WHERE id = ?`, args: [id] });
+  return result.rows[0] ? rowToRecord(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+/**
+ * List delegation records, newest first
+ *
+ * @example
+ *
+ * const failed = await listDelegations({ status: 'failed', limit: 10 });
+ *
+ */
+export async function listDelegations(filters: {
+  agentName?: string;
+  status?: string;
+  parentOperationId?: string;
+  conversationId?: string;
+  limit?: number;
+} = {}): Promise<DelegationRecord[]> {
+  await ensureDelegationTable();
+  const clauses: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filters.agentName) { clauses.push('agent_name = ?'); args.push(filters.agentName); }
+  if (filters.status) { clauses.push('status = ?'); args.push(filters.status); }
+  if (filters.parentOperationId) { clauses.push('parent_operation_id = ?'); args.push(filters.parentOperationId); }
+  if (filters.conversationId) { clauses.push('conversation_id = ?'); args.push(filters.conversationId); }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+  args.push(filters.limit ?? 20);
+
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${table} ${where} ORDER BY created_at DESC LIMIT ?`,
+    args,
+  });
+  return result.rows.map(row => rowToRecord(row as Record<string, unknown>));
+}
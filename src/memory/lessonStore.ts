@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Lessons learned, recorded through the reflect tool
+ *
+ * A lesson describes a situation, what went wrong or right in it, and a rule
+ * to follow next time. Lessons are tagged with the agent they apply to (none
+ * means every agent) and a task type, and carry the embedding used to find
+ * them again for similar tasks. Retired lessons are kept for reference but
+ * are no longer retrieved.
+ */
+
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const lessonsTable = `${memoryTablePrefix}_lessons`;
+
+export type LessonOutcome = 'went_wrong' | 'went_right';
+export type LessonStatus = 'active' | 'retired';
+
+/**
+ * What the reflect tool records
+ */
+export interface LessonInput {
+  /** Registry name of the agent the lesson applies to; every agent when omitted */
+  agent?: string;
+  taskType: string;
+  situation: string;
+  outcome: LessonOutcome;
+  /** What went wrong or right */
+  whatHappened: string;
+  /** Rule to follow next time */
+  rule: string;
+}
+
+/**
+ * A stored lesson
+ */
+export interface Lesson extends LessonInput {
+  id: string;
+  status: LessonStatus;
+  retiredReason?: string;
+  /** Times the lesson was added to an agent's context */
+  appliedCount: number;
+  lastAppliedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A lesson with its embedding, for similarity search
+ */
+export interface EmbeddedLesson {
+  lesson: Lesson;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+export interface LessonFilters {
+  agent?: string;
+  taskType?: string;
+  status?: LessonStatus;
+  limit?: number;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+/**
+ * Create the lessons table on first use
+ */
+function ensureLessonTable(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${lessonsTable} (
+          id TEXT PRIMARY KEY,
+          agent TEXT,
+          task_type TEXT NOT NULL,
+          situation TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          what_happened TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          embedding TEXT NOT NULL,
+          embedding_model TEXT NOT NULL,
+          status TEXT NOT NULL,
+          retired_reason TEXT,
+          applied_count INTEGER NOT NULL DEFAULT 0,
+          last_applied_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${lessonsTable}_agent_idx ON ${lessonsTable} (status, agent, task_type)`);
+    })().catch((error) => {
+      tablesReady = null;
+      throw error;
+    });
+  }
+  return tablesReady;
+}
+
+function rowToLesson(row: Record<string, unknown>): Lesson {
+  return {
+    id: String(row.id),
+    agent: (row.agent as string | null) ?? undefined,
+    taskType: String(row.task_type),
+    situation: String(row.situation),
+    outcome: String(row.outcome) as LessonOutcome,
+    whatHappened: String(row.what_happened),
+    rule: String(row.rule),
+    status: String(row.status) as LessonStatus,
+    retiredReason: (row.retired_reason as string | null) ?? undefined,
+    appliedCount: Number(row.applied_count),
+    lastAppliedAt: (row.last_applied_at as string | null) ?? undefined,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/**
+ * Store a new, active lesson
+ */
+export async function createLesson(input: LessonInput, embedding: number[], embeddingModel: string): Promise<Lesson> {
+  await ensureLessonTable();
+  const now = new Date().toISOString();
+  const lesson: Lesson = { ...input, id: crypto.randomUUID(), status: 'active', appliedCount: 0, createdAt: now, updatedAt: now };
+  await memoryClient.execute({
+    sql: `INSERT INTO ${lessonsTable} (id, agent, task_type, situation, outcome, what_happened, rule, embedding, embedding_model, status, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      lesson.id,
+      lesson.agent ?? null,
+      lesson.taskType,
+      lesson.situation,
+      lesson.outcome,
+      lesson.whatHappened,
+      lesson.rule,
+      JSON.stringify(embedding),
+      embeddingModel,
+      lesson.status,
+      now,
+      now,
+    ],
+  });
+  return lesson;
+}
+
+export async function getLesson(id: string): Promise<Lesson | undefined> {
+  await ensureLessonTable();
+  const result = await memoryClient.execute({ sql: `SELECT * FROM ${lessonsTable} WHERE id = ?`, args: [id] });
+  return result.rows[0] ? rowToLesson(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+/**
+ * List lessons, most recently updated first
+ */
+export async function listLessons(filters: LessonFilters = {}): Promise<Lesson[]> {
+  await ensureLessonTable();
+  const where: string[] = [];
+  const args: (string | number)[] = [];
+  if (filters.agent) { where.push('agent = ?'); args.push(filters.agent); }
+  if (filters.taskType) { where.push('task_type = ?'); args.push(filters.taskType); }
+  if (filters.status) { where.push('status = ?'); args.push(filters.status); }
+  args.push(filters.limit ?? 50);
+
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${lessonsTable} ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY updated_at DESC LIMIT ?`,
+    args,
+  });
+  return result.rows.map(row => rowToLesson(row as Record<string, unknown>));
+}
+
+/**
+ * Active lessons that apply to an agent (its own and those for every agent),
+ * with their embeddings
+ */
+export async function listActiveLessonEmbeddings(agent: string, taskType?: string): Promise<EmbeddedLesson[]> {
+  await ensureLessonTable();
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${lessonsTable} WHERE status = 'active' AND (agent = ? OR agent IS NULL)${taskType ? ' AND task_type = ?' : ''}`,
+    args: taskType ? [agent, taskType] : [agent],
+  });
+  return result.rows.map(row => ({
+    lesson: rowToLesson(row as Record<string, unknown>),
+    embedding: JSON.parse(String(row.embedding)),
+    embeddingModel: String(row.embedding_model),
+  }));
+}
+
+/**
+ * Change a lesson's content; pass the new embedding when the text changed
+ */
+export async function updateLesson(
+  id: string,
+  changes: Partial<Omit<LessonInput, 'agent'>> & { agent?: string | null },
+  embedding?: { vector: number[]; model: string }
+): Promise<Lesson | undefined> {
+  await ensureLessonTable();
+  const columns: Record<string, string | null | undefined> = {
+    agent: changes.agent,
+    task_type: changes.taskType,
+    situation: changes.situation,
+    outcome: changes.outcome,
+    what_happened: changes.whatHappened,
+    rule: changes.rule,
+    embedding: embedding ? JSON.stringify(embedding.vector) : undefined,
+    embedding_model: embedding?.model,
+  };
+  const sets = ['updated_at = ?'];
+  const args: (string | null)[] = [new Date().toISOString()];
+  for (const [column, value] of Object.entries(columns)) {
+    if (value !== undefined) { sets.push(`${column} = ?`); args.push(value); }
+  }
+  args.push(id);
+  await memoryClient.execute({ sql: `UPDATE ${lessonsTable} SET ${sets.join(', ')} WHERE id = ?`, args });
+  return getLesson(id);
+}
+
+/**
+ * Stop retrieving a lesson, keeping it for reference
+ */
+export async function retireLesson(id: string, reason: string): Promise<Lesson | undefined> {
+  await ensureLessonTable();
+  const now = new Date().toISOString();
+  await memoryClient.execute({
+    sql: `UPDATE ${lessonsTable} SET status = 'retired', retired_reason = ?, updated_at = ? WHERE id = ?`,
+    args: [reason, now, id],
+  });
+  return getLesson(id);
+}
+
+/**
+ * Count that these lessons were added to an agent's context
+ */
+export async function markLessonsApplied(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await ensureLessonTable();
+  await memoryClient.execute({
+    sql: `UPDATE ${lessonsTable} SET applied_count = applied_count + 1, last_applied_at = ? WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    args: [new Date().toISOString(), ...ids],
+  });
+}
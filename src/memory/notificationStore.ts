@@ -0,0 +1,303 @@
+/**
+ * @fileoverview Persistent notifications, delivery records and templates
+ *
+ * Notifications are stored in LibSQL next to conversation memory so scheduled
+ * sends survive restarts and status is reported from what was actually
+ * delivered, one record per recipient attempt.
+ */
+
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const notificationsTable = `${memoryTablePrefix}_notifications`;
+const deliveriesTable = `${memoryTablePrefix}_notification_deliveries`;
+const templatesTable = `${memoryTablePrefix}_notification_templates`;
+
+export type NotificationStatus = 'pending' | 'scheduled' | 'sending' | 'delivered' | 'partial' | 'failed' | 'cancelled';
+
+/**
+ * A stored notification
+ */
+export interface NotificationRecord {
+  id: string;
+  channel: string;
+  recipients: string[];
+  subject?: string;
+  message: string;
+  template?: string;
+  variables?: Record<string, unknown>;
+  priority: string;
+  status: NotificationStatus;
+  scheduleTime?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+/**
+ * One attempt to deliver a notification to one recipient
+ */
+export interface DeliveryRecord {
+  id: string;
+  notificationId: string;
+  recipient: string;
+  attempt: number;
+  success: boolean;
+  /** HTTP status, SMTP reply code, etc. */
+  responseCode?: number;
+  detail?: string;
+  error?: string;
+  createdAt: string;
+}
+
+/**
+ * A stored message template
+ */
+export interface NotificationTemplate {
+  name: string;
+  subject?: string;
+  body: string;
+  channel?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+/**
+ * Create the notification tables on first use
+ */
+function ensureNotificationTables(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${notificationsTable} (
+          id TEXT PRIMARY KEY,
+          channel TEXT NOT NULL,
+          recipients TEXT NOT NULL,
+          subject TEXT,
+          message TEXT NOT NULL,
+          template TEXT,
+          variables TEXT,
+          priority TEXT NOT NULL,
+          status TEXT NOT NULL,
+          schedule_time TEXT,
+          created_at TEXT NOT NULL,
+          completed_at TEXT
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${notificationsTable}_status_idx ON ${notificationsTable} (status, schedule_time)`);
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${deliveriesTable} (
+          id TEXT PRIMARY KEY,
+          notification_id TEXT NOT NULL,
+          recipient TEXT NOT NULL,
+          attempt INTEGER NOT NULL,
+          success INTEGER NOT NULL,
+          response_code INTEGER,
+          detail TEXT,
+          error TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${deliveriesTable}_notification_idx ON ${deliveriesTable} (notification_id)`);
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${templatesTable} (
+          name TEXT PRIMARY KEY,
+          subject TEXT,
+          body TEXT NOT NULL,
+          channel TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+    })().catch((error) => {
+      tablesReady = null;
+      throw error;
+    });
+  }
+  return tablesReady;
+}
+
+function rowToNotification(row: Record<string, unknown>): NotificationRecord {
+  return {
+    id: String(row.id),
+    channel: String(row.channel),
+    recipients: JSON.parse(String(row.recipients)),
+    subject: (row.subject as string | null) ?? undefined,
+    message: String(row.message),
+    template: (row.template as string | null) ?? undefined,
+    variables: row.variables ? JSON.parse(String(row.variables)) : undefined,
+    priority: String(row.priority),
+    status: String(row.status) as NotificationStatus,
+    scheduleTime: (row.schedule_time as string | null) ?? undefined,
+    createdAt: String(row.created_at),
+    completedAt: (row.completed_at as string | null) ?? undefined,
+  };
+}
+
+function rowToDelivery(row: Record<string, unknown>): DeliveryRecord {
+  return {
+    id: String(row.id),
+    notificationId: String(row.notification_id),
+    recipient: String(row.recipient),
+    attempt: Number(row.attempt),
+    success: Number(row.success) === 1,
+    responseCode: row.response_code === null || row.response_code === undefined ? undefined : Number(row.response_code),
+    detail: (row.detail as string | null) ?? undefined,
+    error: (row.error as string | null) ?? undefined,
+    createdAt: String(row.created_at),
+  };
+}
+
+function rowToTemplate(row: Record<string, unknown>): NotificationTemplate {
+  return {
+    name: String(row.name),
+    subject: (row.subject as string | null) ?? undefined,
+    body: String(row.body),
+    channel: (row.channel as string | null) ?? undefined,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/**
+ * Store a new notification
+ */
+export async function createNotification(record: Omit<NotificationRecord, 'id' | 'createdAt'>): Promise<NotificationRecord> {
+  await ensureNotificationTables();
+  const stored: NotificationRecord = { ...record, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+  await memoryClient.execute({
+    sql: `INSERT INTO ${notificationsTable} (id, channel, recipients, subject, message, template, variables, priority, status, schedule_time, created_at, completed_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      stored.id,
+      stored.channel,
+      JSON.stringify(stored.recipients),
+      stored.subject ?? null,
+      stored.message,
+      stored.template ?? null,
+      stored.variables === undefined ? null : JSON.stringify(stored.variables),
+      stored.priority,
+      stored.status,
+      stored.scheduleTime ?? null,
+      stored.createdAt,
+      stored.completedAt ?? null,
+    ],
+  });
+  return stored;
+}
+
+/**
+ * Move a notification to a new status
+ *
+ * @param expected - Only update when the current status is one of these
+ * @returns Whether the row was updated
+ */
+export async function updateNotificationStatus(id: string, status: NotificationStatus, expected?: NotificationStatus[]): Promise<boolean> {
+  await ensureNotificationTables();
+  const terminal = ['delivered', 'partial', 'failed', 'cancelled'].includes(status);
+  const guard = expected && expected.length > 0 ? ` AND status IN (${expected.map(() => '?').join(', ')})` : '';
+  const result = await memoryClient.execute({
+    sql: `UPDATE ${notificationsTable} SET status = ?, completed_at = ? WHERE id = ?${guard}`,
+    args: [status, terminal ? new Date().toISOString() : null, id, ...(expected ?? [])],
+  });
+  return result.rowsAffected > 0;
+}
+
+export async function getNotification(id: string): Promise<NotificationRecord | undefined> {
+  await ensureNotificationTables();
+  const result = await memoryClient.execute({ sql: `SELECT * FROM ${notificationsTable} WHERE id = ?`, args: [id] });
+  return result.rows[0] ? rowToNotification(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+/**
+ * List notifications, newest first
+ */
+export async function listNotifications(filters: { status?: NotificationStatus; channel?: string; limit?: number } = {}): Promise<NotificationRecord[]> {
+  await ensureNotificationTables();
+  const clauses: string[] = [];
+  const args: (string | number)[] = [];
+  if (filters.status) { clauses.push('status = ?'); args.push(filters.status); }
+  if (filters.channel) { clauses.push('channel = ?'); args.push(filters.channel); }
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+  args.push(filters.limit ?? 20);
+
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${notificationsTable} ${where} ORDER BY created_at DESC LIMIT ?`,
+    args,
+  });
+  return result.rows.map(row => rowToNotification(row as Record<string, unknown>));
+}
+
+/**
+ * Notifications waiting for their schedule time, soonest first
+ */
+export async function listScheduledNotifications(): Promise<NotificationRecord[]> {
+  await ensureNotificationTables();
+  const result = await memoryClient.execute(
+    `SELECT * FROM ${notificationsTable} WHERE status IN ('scheduled', 'sending') ORDER BY schedule_time ASC`
+  );
+  return result.rows.map(row => rowToNotification(row as Record<string, unknown>));
+}
+
+/**
+ * Record one delivery attempt
+ */
+export async function recordDelivery(record: Omit<DeliveryRecord, 'id' | 'createdAt'>): Promise<DeliveryRecord> {
+  await ensureNotificationTables();
+  const stored: DeliveryRecord = { ...record, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+  await memoryClient.execute({
+    sql: `INSERT INTO ${deliveriesTable} (id, notification_id, recipient, attempt, success, response_code, detail, error, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      stored.id,
+      stored.notificationId,
+      stored.recipient,
+      stored.attempt,
+      stored.success ? 1 : 0,
+      stored.responseCode ?? null,
+      stored.detail ?? null,
+      stored.error ?? null,
+      stored.createdAt,
+    ],
+  });
+  return stored;
+}
+
+/**
+ * Delivery attempts for a notification, oldest first
+ */
+export async function listDeliveries(notificationId: string): Promise<DeliveryRecord[]> {
+  await ensureNotificationTables();
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${deliveriesTable} WHERE notification_id = ? ORDER BY created_at ASC, attempt ASC`,
+    args: [notificationId],
+  });
+  return result.rows.map(row => rowToDelivery(row as Record<string, unknown>));
+}
+
+/**
+ * Create or replace a template
+ */
+export async function saveTemplate(template: Omit<NotificationTemplate, 'createdAt' | 'updatedAt'>): Promise<NotificationTemplate> {
+  await ensureNotificationTables();
+  const now = new Date().toISOString();
+  await memoryClient.execute({
+    sql: `INSERT INTO ${templatesTable} (name, subject, body, channel, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(name) DO UPDATE SET subject = excluded.subject, body = excluded.body, channel = excluded.channel, updated_at = excluded.updated_at`,
+    args: [template.name, template.subject ?? null, template.body, template.channel ?? null, now, now],
+  });
+  return (await getTemplate(template.name))!;
+}
+
+export async function getTemplate(name: string): Promise<NotificationTemplate | undefined> {
+  await ensureNotificationTables();
+  const result = await memoryClient.execute({ sql: `SELECT * FROM ${templatesTable} WHERE name = ?`, args: [name] });
+  return result.rows[0] ? rowToTemplate(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+export async function listTemplates(): Promise<NotificationTemplate[]> {
+  await ensureNotificationTables();
+  const result = await memoryClient.execute(`SELECT * FROM ${templatesTable} ORDER BY name ASC`);
+  return result.rows.map(row => rowToTemplate(row as Record<string, unknown>));
+}
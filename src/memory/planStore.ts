@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Persistent plans and their step states
+ *
+ * A plan is a goal broken into steps, each run by an agent or a tool, with
+ * dependencies between steps. Step state and output are updated as the plan
+ * runs, so progress survives restarts and can be looked up by plan ID.
+ * Re-planning replaces the steps that have not finished and bumps the plan's
+ * revision.
+ */
+
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const plansTable = `${memoryTablePrefix}_plans`;
+const stepsTable = `${memoryTablePrefix}_plan_steps`;
+
+export type PlanStatus = 'pending' | 'running' | 'done' | 'failed';
+export type PlanStepState = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * A named input; tool steps receive inputs as arguments
+ */
+export interface PlanStepInput {
+  name: string;
+  value: unknown;
+}
+
+/**
+ * One step as written by the planner
+ */
+export interface PlanStepDefinition {
+  id: string;
+  title: string;
+  description: string;
+  executor: { type: 'agent'; agentName: string } | { type: 'tool'; toolName: string };
+  inputs: PlanStepInput[];
+  expectedOutput: string;
+  dependsOn: string[];
+  acceptanceCriteria: string[];
+}
+
+/**
+ * A stored step with its execution state
+ */
+export interface PlanStep extends PlanStepDefinition {
+  planId: string;
+  position: number;
+  /** Plan revision that introduced this step */
+  revision: number;
+  state: PlanStepState;
+  attempts: number;
+  output?: unknown;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Why and when a plan was revised
+ */
+export interface PlanRevision {
+  revision: number;
+  reason: string;
+  replacedStepIds: string[];
+  createdAt: string;
+}
+
+export interface Plan {
+  id: string;
+  goal: string;
+  summary: string;
+  context?: string;
+  plannerAgent: string;
+  status: PlanStatus;
+  revision: number;
+  revisions: PlanRevision[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+/**
+ * Create the plan tables on first use
+ */
+function ensurePlanTables(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${plansTable} (
+          id TEXT PRIMARY KEY,
+          goal TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          context TEXT,
+          planner_agent TEXT NOT NULL,
+          status TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          revisions TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${stepsTable} (
+          plan_id TEXT NOT NULL,
+          step_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          revision INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL,
+          executor TEXT NOT NULL,
+          inputs TEXT NOT NULL,
+          expected_output TEXT NOT NULL,
+          depends_on TEXT NOT NULL,
+          acceptance_criteria TEXT NOT NULL,
+          state TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          output TEXT,
+          error TEXT,
+          started_at TEXT,
+          finished_at TEXT,
+          PRIMARY KEY (plan_id, step_id)
+        )
+      `);
+    })().catch((error) => {
+      tablesReady = null;
+      throw error;
+    });
+  }
+  return tablesReady;
+}
+
+function rowToPlan(row: Record<string, unknown>): Plan {
+  return {
+    id: String(row.id),
+    goal: String(row.goal),
+    summary: String(row.summary),
+    context: (row.context as string | null) ?? undefined,
+    plannerAgent: String(row.planner_agent),
+    status: String(row.status) as PlanStatus,
+    revision: Number(row.revision),
+    revisions: JSON.parse(String(row.revisions)),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+function rowToStep(row: Record<string, unknown>): PlanStep {
+  return {
+    planId: String(row.plan_id),
+    id: String(row.step_id),
+    position: Number(row.position),
+    revision: Number(row.revision),
+    title: String(row.title),
+    description: String(row.description),
+    executor: JSON.parse(String(row.executor)),
+    inputs: JSON.parse(String(row.inputs)),
+    expectedOutput: String(row.expected_output),
+    dependsOn: JSON.parse(String(row.depends_on)),
+    acceptanceCriteria: JSON.parse(String(row.acceptance_criteria)),
+    state: String(row.state) as PlanStepState,
+    attempts: Number(row.attempts),
+    output: row.output ? JSON.parse(String(row.output)) : undefined,
+    error: (row.error as string | null) ?? undefined,
+    startedAt: (row.started_at as string | null) ?? undefined,
+    finishedAt: (row.finished_at as string | null) ?? undefined,
+  };
+}
+
+function insertStep(planId: string, step: PlanStepDefinition, position: number, revision: number) {
+  return {
+    sql: `INSERT INTO ${stepsTable} (plan_id, step_id, position, revision, title, description, executor, inputs, expected_output, depends_on, acceptance_criteria, state, attempts)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0)`,
+    args: [
+      planId,
+      step.id,
+      position,
+      revision,
+      step.title,
+      step.description,
+      JSON.stringify(step.executor),
+      JSON.stringify(step.inputs),
+      step.expectedOutput,
+      JSON.stringify(step.dependsOn),
+      JSON.stringify(step.acceptanceCriteria),
+    ],
+  };
+}
+
+/**
+ * Store a new plan with its steps, all pending
+ */
+export async function createPlan(
+  plan: { goal: string; summary: string; context?: string; plannerAgent: string },
+  steps: PlanStepDefinition[]
+): Promise<Plan> {
+  await ensurePlanTables();
+  const now = new Date().toISOString();
+  const stored: Plan = { ...plan, id: crypto.randomUUID(), status: 'pending', revision: 1, revisions: [], createdAt: now, updatedAt: now };
+  await memoryClient.batch([
+    {
+      sql: `INSERT INTO ${plansTable} (id, goal, summary, context, planner_agent, status, revision, revisions, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [stored.id, stored.goal, stored.summary, stored.context ?? null, stored.plannerAgent, stored.status, stored.revision, '[]', now, now],
+    },
+    ...steps.map((step, index) => insertStep(stored.id, step, index, 1)),
+  ], "write");
+  return stored;
+}
+
+/**
+ * A plan with its steps in plan order
+ */
+export async function getPlan(id: string): Promise<{ plan: Plan; steps: PlanStep[] } | undefined> {
+  await ensurePlanTables();
+  const plan = await memoryClient.execute({ sql: `SELECT * FROM ${plansTable} WHERE id = ?`, args: [id] });
+  if (!plan.rows[0]) return undefined;
+  const steps = await memoryClient.execute({ sql: `SELECT * FROM ${stepsTable} WHERE plan_id = ? ORDER BY position ASC`, args: [id] });
+  return {
+    plan: rowToPlan(plan.rows[0] as Record<string, unknown>),
+    steps: steps.rows.map(row => rowToStep(row as Record<string, unknown>)),
+  };
+}
+
+/**
+ * List plans, newest first
+ */
+export async function listPlans(filters: { status?: PlanStatus; limit?: number } = {}): Promise<Plan[]> {
+  await ensurePlanTables();
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${plansTable} ${filters.status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC LIMIT ?`,
+    args: filters.status ? [filters.status, filters.limit ?? 20] : [filters.limit ?? 20],
+  });
+  return result.rows.map(row => rowToPlan(row as Record<string, unknown>));
+}
+
+/**
+ * Set a plan's status
+ *
+ * @param expected - Only update when the plan still has this status
+ * @returns Whether the row was updated
+ */
+export async function updatePlanStatus(id: string, status: PlanStatus, expected?: PlanStatus[]): Promise<boolean> {
+  await ensurePlanTables();
+  const guard = expected ? ` AND status IN (${expected.map(() => '?').join(', ')})` : '';
+  const result = await memoryClient.execute({
+    sql: `UPDATE ${plansTable} SET status = ?, updated_at = ? WHERE id = ?${guard}`,
+    args: [status, new Date().toISOString(), id, ...(expected ?? [])],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Record a step's state transition
+ */
+export async function updatePlanStep(
+  planId: string,
+  stepId: string,
+  changes: { state: PlanStepState; output?: unknown; error?: string | null; startedAt?: string; finishedAt?: string | null; incrementAttempts?: boolean }
+): Promise<void> {
+  await ensurePlanTables();
+  const sets = ['state = ?'];
+  const args: (string | number | null)[] = [changes.state];
+  if (changes.output !== undefined) { sets.push('output = ?'); args.push(JSON.stringify(changes.output)); }
+  if (changes.error !== undefined) { sets.push('error = ?'); args.push(changes.error); }
+  if (changes.startedAt !== undefined) { sets.push('started_at = ?'); args.push(changes.startedAt); }
+  if (changes.finishedAt !== undefined) { sets.push('finished_at = ?'); args.push(changes.finishedAt); }
+  if (changes.incrementAttempts) sets.push('attempts = attempts + 1');
+  args.push(planId, stepId);
+  await memoryClient.execute({ sql: `UPDATE ${stepsTable} SET ${sets.join(', ')} WHERE plan_id = ? AND step_id = ?`, args });
+}
+
+/**
+ * Replace the unfinished steps of a plan with new ones and record the revision
+ */
+export async function revisePlan(
+  planId: string,
+  revision: PlanRevision,
+  summary: string,
+  steps: PlanStepDefinition[]
+): Promise<void> {
+  await ensurePlanTables();
+  const current = await getPlan(planId);
+  if (!current) throw new Error(`Plan not found: ${planId}`);
+  const nextPosition = Math.max(-1, ...current.steps.filter(step => step.state === 'done').map(step => step.position)) + 1;
+
+  await memoryClient.batch([
+    ...revision.replacedStepIds.map(stepId => ({
+      sql: `DELETE FROM ${stepsTable} WHERE plan_id = ? AND step_id = ? AND state != 'done'`,
+      args: [planId, stepId],
+    })),
+    ...steps.map((step, index) => insertStep(planId, step, nextPosition + index, revision.revision)),
+    {
+      sql: `UPDATE ${plansTable} SET summary = ?, revision = ?, revisions = ?, status = 'pending', updated_at = ? WHERE id = ?`,
+      args: [summary, revision.revision, JSON.stringify([...current.plan.revisions, revision]), new Date().toISOString(), planId],
+    },
+  ], "write");
+}
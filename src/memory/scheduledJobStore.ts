@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Persistent scheduled jobs and their run history
+ *
+ * Jobs live in LibSQL next to conversation memory so schedules survive
+ * restarts; each firing is recorded as a run with its output or error.
+ */
+
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const jobsTable = `${memoryTablePrefix}_scheduled_jobs`;
+const runsTable = `${memoryTablePrefix}_scheduled_job_runs`;
+
+export type JobStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+export type JobRunStatus = 'success' | 'failed' | 'skipped';
+
+/**
+ * What to do with firings missed while the process was down
+ * - run_once: run a single catch-up now, then continue the schedule
+ * - skip: record the miss and wait for the next scheduled time
+ */
+export type MisfirePolicy = 'run_once' | 'skip';
+
+/**
+ * Work performed when a job fires
+ */
+export type JobTarget =
+  | { type: 'agent'; agentName: string; prompt: string }
+  | { type: 'tool'; toolName: string; args: Record<string, unknown> };
+
+/**
+ * A stored job
+ */
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  scheduleType: 'once' | 'cron';
+  /** ISO timestamp for one-shot jobs, cron expression otherwise */
+  schedule: string;
+  target: JobTarget;
+  misfirePolicy: MisfirePolicy;
+  status: JobStatus;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One firing of a job
+ */
+export interface JobRun {
+  id: string;
+  jobId: string;
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: JobRunStatus;
+  /** Whether this run caught up a missed firing */
+  misfired: boolean;
+  output?: unknown;
+  error?: string;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+/**
+ * Create the scheduler tables on first use
+ */
+function ensureJobTables(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${jobsTable} (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          schedule_type TEXT NOT NULL,
+          schedule TEXT NOT NULL,
+          target TEXT NOT NULL,
+          misfire_policy TEXT NOT NULL,
+          status TEXT NOT NULL,
+          next_run_at TEXT,
+          last_run_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${jobsTable}_status_idx ON ${jobsTable} (status, next_run_at)`);
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${runsTable} (
+          id TEXT PRIMARY KEY,
+          job_id TEXT NOT NULL,
+          scheduled_for TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT,
+          status TEXT NOT NULL,
+          misfired INTEGER NOT NULL,
+          output TEXT,
+          error TEXT
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${runsTable}_job_idx ON ${runsTable} (job_id, started_at)`);
+    })().catch((error) => {
+      tablesReady = null;
+      throw error;
+    });
+  }
+  return tablesReady;
+}
+
+function rowToJob(row: Record<string, unknown>): ScheduledJob {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    scheduleType: String(row.schedule_type) as ScheduledJob['scheduleType'],
+    schedule: String(row.schedule),
+    target: JSON.parse(String(row.target)),
+    misfirePolicy: String(row.misfire_policy) as MisfirePolicy,
+    status: String(row.status) as JobStatus,
+    nextRunAt: (row.next_run_at as string | null) ?? undefined,
+    lastRunAt: (row.last_run_at as string | null) ?? undefined,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+function rowToRun(row: Record<string, unknown>): JobRun {
+  return {
+    id: String(row.id),
+    jobId: String(row.job_id),
+    scheduledFor: String(row.scheduled_for),
+    startedAt: String(row.started_at),
+    finishedAt: (row.finished_at as string | null) ?? undefined,
+    status: String(row.status) as JobRunStatus,
+    misfired: Number(row.misfired) === 1,
+    output: row.output ? JSON.parse(String(row.output)) : undefined,
+    error: (row.error as string | null) ?? undefined,
+  };
+}
+
+/**
+ * Store a new job
+ */
+export async function createJob(job: Omit<ScheduledJob, 'id' | 'createdAt' | 'updatedAt'>): Promise<ScheduledJob> {
+  await ensureJobTables();
+  const now = new Date().toISOString();
+  const stored: ScheduledJob = { ...job, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  await memoryClient.execute({
+    sql: `INSERT INTO ${jobsTable} (id, name, schedule_type, schedule, target, misfire_policy, status, next_run_at, last_run_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      stored.id,
+      stored.name,
+      stored.scheduleType,
+      stored.schedule,
+      JSON.stringify(stored.target),
+      stored.misfirePolicy,
+      stored.status,
+      stored.nextRunAt ?? null,
+      stored.lastRunAt ?? null,
+      stored.createdAt,
+      stored.updatedAt,
+    ],
+  });
+  return stored;
+}
+
+export async function getJob(id: string): Promise<ScheduledJob | undefined> {
+  await ensureJobTables();
+  const result = await memoryClient.execute({ sql: `SELECT * FROM ${jobsTable} WHERE id = ?`, args: [id] });
+  return result.rows[0] ? rowToJob(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+/**
+ * List jobs, soonest next run first
+ */
+export async function listJobs(filters: { status?: JobStatus } = {}): Promise<ScheduledJob[]> {
+  await ensureJobTables();
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${jobsTable} ${filters.status ? 'WHERE status = ?' : ''} ORDER BY next_run_at IS NULL, next_run_at ASC, created_at ASC`,
+    args: filters.status ? [filters.status] : [],
+  });
+  return result.rows.map(row => rowToJob(row as Record<string, unknown>));
+}
+
+/**
+ * Update a job's status and/or next run time
+ *
+ * @param expected - Only update when the job still has this status and next run
+ *   time, so two processes (or a pause racing a firing) cannot both claim it
+ * @returns Whether the row was updated
+ */
+export async function updateJob(
+  id: string,
+  changes: { status?: JobStatus; nextRunAt?: string | null; lastRunAt?: string },
+  expected?: { status?: JobStatus; nextRunAt?: string }
+): Promise<boolean> {
+  await ensureJobTables();
+  const sets: string[] = ['updated_at = ?'];
+  const args: (string | null)[] = [new Date().toISOString()];
+  if (changes.status !== undefined) { sets.push('status = ?'); args.push(changes.status); }
+  if (changes.nextRunAt !== undefined) { sets.push('next_run_at = ?'); args.push(changes.nextRunAt); }
+  if (changes.lastRunAt !== undefined) { sets.push('last_run_at = ?'); args.push(changes.lastRunAt); }
+
+  let where = 'id = ?';
+  args.push(id);
+  if (expected?.status) { where += ' AND status = ?'; args.push(expected.status); }
+  if (expected?.nextRunAt) { where += ' AND next_run_at = ?'; args.push(expected.nextRunAt); }
+
+  const result = await memoryClient.execute({ sql: `UPDATE ${jobsTable} SET ${sets.join(', ')} WHERE ${where}`, args });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Record a run
+ */
+export async function recordJobRun(run: Omit<JobRun, 'id'>): Promise<JobRun> {
+  await ensureJobTables();
+  const stored: JobRun = { ...run, id: crypto.randomUUID() };
+  await memoryClient.execute({
+    sql: `INSERT INTO ${runsTable} (id, job_id, scheduled_for, started_at, finished_at, status, misfired, output, error)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      stored.id,
+      stored.jobId,
+      stored.scheduledFor,
+      stored.startedAt,
+      stored.finishedAt ?? null,
+      stored.status,
+      stored.misfired ? 1 : 0,
+      stored.output === undefined ? null : JSON.stringify(stored.output),
+      stored.error ?? null,
+    ],
+  });
+  return stored;
+}
+
+/**
+ * Run history for a job, newest first
+ */
+export async function listJobRuns(jobId: string, limit = 20): Promise<JobRun[]> {
+  await ensureJobTables();
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${runsTable} WHERE job_id = ? ORDER BY started_at DESC LIMIT ?`,
+    args: [jobId, limit],
+  });
+  return result.rows.map(row => rowToRun(row as Record<string, unknown>));
+}
@@ -2,6 +2,7 @@ import { BaseRetriever, type BaseMessage } from "@voltagent/core";
 import { vectorMemory } from './vectorMemory.js';
 import { enhancedVoltMemory } from './voltAgentMemory.js';
 import { agentRegistry } from '../agents/index.js';
+import { lessonsLearned, SUPERVISOR_AGENT } from '../tools/lessons.js';
 
 /**
  * Supervisor-specific retriever that searches both vector memory and conversation history
@@ -71,8 +72,13 @@ export class SupervisorRetriever extends BaseRetriever {
           }
         }
       }
+      // Lessons the supervisor recorded about similar tasks
+      const lessons = await lessonsLearned.contextFor(SUPERVISOR_AGENT, query);
       // Format the retrieved information
       let contextString = "";
+      if (lessons) {
+        contextString += `## Lessons Learned:\n\n${lessons}\n\n`;
+      }
       if (vectorResults.length > 0) {
         contextString += "## Relevant Previous Delegations/Workflows:\n\n";
         vectorResults.forEach((item, index) => {
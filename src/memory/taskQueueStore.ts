@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Durable task queues with leases and dead-lettering
+ *
+ * Tasks live in LibSQL. Dequeue leases a task for a visibility timeout instead
+ * of removing it; the worker must ack it (done), nack it (retry later) or
+ * extend the lease. A lease that expires without an ack — e.g. because the
+ * worker crashed — makes the task available again. Every lease counts as an
+ * attempt, and a task that runs out of attempts moves to its queue's
+ * dead-letter queue.
+ */
+
+import { memoryClient, memoryTablePrefix } from "./voltAgentMemory.js";
+
+const tasksTable = `${memoryTablePrefix}_queue_tasks`;
+
+export type QueueTaskState = 'ready' | 'leased' | 'dead';
+
+/**
+ * A task as stored in a queue
+ */
+export interface QueueTask {
+  id: string;
+  queueName: string;
+  data: unknown;
+  priority: number;
+  state: QueueTaskState;
+  attempts: number;
+  maxAttempts: number;
+  /** Not handed out before this time (delay / nack backoff) */
+  availableAt: string;
+  leaseId?: string;
+  leasedBy?: string;
+  leaseExpiresAt?: string;
+  lastError?: string;
+  enqueuedAt: string;
+  deadLetteredAt?: string;
+}
+
+/**
+ * Per-queue counts
+ */
+export interface QueueStats {
+  queueName: string;
+  ready: number;
+  delayed: number;
+  inFlight: number;
+  deadLettered: number;
+  /** Age in ms of the oldest task that is ready to be dequeued */
+  oldestReadyAgeMs?: number;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+/**
+ * Create the queue table on first use
+ */
+function ensureQueueTable(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = (async () => {
+      await memoryClient.execute(`
+        CREATE TABLE IF NOT EXISTS ${tasksTable} (
+          queue_name TEXT NOT NULL,
+          id TEXT NOT NULL,
+          data TEXT,
+          priority INTEGER NOT NULL,
+          state TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          max_attempts INTEGER NOT NULL,
+          available_at INTEGER NOT NULL,
+          lease_id TEXT,
+          leased_by TEXT,
+          lease_expires_at INTEGER,
+          last_error TEXT,
+          enqueued_at INTEGER NOT NULL,
+          dead_lettered_at INTEGER,
+          PRIMARY KEY (queue_name, id)
+        )
+      `);
+      await memoryClient.execute(`CREATE INDEX IF NOT EXISTS ${tasksTable}_ready_idx ON ${tasksTable} (queue_name, state, priority DESC, enqueued_at)`);
+    })().catch((error) => {
+      tablesReady = null;
+      throw error;
+    });
+  }
+  return tablesReady;
+}
+
+const toIso = (value: unknown) => (value === null || value === undefined ? undefined : new Date(Number(value)).toISOString());
+
+function rowToTask(row: Record<string, unknown>): QueueTask {
+  return {
+    id: String(row.id),
+    queueName: String(row.queue_name),
+    data: row.data === null || row.data === undefined ? undefined : JSON.parse(String(row.data)),
+    priority: Number(row.priority),
+    state: String(row.state) as QueueTaskState,
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    availableAt: toIso(row.available_at)!,
+    leaseId: (row.lease_id as string | null) ?? undefined,
+    leasedBy: (row.leased_by as string | null) ?? undefined,
+    leaseExpiresAt: toIso(row.lease_expires_at),
+    lastError: (row.last_error as string | null) ?? undefined,
+    enqueuedAt: toIso(row.enqueued_at)!,
+    deadLetteredAt: toIso(row.dead_lettered_at),
+  };
+}
+
+async function getTask(queueName: string, id: string): Promise<QueueTask | undefined> {
+  const result = await memoryClient.execute({ sql: `SELECT * FROM ${tasksTable} WHERE queue_name = ? AND id = ?`, args: [queueName, id] });
+  return result.rows[0] ? rowToTask(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+/**
+ * Return expired leases to the queue, dead-lettering tasks that used their last attempt
+ */
+async function reclaimExpiredLeases(queueName: string): Promise<void> {
+  const now = Date.now();
+  await memoryClient.batch([
+    {
+      sql: `UPDATE ${tasksTable} SET state = 'dead', dead_lettered_at = ?, last_error = 'Lease expired on final attempt', lease_id = NULL, leased_by = NULL, lease_expires_at = NULL
+            WHERE queue_name = ? AND state = 'leased' AND lease_expires_at <= ? AND attempts >= max_attempts`,
+      args: [now, queueName, now],
+    },
+    {
+      sql: `UPDATE ${tasksTable} SET state = 'ready', last_error = 'Lease expired', lease_id = NULL, leased_by = NULL, lease_expires_at = NULL
+            WHERE queue_name = ? AND state = 'leased' AND lease_expires_at <= ?`,
+      args: [queueName, now],
+    },
+  ], "write");
+}
+
+/**
+ * Add a task; `delayMs` postpones its first delivery
+ */
+export async function enqueueTask(
+  queueName: string,
+  task: { id?: string; data: unknown; priority?: number; delayMs?: number; maxAttempts?: number }
+): Promise<QueueTask> {
+  await ensureQueueTable();
+  const id = task.id ?? crypto.randomUUID();
+  if (await getTask(queueName, id)) throw new Error(`Task ${id} already exists in queue ${queueName}`);
+
+  const now = Date.now();
+  await memoryClient.execute({
+    sql: `INSERT INTO ${tasksTable} (queue_name, id, data, priority, state, attempts, max_attempts, available_at, enqueued_at)
+          VALUES (?, ?, ?, ?, 'ready', 0, ?, ?, ?)`,
+    args: [queueName, id, task.data === undefined ? null : JSON.stringify(task.data), task.priority ?? 0, task.maxAttempts ?? 3, now + (task.delayMs ?? 0), now],
+  });
+  return (await getTask(queueName, id))!;
+}
+
+/**
+ * Lease the highest-priority available task (oldest first within a priority)
+ */
+export async function leaseTask(queueName: string, options: { workerId?: string; visibilityTimeoutMs: number }): Promise<QueueTask | undefined> {
+  await ensureQueueTable();
+  await reclaimExpiredLeases(queueName);
+
+  // Another worker may lease the candidate between SELECT and UPDATE; try the next one
+  for (let tries = 0; tries < 5; tries++) {
+    const now = Date.now();
+    const candidate = await memoryClient.execute({
+      sql: `SELECT id FROM ${tasksTable} WHERE queue_name = ? AND state = 'ready' AND available_at <= ? ORDER BY priority DESC, enqueued_at ASC LIMIT 1`,
+      args: [queueName, now],
+    });
+    if (!candidate.rows[0]) return undefined;
+
+    const id = String(candidate.rows[0].id);
+    const leaseId = crypto.randomUUID();
+    const claimed = await memoryClient.execute({
+      sql: `UPDATE ${tasksTable} SET state = 'leased', lease_id = ?, leased_by = ?, lease_expires_at = ?, attempts = attempts + 1
+            WHERE queue_name = ? AND id = ? AND state = 'ready'`,
+      args: [leaseId, options.workerId ?? null, now + options.visibilityTimeoutMs, queueName, id],
+    });
+    if (claimed.rowsAffected > 0) return getTask(queueName, id);
+  }
+  return undefined;
+}
+
+/**
+ * Look at the task the next dequeue would lease, without leasing it
+ */
+export async function peekTask(queueName: string): Promise<QueueTask | undefined> {
+  await ensureQueueTable();
+  await reclaimExpiredLeases(queueName);
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${tasksTable} WHERE queue_name = ? AND state = 'ready' AND available_at <= ? ORDER BY priority DESC, enqueued_at ASC LIMIT 1`,
+    args: [queueName, Date.now()],
+  });
+  return result.rows[0] ? rowToTask(result.rows[0] as Record<string, unknown>) : undefined;
+}
+
+/**
+ * Throw unless `leaseId` is the task's current lease
+ */
+async function requireLease(queueName: string, id: string, leaseId: string): Promise<QueueTask> {
+  const task = await getTask(queueName, id);
+  if (!task) throw new Error(`Task ${id} not found in queue ${queueName}`);
+  if (task.state !== 'leased' || task.leaseId !== leaseId) {
+    throw new Error(`Lease ${leaseId} is not held on task ${id} (state: ${task.state}); it may have expired and been redelivered`);
+  }
+  return task;
+}
+
+/**
+ * Complete a leased task, removing it from the queue
+ */
+export async function ackTask(queueName: string, id: string, leaseId: string): Promise<QueueTask> {
+  await ensureQueueTable();
+  const task = await requireLease(queueName, id, leaseId);
+  const result = await memoryClient.execute({
+    sql: `DELETE FROM ${tasksTable} WHERE queue_name = ? AND id = ? AND state = 'leased' AND lease_id = ?`,
+    args: [queueName, id, leaseId],
+  });
+  if (result.rowsAffected === 0) throw new Error(`Lease ${leaseId} on task ${id} was lost`);
+  return task;
+}
+
+/**
+ * Give a leased task back after a failure. It is retried after `delayMs`,
+ * or dead-lettered when it has no attempts left.
+ */
+export async function nackTask(queueName: string, id: string, leaseId: string, options: { delayMs?: number; error?: string } = {}): Promise<QueueTask> {
+  await ensureQueueTable();
+  const task = await requireLease(queueName, id, leaseId);
+  const now = Date.now();
+  const dead = task.attempts >= task.maxAttempts;
+  await memoryClient.execute({
+    sql: `UPDATE ${tasksTable} SET state = ?, available_at = ?, dead_lettered_at = ?, last_error = ?, lease_id = NULL, leased_by = NULL, lease_expires_at = NULL
+          WHERE queue_name = ? AND id = ? AND lease_id = ?`,
+    args: [dead ? 'dead' : 'ready', now + (options.delayMs ?? 0), dead ? now : null, options.error ?? 'nack', queueName, id, leaseId],
+  });
+  return (await getTask(queueName, id))!;
+}
+
+/**
+ * Push a lease's expiry to `visibilityTimeoutMs` from now
+ */
+export async function extendLease(queueName: string, id: string, leaseId: string, visibilityTimeoutMs: number): Promise<QueueTask> {
+  await ensureQueueTable();
+  await requireLease(queueName, id, leaseId);
+  const result = await memoryClient.execute({
+    sql: `UPDATE ${tasksTable} SET lease_expires_at = ? WHERE queue_name = ? AND id = ? AND state = 'leased' AND lease_id = ? AND lease_expires_at > ?`,
+    args: [Date.now() + visibilityTimeoutMs, queueName, id, leaseId, Date.now()],
+  });
+  if (result.rowsAffected === 0) throw new Error(`Lease ${leaseId} on task ${id} has already expired`);
+  return (await getTask(queueName, id))!;
+}
+
+/**
+ * Dead-lettered tasks of a queue, most recent first
+ */
+export async function listDeadLetters(queueName: string, limit = 50): Promise<QueueTask[]> {
+  await ensureQueueTable();
+  await reclaimExpiredLeases(queueName);
+  const result = await memoryClient.execute({
+    sql: `SELECT * FROM ${tasksTable} WHERE queue_name = ? AND state = 'dead' ORDER BY dead_lettered_at DESC LIMIT ?`,
+    args: [queueName, limit],
+  });
+  return result.rows.map(row => rowToTask(row as Record<string, unknown>));
+}
+
+/**
+ * Move dead-lettered tasks (all, or one) back to the queue with fresh attempts
+ */
+export async function redriveDeadLetters(queueName: string, id?: string): Promise<number> {
+  await ensureQueueTable();
+  const result = await memoryClient.execute({
+    sql: `UPDATE ${tasksTable} SET state = 'ready', attempts = 0, available_at = ?, dead_lettered_at = NULL
+          WHERE queue_name = ? AND state = 'dead'${id ? ' AND id = ?' : ''}`,
+    args: id ? [Date.now(), queueName, id] : [Date.now(), queueName],
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Remove tasks from a queue; the dead-letter queue is kept unless `includeDeadLetters`
+ */
+export async function clearQueue(queueName: string, includeDeadLetters = false): Promise<number> {
+  await ensureQueueTable();
+  const result = await memoryClient.execute({
+    sql: `DELETE FROM ${tasksTable} WHERE queue_name = ?${includeDeadLetters ? '' : " AND state != 'dead'"}`,
+    args: [queueName],
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Counts for one queue, or for every queue when no name is given
+ */
+export async function getQueueStats(queueName?: string): Promise<QueueStats[]> {
+  await ensureQueueTable();
+  const names = queueName
+    ? [queueName]
+    : (await memoryClient.execute(`SELECT DISTINCT queue_name FROM ${tasksTable} ORDER BY queue_name`)).rows.map(row => String(row.queue_name));
+
+  const stats: QueueStats[] = [];
+  for (const name of names) {
+    await reclaimExpiredLeases(name);
+    const now = Date.now();
+    const result = await memoryClient.execute({
+      sql: `SELECT
+              SUM(CASE WHEN state = 'ready' AND available_at <= ? THEN 1 ELSE 0 END) AS ready,
+              SUM(CASE WHEN state = 'ready' AND available_at > ? THEN 1 ELSE 0 END) AS delayed,
+              SUM(CASE WHEN state = 'leased' THEN 1 ELSE 0 END) AS in_flight,
+              SUM(CASE WHEN state = 'dead' THEN 1 ELSE 0 END) AS dead,
+              MIN(CASE WHEN state = 'ready' AND available_at <= ? THEN available_at END) AS oldest_ready
+            FROM ${tasksTable} WHERE queue_name = ?`,
+      args: [now, now, now, name],
+    });
+    const row = result.rows[0] as Record<string, unknown>;
+    stats.push({
+      queueName: name,
+      ready: Number(row.ready ?? 0),
+      delayed: Number(row.delayed ?? 0),
+      inFlight: Number(row.in_flight ?? 0),
+      deadLettered: Number(row.dead ?? 0),
+      oldestReadyAgeMs: row.oldest_ready === null || row.oldest_ready === undefined ? undefined : now - Number(row.oldest_ready),
+    });
+  }
+  return stats;
+}
@@ -16,17 +16,36 @@ export class VectorMemory {
   private items: VectorMemoryItem[] = [];
   private embedder: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
 
+  /** Sentence embedding model used for all vectors */
+  readonly model = 'Xenova/all-MiniLM-L6-v2';
+
   constructor() {}
 
+  /**
+   * Whether the embedding model has been loaded
+   */
+  get loaded(): boolean {
+    return this.embedder !== null;
+  }
+
   /**
    * Initialize the embedding model (lazy)
    */
   async ensureEmbedder() {
     if (!this.embedder) {
-      this.embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
+      this.embedder = await pipeline('feature-extraction', this.model);
     }
   }
 
+  /**
+   * Embed text into a single mean-pooled, normalized sentence vector
+   */
+  async embed(text: string): Promise<number[]> {
+    await this.ensureEmbedder();
+    const embedding = await this.embedder(text, { pooling: 'mean', normalize: true });
+    return Array.from(embedding.data).map(Number);
+  }
+
   /**
    * Add a message to vector memory
    */
@@ -93,7 +112,7 @@ export class VectorMemory {
 /**
  * Cosine similarity between two vectors
  */
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   const dot = a.reduce((sum, v, i) => sum + v * b[i], 0);
   const normA = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
   const normB = Math.sqrt(b.reduce((sum, v) => sum + v * v, 0));
@@ -17,6 +17,7 @@
  */
 
 import { LibSQLStorage } from "@voltagent/core";
+import { createClient } from "@libsql/client";
 import { vectorMemory, VectorMemory } from "./vectorMemory.js";
 import { mkdir } from "fs/promises";
 import { dirname } from "path";
@@ -91,6 +92,21 @@ export const voltAgentMemory = new LibSQLStorage({
   debug: memoryConfig.debug, // Enable debug logging
 });
 
+/**
+ * Raw LibSQL client on the same database as voltAgentMemory.
+ * 
+ * Used by subsystems that keep their own tables alongside conversation
+ * memory (delegation records, schedules, audit log). Tables must use
+ * `memoryTablePrefix` to stay grouped with the VoltAgent tables.
+ */
+export const memoryClient = createClient({
+  url: memoryConfig.databaseUrl,
+  authToken: memoryConfig.authToken,
+});
+
+/** Table prefix shared by all memory tables */
+export const memoryTablePrefix = memoryConfig.tablePrefix;
+
 /**
  * Enhanced memory interface that combines persistent storage with vector search.
  * 
@@ -309,6 +325,22 @@ export async function getThreadHistory(conversationId: string, limit: number = 5
   return await voltAgentMemory.getMessages({ conversationId, limit });
 }
 
+/**
+ * Utility function to count stored messages across all conversations.
+ * 
+ * @returns Promise resolving to the number of messages (0 before the first message is stored)
+ */
+export async function countMessages(): Promise<number> {
+  try {
+    const result = await memoryClient.execute(`SELECT COUNT(*) AS count FROM ${memoryTablePrefix}_messages`);
+    return Number(result.rows[0]?.count ?? 0);
+  } catch (error) {
+    // LibSQLStorage creates its tables on first use
+    if (error instanceof Error && /no such table/i.test(error.message)) return 0;
+    throw error;
+  }
+}
+
 /**
  * Advanced utility function to search for similar messages across conversations.
  * 
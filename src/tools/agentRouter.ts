@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import type { ToolExecuteOptions, ToolExecutionContext } from "@voltagent/core";
+import { agentRegistry, agentToolNames } from "../agents/index.js";
+import { vectorMemory, cosineSimilarity } from "../memory/vectorMemory.js";
+
+/**
+ * Ranked routing candidate schema
+ */
+export const routeCandidateSchema = z.object({
+  name: z.string().describe("Registry name used by delegate_task"),
+  agentName: z.string().describe("Agent's display name"),
+  score: z.number().describe("Cosine similarity between the task and the agent profile"),
+});
+
+export type RouteCandidate = z.infer<typeof routeCandidateSchema>;
+
+/**
+ * AgentRouter: semantic task-to-agent routing using the MiniLM embedder
+ * already loaded by VectorMemory.
+ *
+ * Each agent's profile (instructions, which embed its capability list, plus
+ * its tool names) is embedded once and cached; tasks are scored against
+ * every profile by cosine similarity.
+ */
+export class AgentRouter {
+  private profiles: Map<string, number[]> | null = null;
+  private loading: Promise<Map<string, number[]>> | null = null;
+
+  /**
+   * Text describing what an agent can do, used as its routing profile
+   */
+  describeAgent(name: string): string {
+    const agent = agentRegistry[name as keyof typeof agentRegistry];
+    const tools = agentToolNames(agent);
+    return `${agent.name}\n${agent.instructions}\nTools: ${tools.join(', ')}`;
+  }
+
+  /**
+   * Embed every agent profile (lazy, cached)
+   */
+  private async ensureProfiles(): Promise<Map<string, number[]>> {
+    if (this.profiles) return this.profiles;
+    if (!this.loading) {
+      this.loading = (async () => {
+        const profiles = new Map<string, number[]>();
+        for (const name of Object.keys(agentRegistry)) {
+          profiles.set(name, await vectorMemory.embed(this.describeAgent(name)));
+        }
+        this.profiles = profiles;
+        return profiles;
+      })().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Score a task against every agent (or the given candidates) and return
+   * them ranked by similarity, best first.
+   */
+  async route(task: string, candidates: string[] = Object.keys(agentRegistry)): Promise<RouteCandidate[]> {
+    const profiles = await this.ensureProfiles();
+    const taskEmbedding = await vectorMemory.embed(task);
+
+    return candidates
+      .filter(name => profiles.has(name))
+      .map(name => ({
+        name,
+        agentName: agentRegistry[name as keyof typeof agentRegistry].name,
+        score: cosineSimilarity(taskEmbedding, profiles.get(name)!),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Drop cached profiles so they are re-embedded on next use
+   */
+  reset(): void {
+    this.profiles = null;
+  }
+}
+
+// Export a singleton for global use
+export const agentRouter = new AgentRouter();
+
+/**
+ * route_task tool for the supervisor agent
+ *
+ * Lets the supervisor see which subagents best match a task before delegating.
+ */
+export const routeTaskTool = createTool({
+  name: "route_task",
+  description: "Rank subagents by semantic similarity to a task so the best candidates can be chosen for delegation",
+  parameters: z.object({
+    task: z.string().min(1).describe("Task description to route"),
+    topK: z.number().int().positive().optional().default(3).describe("Number of candidates to return"),
+  }),
+  execute: async ({ task, topK = 3 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+    void options;
+    void context;
+    try {
+      const candidates = await agentRouter.route(task);
+      return { success: true, task, candidates: candidates.slice(0, topK) };
+    } catch (error) {
+      return { success: false, task, error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+});
@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Checkpointed batch processing for the batch_processor tool
+ *
+ * Each batch is a directory under `data/batches/<id>/`:
+ * - `batch.json`: processor settings and status (rewritten atomically)
+ * - `items.json`: the input items (written once)
+ * - `results.jsonl`: one line per finished item, appended as it completes
+ *
+ * Progress is rebuilt from `results.jsonl` (the last line for an item wins),
+ * so a crash loses at most the items that were in flight and `resume` picks up
+ * where processing stopped. Failed items form the batch's error set; the
+ * retryable ones can be queued again with `retryFailed`.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { agentRegistry } from "../agents/index.js";
+import { vectorMemory } from "../memory/vectorMemory.js";
+import { dataFormatterTool } from "./baseTools.js";
+import { toolFailure, toolRegistry } from "./toolRegistry.js";
+
+export const batchesDirectory = path.resolve("./data", "batches");
+
+export type TransformInputFormat = 'json' | 'csv' | 'xml' | 'yaml' | 'auto';
+export type TransformOutputFormat = 'json' | 'csv' | 'xml' | 'yaml' | 'table';
+
+/**
+ * What to do with each item
+ * - embed: add the item's text to vector memory
+ * - agent: send a prompt (`{{item}}` is replaced by the item) to an agent
+ * - tool: call a registered tool; object items are merged into `args`,
+ *   other items are passed as `args[itemArg]`
+ * - transform: convert the item with data_formatter
+ */
+export type BatchProcessor =
+  | { type: 'embed' }
+  | { type: 'agent'; agentName: string; prompt: string }
+  | { type: 'tool'; toolName: string; args: Record<string, unknown>; itemArg?: string }
+  | { type: 'transform'; inputFormat: TransformInputFormat; outputFormat: TransformOutputFormat };
+
+export type BatchStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface BatchJob {
+  id: string;
+  processor: BatchProcessor;
+  status: BatchStatus;
+  batchSize: number;
+  parallel: boolean;
+  total: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Latest outcome for one item. `pending` marks a failed item queued for retry.
+ */
+export interface BatchItemResult {
+  index: number;
+  status: 'done' | 'failed' | 'pending';
+  result?: unknown;
+  error?: string;
+  retryable?: boolean;
+  attempts: number;
+  at: string;
+}
+
+export interface BatchProgress {
+  job: BatchJob;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  retryable: number;
+  remaining: number;
+}
+
+/**
+ * An item failure that retrying will not fix (bad input, unknown agent/tool)
+ */
+class PermanentItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentItemError";
+  }
+}
+
+/**
+ * BatchRunner: creates batches, processes them chunk by chunk and checkpoints every item
+ */
+export class BatchRunner {
+  // Serializes work per batch so two calls never process the same items
+  private locks = new Map<string, Promise<unknown>>();
+
+  async create(input: { id?: string; items: unknown[]; processor: BatchProcessor; batchSize: number; parallel: boolean }): Promise<BatchJob> {
+    this.validateProcessor(input.processor);
+    const id = input.id ?? `batch_${Date.now()}`;
+    if (!/^[\w.-]+$/.test(id)) throw new Error(`Invalid batch id "${id}": use letters, digits, ".", "_" or "-"`);
+
+    const directory = path.join(batchesDirectory, id);
+    await fs.mkdir(batchesDirectory, { recursive: true });
+    try {
+      await fs.mkdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") throw new Error(`Batch ${id} already exists`);
+      throw error;
+    }
+
+    const now = new Date().toISOString();
+    const job: BatchJob = {
+      id,
+      processor: input.processor,
+      status: 'running',
+      batchSize: input.batchSize,
+      parallel: input.parallel,
+      total: input.items.length,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await fs.writeFile(path.join(directory, "items.json"), JSON.stringify(input.items));
+    await this.saveJob(job);
+    return job;
+  }
+
+  /**
+   * Process the next `batchSize` pending items
+   */
+  processChunk(id: string, options: { batchSize?: number; signal?: AbortSignal } = {}): Promise<{ progress: BatchProgress; results: BatchItemResult[] }> {
+    return this.locked(id, async () => {
+      const job = await this.loadJob(id);
+      if (job.status !== 'running') throw new Error(`Batch ${id} is ${job.status}${job.status === 'paused' ? '; resume it first' : ''}`);
+
+      const items = await this.loadItems(id);
+      const latest = await this.loadResults(id);
+      const pending = items
+        .map((_, index) => index)
+        .filter(index => !latest.has(index) || latest.get(index)!.status === 'pending')
+        .slice(0, options.batchSize ?? job.batchSize);
+
+      const runItem = async (index: number): Promise<BatchItemResult> => {
+        const attempts = (latest.get(index)?.attempts ?? 0) + 1;
+        let outcome: BatchItemResult;
+        try {
+          const result = await this.processItem(job, index, items[index], options.signal);
+          outcome = { index, status: 'done', result, attempts, at: new Date().toISOString() };
+        } catch (error) {
+          outcome = {
+            index,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            retryable: !(error instanceof PermanentItemError),
+            attempts,
+            at: new Date().toISOString(),
+          };
+        }
+        await this.appendResult(id, outcome);
+        return outcome;
+      };
+
+      const results: BatchItemResult[] = [];
+      if (job.parallel) {
+        results.push(...await Promise.all(pending.map(runItem)));
+      } else {
+        for (const index of pending) {
+          if (options.signal?.aborted) break;
+          results.push(await runItem(index));
+        }
+      }
+
+      for (const result of results) latest.set(result.index, result);
+      const progress = this.summarize(job, latest);
+      if (progress.remaining === 0 && job.status === 'running') {
+        job.status = 'completed';
+        await this.saveJob(job);
+      }
+      return { progress, results };
+    });
+  }
+
+  async progress(id: string): Promise<BatchProgress> {
+    return this.summarize(await this.loadJob(id), await this.loadResults(id));
+  }
+
+  /**
+   * Pause, resume or cancel. Resuming a completed batch with queued retries reopens it.
+   */
+  setStatus(id: string, status: 'running' | 'paused' | 'cancelled'): Promise<BatchJob> {
+    return this.locked(id, async () => {
+      const job = await this.loadJob(id);
+      if (job.status === 'cancelled') throw new Error(`Batch ${id} is cancelled`);
+      if (job.status === 'completed' && status !== 'cancelled') {
+        const { remaining } = this.summarize(job, await this.loadResults(id));
+        if (remaining === 0) throw new Error(`Batch ${id} is completed`);
+      }
+      job.status = status;
+      await this.saveJob(job);
+      return job;
+    });
+  }
+
+  /**
+   * Queue failed items for another attempt: the given indexes, or every retryable failure
+   */
+  retryFailed(id: string, indexes?: number[]): Promise<{ queued: number[]; job: BatchJob }> {
+    return this.locked(id, async () => {
+      const job = await this.loadJob(id);
+      if (job.status === 'cancelled') throw new Error(`Batch ${id} is cancelled`);
+      const latest = await this.loadResults(id);
+      const queued = [...latest.values()]
+        .filter(result => result.status === 'failed' && (indexes ? indexes.includes(result.index) : result.retryable))
+        .map(result => result.index);
+
+      for (const index of queued) {
+        await this.appendResult(id, { index, status: 'pending', attempts: latest.get(index)!.attempts, at: new Date().toISOString() });
+      }
+      if (queued.length > 0 && job.status === 'completed') {
+        job.status = 'running';
+        await this.saveJob(job);
+      }
+      return { queued, job };
+    });
+  }
+
+  /**
+   * Latest result per item, optionally filtered by status
+   */
+  async results(id: string, filters: { status?: BatchItemResult['status']; offset?: number; limit?: number } = {}): Promise<BatchItemResult[]> {
+    await this.loadJob(id);
+    const latest = [...(await this.loadResults(id)).values()]
+      .filter(result => !filters.status || result.status === filters.status)
+      .sort((a, b) => a.index - b.index);
+    const offset = filters.offset ?? 0;
+    return latest.slice(offset, offset + (filters.limit ?? 100));
+  }
+
+  private validateProcessor(processor: BatchProcessor): void {
+    if (processor.type === 'agent' && !agentRegistry[processor.agentName as keyof typeof agentRegistry]) {
+      throw new Error(`Unknown agent: ${processor.agentName}. Available: ${Object.keys(agentRegistry).join(', ')}`);
+    }
+    if (processor.type === 'tool') {
+      if (toolRegistry.size > 0 && !toolRegistry.has(processor.toolName)) throw new Error(`Unknown tool: ${processor.toolName}`);
+      if (processor.toolName === 'batch_processor') throw new Error('Batch items cannot call batch_processor');
+    }
+  }
+
+  private async processItem(job: BatchJob, index: number, item: unknown, signal?: AbortSignal): Promise<unknown> {
+    const processor = job.processor;
+    switch (processor.type) {
+      case 'embed': {
+        const { text, role } = typeof item === 'string'
+          ? { text: item, role: 'user' }
+          : (item ?? {}) as { text?: unknown; role?: unknown };
+        if (typeof text !== 'string' || text.length === 0) throw new PermanentItemError('Item must be a string or an object with a text field');
+        const safeRole = role === 'assistant' || role === 'system' || role === 'tool' ? role : 'user';
+        await vectorMemory.addMessage({ id: `${job.id}:${index}`, text, role: safeRole });
+        return { status: 'embedded', id: `${job.id}:${index}`, characters: text.length };
+      }
+      case 'agent': {
+        const agent = agentRegistry[processor.agentName as keyof typeof agentRegistry];
+        if (!agent) throw new PermanentItemError(`Unknown agent: ${processor.agentName}`);
+        const itemText = typeof item === 'string' ? item : JSON.stringify(item, null, 2);
+        const prompt = processor.prompt.includes('{{item}}')
+          ? processor.prompt.split('{{item}}').join(itemText)
+          : `${processor.prompt}\n\n${itemText}`;
+        const response = await agent.generateText(prompt, { userId: 'batch-processor', signal });
+        return { text: response.text, usage: response.usage };
+      }
+      case 'tool': {
+        if (!toolRegistry.has(processor.toolName)) throw new PermanentItemError(`Tool not registered: ${processor.toolName}`);
+        const args = item !== null && typeof item === 'object' && !Array.isArray(item) && !processor.itemArg
+          ? { ...processor.args, ...(item as Record<string, unknown>) }
+          : { ...processor.args, [processor.itemArg ?? 'input']: item };
+        let output: unknown;
+        try {
+          output = await toolRegistry.invoke(processor.toolName, args, { signal });
+        } catch (error) {
+          // Schema validation failures will fail again on retry
+          if (error instanceof Error && error.name === 'ZodError') throw new PermanentItemError(error.message);
+          throw error;
+        }
+        const failure = toolFailure(output);
+        if (failure) throw new Error(failure);
+        return output;
+      }
+      case 'transform': {
+        const data = typeof item === 'string' ? item : JSON.stringify(item);
+        const output = await dataFormatterTool.execute({
+          data,
+          input_format: processor.inputFormat,
+          output_format: processor.outputFormat,
+        }) as { success: boolean; data?: string; error?: string; record_count?: number };
+        // Malformed input converts the same way every time
+        if (!output.success) throw new PermanentItemError(output.error ?? 'Conversion failed');
+        return { data: output.data, record_count: output.record_count };
+      }
+    }
+  }
+
+  private summarize(job: BatchJob, latest: Map<number, BatchItemResult>): BatchProgress {
+    let succeeded = 0;
+    let failed = 0;
+    let retryable = 0;
+    for (const result of latest.values()) {
+      if (result.status === 'done') succeeded++;
+      if (result.status === 'failed') {
+        failed++;
+        if (result.retryable) retryable++;
+      }
+    }
+    return { job, processed: succeeded + failed, succeeded, failed, retryable, remaining: job.total - succeeded - failed };
+  }
+
+  private locked<T>(id: string, run: () => Promise<T>): Promise<T> {
+    const task = (this.locks.get(id) ?? Promise.resolve()).then(run);
+    const settled = task.catch(() => undefined);
+    this.locks.set(id, settled);
+    void settled.then(() => {
+      if (this.locks.get(id) === settled) this.locks.delete(id);
+    });
+    return task;
+  }
+
+  private directory(id: string): string {
+    if (!/^[\w.-]+$/.test(id)) throw new Error(`Invalid batch id "${id}"`);
+    return path.join(batchesDirectory, id);
+  }
+
+  private async loadJob(id: string): Promise<BatchJob> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory(id), "batch.json"), "utf8")) as BatchJob;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new Error(`Invalid batch_id: ${id}`);
+      throw error;
+    }
+  }
+
+  private async saveJob(job: BatchJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    const file = path.join(this.directory(job.id), "batch.json");
+    // Write then rename so a crash never leaves a truncated checkpoint
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job, null, 2));
+    await fs.rename(temp, file);
+  }
+
+  private async loadItems(id: string): Promise<unknown[]> {
+    return JSON.parse(await fs.readFile(path.join(this.directory(id), "items.json"), "utf8")) as unknown[];
+  }
+
+  private async loadResults(id: string): Promise<Map<number, BatchItemResult>> {
+    const latest = new Map<number, BatchItemResult>();
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.directory(id), "results.jsonl"), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return latest;
+      throw error;
+    }
+    for (const line of content.split("\n")) {
+      if (!line) continue;
+      try {
+        const result = JSON.parse(line) as BatchItemResult;
+        latest.set(result.index, result);
+      } catch {
+        // A crash mid-append can leave a partial last line; that item is simply re-run
+      }
+    }
+    // Terminate a partial last line so the next append starts cleanly
+    if (content.length > 0 && !content.endsWith("\n")) {
+      await fs.appendFile(path.join(this.directory(id), "results.jsonl"), "\n");
+    }
+    return latest;
+  }
+
+  private async appendResult(id: string, result: BatchItemResult): Promise<void> {
+    await fs.appendFile(path.join(this.directory(id), "results.jsonl"), JSON.stringify(result) + "\n");
+  }
+}
+
+// Export a singleton for global use
+export const batchRunner = new BatchRunner();
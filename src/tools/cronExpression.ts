@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Five-field cron expressions for the task_scheduler tool
+ *
+ * Supports `minute hour day-of-month month day-of-week` with `*`, lists,
+ * ranges, steps (`0-59/15`, `1-10/2`), month and weekday names, and the
+ * `@hourly`/`@daily`/`@weekly`/`@monthly`/`@yearly` macros. Times are
+ * evaluated in the server's local time zone. As in Vixie cron, when both
+ * day-of-month and day-of-week are restricted a day matching either fires.
+ */
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value of the first name (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/**
+ * A parsed cron expression
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the field starts with `*`, with or without a step (affects day-of-month/day-of-week matching) */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+function parseValue(value: string, spec: FieldSpec): number {
+  // Number("") is 0, so "1,,5" or "1-" would otherwise add the minimum silently
+  if (value === "") throw new Error(`Empty ${spec.name} value`);
+  const named = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = named >= 0 ? named + (spec.nameOffset ?? 0) : Number(value);
+  if (!Number.isInteger(number) || number < spec.min || number > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${value}" (allowed ${spec.min}-${spec.max})`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step "${stepText}" in ${spec.name}`);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`Invalid ${spec.name} range "${range}"`);
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing a descriptive error when it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+/**
+ * Whether a string looks like a cron expression rather than an ISO timestamp
+ */
+export function isCronExpression(value: string): boolean {
+  return value.trim().startsWith("@") || value.trim().split(/\s+/).length === 5;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  // Either field given as `*...` makes both apply; two restricted fields match either
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` that matches the schedule
+ */
+export function nextCronTime(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  // Skip whole months/days/hours that cannot match; five years covers Feb 29 schedules
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+  throw new Error(`Cron expression "${cron.expression}" never matches`);
+}
@@ -0,0 +1,355 @@
+/**
+ * @fileoverview Content-addressed dataset snapshots for the data_versioning tool
+ *
+ * A dataset is a file or directory under the data directory. Snapshots store
+ * each file once, keyed by SHA-256, in `data/.versions/objects/`, plus one
+ * manifest per version (message, timestamp, path → hash) in
+ * `data/.versions/datasets/<dataset>/`. Rollback rewrites the working files
+ * from a manifest after snapshotting the current state, so it can be undone.
+ */
+
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+export const dataDirectory = path.resolve("./data");
+const versionsDirectory = path.join(dataDirectory, ".versions");
+const objectsDirectory = path.join(versionsDirectory, "objects");
+const manifestsDirectory = path.join(versionsDirectory, "datasets");
+
+// Text diffs are skipped above these sizes; the per-file status is still reported
+const MAX_TEXT_DIFF_BYTES = 256 * 1024;
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface ManifestFile {
+  sha256: string;
+  size: number;
+}
+
+/**
+ * One snapshot of a dataset
+ */
+export interface VersionManifest {
+  version: string;
+  dataset: string;
+  message: string;
+  createdAt: string;
+  parent?: string;
+  /** Paths relative to the dataset root ("" when the dataset is a single file) */
+  files: Record<string, ManifestFile>;
+}
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface FileDiff {
+  path: string;
+  status: FileChangeStatus;
+  fromSha256?: string;
+  toSha256?: string;
+  /** Unified diff for modified text files */
+  diff?: string;
+  /** Why no text diff was produced for a modified file */
+  note?: string;
+}
+
+/** Compare against the current working files instead of a stored version */
+export const WORKING_COPY = "working";
+
+function sha256File(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(file)
+      .on("data", chunk => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+function objectPath(sha256: string): string {
+  return path.join(objectsDirectory, sha256.slice(0, 2), sha256);
+}
+
+/**
+ * Resolve a dataset name to a path inside the data directory
+ */
+function resolveDataset(dataset: string): { name: string; root: string } {
+  const root = path.resolve(dataDirectory, dataset);
+  const relative = path.relative(dataDirectory, root);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) throw new Error(`Dataset must be inside ${dataDirectory}: ${dataset}`);
+  if (relative === ".versions" || relative.startsWith(`.versions${path.sep}`)) throw new Error("The version store cannot be versioned");
+  return { name: relative.split(path.sep).join("/") || ".", root };
+}
+
+function manifestDirectory(datasetName: string): string {
+  return path.join(manifestsDirectory, encodeURIComponent(datasetName));
+}
+
+/**
+ * Files of a dataset, relative to its root
+ */
+async function walk(root: string): Promise<string[]> {
+  let stat;
+  try {
+    stat = await fs.stat(root);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  if (stat.isFile()) return [""];
+
+  const files: string[] = [];
+  const visit = async (directory: string) => {
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const full = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (full !== versionsDirectory) await visit(full);
+      } else if (entry.isFile()) {
+        files.push(path.relative(root, full).split(path.sep).join("/"));
+      }
+    }
+  };
+  await visit(root);
+  return files.sort();
+}
+
+async function readWorkingFiles(root: string): Promise<Record<string, ManifestFile>> {
+  const files: Record<string, ManifestFile> = {};
+  for (const relative of await walk(root)) {
+    const full = relative ? path.join(root, relative) : root;
+    files[relative] = { sha256: await sha256File(full), size: (await fs.stat(full)).size };
+  }
+  return files;
+}
+
+function sameFiles(a: Record<string, ManifestFile>, b: Record<string, ManifestFile>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => b[key]?.sha256 === a[key].sha256);
+}
+
+/**
+ * Unified line diff (LCS based) with three lines of context
+ */
+export function unifiedDiff(fromText: string, toText: string, fromLabel: string, toLabel: string): string | undefined {
+  const a = fromText.split("\n");
+  const b = toText.split("\n");
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) return undefined;
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: ' ' | '-' | '+'; line: string; aIndex: number; bIndex: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i], aIndex: i++, bIndex: j++ });
+    } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      ops.push({ type: '-', line: a[i], aIndex: i++, bIndex: j });
+    } else {
+      ops.push({ type: '+', line: b[j], aIndex: i, bIndex: j++ });
+    }
+  }
+
+  const context = 3;
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      index++;
+      continue;
+    }
+    // Grow the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end].type !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const slice = ops.slice(start, end);
+    const fromCount = slice.filter(op => op.type !== '+').length;
+    const toCount = slice.filter(op => op.type !== '-').length;
+    const fromStart = slice[0].aIndex + (fromCount > 0 ? 1 : 0);
+    const toStart = slice[0].bIndex + (toCount > 0 ? 1 : 0);
+    hunks.push(`@@ -${fromStart},${fromCount} +${toStart},${toCount} @@\n${slice.map(op => op.type + op.line).join("\n")}`);
+    index = end;
+  }
+  return `--- ${fromLabel}\n+++ ${toLabel}\n${hunks.join("\n")}`;
+}
+
+function isText(buffer: Buffer): boolean {
+  return !buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * DataVersioning: snapshot, list, diff and roll back datasets
+ */
+export class DataVersioning {
+  async snapshot(dataset: string, options: { message?: string; version?: string } = {}): Promise<{ manifest: VersionManifest; created: boolean }> {
+    const { name, root } = resolveDataset(dataset);
+    const files = await readWorkingFiles(root);
+    if (Object.keys(files).length === 0) throw new Error(`Dataset ${name} has no files`);
+
+    const history = await this.listVersions(dataset);
+    const latest = history[history.length - 1];
+    if (latest && sameFiles(latest.files, files) && !options.version) {
+      return { manifest: latest, created: false };
+    }
+
+    const version = options.version ?? `v${history.length + 1}`;
+    if (!/^[\w.-]+$/.test(version) || version === WORKING_COPY) throw new Error(`Invalid version name "${version}"`);
+    if (history.some(entry => entry.version === version)) throw new Error(`Version ${version} already exists for ${name}`);
+
+    for (const [relative, file] of Object.entries(files)) {
+      const target = objectPath(file.sha256);
+      try {
+        await fs.access(target);
+      } catch {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        // Write then rename so a crash never leaves a corrupt object under its hash
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.copyFile(relative ? path.join(root, relative) : root, temp);
+        if ((await sha256File(temp)) !== file.sha256) {
+          await fs.rm(temp, { force: true });
+          throw new Error(`${relative || name} changed while the snapshot was taken; try again`);
+        }
+        await fs.rename(temp, target);
+      }
+    }
+
+    const manifest: VersionManifest = {
+      version,
+      dataset: name,
+      message: options.message ?? `Snapshot of ${name}`,
+      createdAt: new Date().toISOString(),
+      parent: latest?.version,
+      files,
+    };
+    await fs.mkdir(manifestDirectory(name), { recursive: true });
+    await fs.writeFile(path.join(manifestDirectory(name), `${version}.json`), JSON.stringify(manifest, null, 2), { flag: "wx" });
+    return { manifest, created: true };
+  }
+
+  /**
+   * Versions of a dataset, oldest first
+   */
+  async listVersions(dataset: string): Promise<VersionManifest[]> {
+    const { name } = resolveDataset(dataset);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(manifestDirectory(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const manifests = await Promise.all(
+      entries
+        .filter(entry => entry.endsWith(".json"))
+        .map(async entry => JSON.parse(await fs.readFile(path.join(manifestDirectory(name), entry), "utf8")) as VersionManifest)
+    );
+    return manifests.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getVersion(dataset: string, version: string): Promise<VersionManifest> {
+    const manifest = (await this.listVersions(dataset)).find(entry => entry.version === version);
+    if (!manifest) throw new Error(`Version ${version} not found for ${resolveDataset(dataset).name}`);
+    return manifest;
+  }
+
+  /**
+   * Compare two versions (`to` defaults to the working files)
+   */
+  async diff(dataset: string, from: string, to: string = WORKING_COPY, options: { includeUnchanged?: boolean } = {}): Promise<FileDiff[]> {
+    const { root } = resolveDataset(dataset);
+    const source = await this.getVersion(dataset, from);
+    const target = to === WORKING_COPY ? await readWorkingFiles(root) : (await this.getVersion(dataset, to)).files;
+
+    const read = async (relative: string, sha256: string, fromWorking: boolean) =>
+      fs.readFile(fromWorking ? (relative ? path.join(root, relative) : root) : objectPath(sha256));
+
+    const paths = [...new Set([...Object.keys(source.files), ...Object.keys(target)])].sort();
+    const diffs: FileDiff[] = [];
+    for (const relative of paths) {
+      const before = source.files[relative];
+      const after = target[relative];
+      const label = relative || path.basename(root);
+      if (!after) {
+        diffs.push({ path: label, status: 'removed', fromSha256: before.sha256 });
+      } else if (!before) {
+        diffs.push({ path: label, status: 'added', toSha256: after.sha256 });
+      } else if (before.sha256 === after.sha256) {
+        if (options.includeUnchanged) diffs.push({ path: label, status: 'unchanged', fromSha256: before.sha256, toSha256: after.sha256 });
+      } else {
+        const entry: FileDiff = { path: label, status: 'modified', fromSha256: before.sha256, toSha256: after.sha256 };
+        if (before.size > MAX_TEXT_DIFF_BYTES || after.size > MAX_TEXT_DIFF_BYTES) {
+          entry.note = `Larger than ${MAX_TEXT_DIFF_BYTES} bytes; no text diff`;
+        } else {
+          const [a, b] = await Promise.all([read(relative, before.sha256, false), read(relative, after.sha256, to === WORKING_COPY)]);
+          if (!isText(a) || !isText(b)) {
+            entry.note = "Binary file";
+          } else {
+            entry.diff = unifiedDiff(a.toString("utf8"), b.toString("utf8"), `${from}/${label}`, `${to}/${label}`);
+            if (!entry.diff) entry.note = "Too many lines for a text diff";
+          }
+        }
+        diffs.push(entry);
+      }
+    }
+    return diffs;
+  }
+
+  /**
+   * Restore the working files to a version. The current state is snapshotted
+   * first (unless it matches the latest version) so the rollback itself can
+   * be undone.
+   */
+  async rollback(dataset: string, version: string): Promise<{ restored: string[]; removed: string[]; backupVersion?: string }> {
+    const { name, root } = resolveDataset(dataset);
+    const manifest = await this.getVersion(dataset, version);
+
+    // Verify every object before touching the working files
+    for (const file of Object.values(manifest.files)) {
+      if ((await sha256File(objectPath(file.sha256)).catch(() => undefined)) !== file.sha256) {
+        throw new Error(`Object ${file.sha256} for ${name}@${version} is missing or corrupt`);
+      }
+    }
+
+    let backupVersion: string | undefined;
+    if ((await walk(root)).length > 0) {
+      const backup = await this.snapshot(dataset, { message: `Automatic snapshot before rollback to ${version}` });
+      backupVersion = backup.manifest.version;
+    }
+
+    const working = await readWorkingFiles(root);
+    const restored: string[] = [];
+    const removed: string[] = [];
+    for (const relative of Object.keys(working)) {
+      if (!manifest.files[relative]) {
+        await fs.rm(relative ? path.join(root, relative) : root);
+        removed.push(relative || name);
+      }
+    }
+    for (const [relative, file] of Object.entries(manifest.files)) {
+      if (working[relative]?.sha256 === file.sha256) continue;
+      const destination = relative ? path.join(root, relative) : root;
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.copyFile(objectPath(file.sha256), destination);
+      restored.push(relative || name);
+    }
+    return { restored, removed, backupVersion };
+  }
+}
+
+// Export a singleton for global use
+export const dataVersioning = new DataVersioning();
@@ -0,0 +1,124 @@
+import { EventEmitter } from "node:events";
+
+/**
+ * userContext key under which a caller registers its progress channel.
+ * delegate_task reads it from the supervisor's operation context and
+ * publishes sub-agent progress events on that channel.
+ */
+export const PROGRESS_CHANNEL_KEY = "delegationProgressChannel";
+
+/**
+ * Progress events emitted while a delegated sub-agent runs
+ */
+export type DelegationProgressEvent = {
+  channel: string;
+  agentName: string;
+  stepId?: string;
+  timestamp: string;
+} & (
+  | { type: 'started'; conversationId: string }
+  | { type: 'tool-call'; toolName: string }
+  | { type: 'text-delta'; text: string }
+  | { type: 'finished'; status: string; duration: number }
+);
+
+type ProgressListener = (event: DelegationProgressEvent) => void;
+
+/**
+ * DelegationProgress: channel-scoped event bus between delegate_task and
+ * whoever is driving the supervisor (e.g. the CLI chat session).
+ */
+export class DelegationProgress {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per concurrent chat session
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event; a no-op when nobody listens on the channel
+   */
+  publish(event: DelegationProgressEvent): void {
+    this.emitter.emit(event.channel, event);
+  }
+
+  /**
+   * Listen to one channel
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(channel: string, listener: ProgressListener): () => void {
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+}
+
+// Export a singleton for global use
+export const delegationProgress = new DelegationProgress();
+
+/**
+ * Create a terminal renderer for progress events. Partial text is buffered
+ * per agent and written a line at a time under that agent's label, so
+ * concurrent sub-agents do not interleave mid-line.
+ *
+ * @example
+ *
+ * const render = createProgressRenderer();
+ * const unsubscribe = delegationProgress.subscribe(channel, render);
+ * // ... stream the supervisor ...
+ * unsubscribe();
+ * render.flush();
+ *
+ */
+export function createProgressRenderer(write: (line: string) => void = (line) => process.stdout.write(line)) {
+  const buffers = new Map<string, string>();
+
+  const labelFor = (event: Pick<DelegationProgressEvent, 'agentName' | 'stepId'>) =>
+    `  ↳ [${event.agentName}${event.stepId ? `:${event.stepId}` : ''}]`;
+
+  const flushAgent = (key: string, label: string) => {
+    const pending = buffers.get(key);
+    if (pending && pending.trim().length > 0) write(`\n${label} ${pending}`);
+    buffers.delete(key);
+  };
+
+  const render = (event: DelegationProgressEvent) => {
+    const key = `${event.agentName}:${event.stepId ?? ''}`;
+    const label = labelFor(event);
+
+    switch (event.type) {
+      case 'started':
+        write(`\n${label} ▶ started`);
+        break;
+      case 'tool-call':
+        flushAgent(key, label);
+        write(`\n${label} 🔧 ${event.toolName}`);
+        break;
+      case 'text-delta': {
+        const lines = ((buffers.get(key) ?? '') + event.text).split('\n');
+        buffers.set(key, lines.pop() ?? '');
+        for (const line of lines) {
+          if (line.trim().length > 0) write(`\n${label} ${line}`);
+        }
+        break;
+      }
+      case 'finished':
+        flushAgent(key, label);
+        write(`\n${label} ■ ${event.status} (${event.duration}ms)\n`);
+        break;
+    }
+  };
+
+  return Object.assign(render, {
+    /** Write any buffered partial lines */
+    flush: () => {
+      for (const key of [...buffers.keys()]) {
+        const [agentName, stepId] = key.split(':');
+        flushAgent(key, labelFor({ agentName, stepId: stepId || undefined }));
+      }
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+/**
+ * Delegation priority levels, highest first
+ */
+export const delegationPriorities = ['urgent', 'high', 'medium', 'low'] as const;
+
+export type DelegationPriority = typeof delegationPriorities[number];
+
+/**
+ * Scheduler limits schema
+ */
+export const schedulerLimitsSchema = z.object({
+  /** Maximum concurrent sub-agent generations across all agents */
+  maxConcurrent: z.number().int().positive().default(15),
+  /** Maximum concurrent generations for any single agent */
+  maxConcurrentPerAgent: z.number().int().positive().default(3),
+});
+
+export type SchedulerLimits = z.infer<typeof schedulerLimitsSchema>;
+
+/**
+ * A granted slot; call release() exactly once when the generation ends
+ */
+export interface SchedulerTicket {
+  /** Number of waiting requests ahead of this one when it was queued (0 = ran immediately) */
+  queuePosition: number;
+  /** Time spent waiting for a slot in milliseconds */
+  waitMs: number;
+  release: () => void;
+}
+
+interface Waiter {
+  agentName: string;
+  priority: DelegationPriority;
+  sequence: number;
+  enqueuedAt: number;
+  queuePosition: number;
+  grant: (ticket: SchedulerTicket) => void;
+}
+
+/**
+ * DelegationScheduler: shared gate for sub-agent generations
+ *
+ * Caps concurrency globally and per agent. Waiting work is dispatched by
+ * priority (urgent, high, medium, low), FIFO within a priority. A waiter whose
+ * agent is at its own limit does not block lower-priority work for other agents.
+ */
+export class DelegationScheduler {
+  private limits: SchedulerLimits = schedulerLimitsSchema.parse({});
+  private running = 0;
+  private runningByAgent = new Map<string, number>();
+  private waiting: Waiter[] = [];
+  private sequence = 0;
+
+  /**
+   * Update concurrency limits; queued work is re-evaluated immediately
+   */
+  configure(limits: Partial<SchedulerLimits>): void {
+    this.limits = schedulerLimitsSchema.parse({ ...this.limits, ...limits });
+    this.dispatch();
+  }
+
+  /**
+   * Wait for a slot for the given agent. Rejects with the signal's reason if
+   * it aborts while still queued.
+   */
+  acquire(agentName: string, priority: DelegationPriority, signal?: AbortSignal): Promise<SchedulerTicket> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<SchedulerTicket>((resolve, reject) => {
+      const waiter: Waiter = {
+        agentName,
+        priority,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        queuePosition: 0,
+        grant: (ticket) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(ticket);
+        },
+      };
+
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(w => w !== waiter);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.waiting.push(waiter);
+      this.waiting.sort((a, b) =>
+        delegationPriorities.indexOf(a.priority) - delegationPriorities.indexOf(b.priority) || a.sequence - b.sequence
+      );
+      waiter.queuePosition = this.waiting.indexOf(waiter);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Current load, for reporting
+   */
+  stats() {
+    return {
+      running: this.running,
+      waiting: this.waiting.length,
+      runningByAgent: Object.fromEntries(this.runningByAgent),
+      limits: this.limits,
+    };
+  }
+
+  private dispatch(): void {
+    for (const waiter of [...this.waiting]) {
+      if (this.running >= this.limits.maxConcurrent) return;
+      const agentRunning = this.runningByAgent.get(waiter.agentName) ?? 0;
+      if (agentRunning >= this.limits.maxConcurrentPerAgent) continue;
+
+      this.waiting = this.waiting.filter(w => w !== waiter);
+      this.running++;
+      this.runningByAgent.set(waiter.agentName, agentRunning + 1);
+
+      let released = false;
+      waiter.grant({
+        queuePosition: waiter.queuePosition,
+        waitMs: Date.now() - waiter.enqueuedAt,
+        release: () => {
+          if (released) return;
+          released = true;
+          this.running--;
+          const remaining = (this.runningByAgent.get(waiter.agentName) ?? 1) - 1;
+          if (remaining > 0) this.runningByAgent.set(waiter.agentName, remaining);
+          else this.runningByAgent.delete(waiter.agentName);
+          this.dispatch();
+        },
+      });
+    }
+  }
+}
+
+// Export a singleton shared by every delegation
+export const delegationScheduler = new DelegationScheduler();
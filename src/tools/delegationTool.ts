@@ -1,34 +1,879 @@
 import { z } from "zod";
 import { createTool } from "@voltagent/core";
-import { agentRegistry } from "../agents/index.js";
+import { JSONParseError, NoObjectGeneratedError, TypeValidationError } from "ai";
+import { agentRegistry, agentResultSchemas, agentToolNames } from "../agents/index.js";
 import { AgentCapability } from "../index.js";
+import { agentRouter, type RouteCandidate } from "./agentRouter.js";
+import { recordDelegation, listDelegations, getDelegation } from "../memory/delegationStore.js";
+import { getThreadHistory } from "../memory/voltAgentMemory.js";
+import { delegationScheduler, type SchedulerTicket } from "./delegationScheduler.js";
+import { delegationProgress, PROGRESS_CHANNEL_KEY } from "./delegationProgress.js";
+import { getOperationBudget, type BudgetExceeded } from "../agents/operationBudget.js";
+import { lessonsLearned } from "./lessons.js";
+
+/**
+ * User ID under which all sub-agent delegation threads are stored
+ */
+const DELEGATION_USER_ID = 'supervisor-delegation';
+
+/**
+ * Delegation step schema for dependency-aware pipelines
+ *
+ * A step's prompt may reference the response of any upstream step with
+ * `{{<stepId>.response}}`; upstream responses that are not referenced are
+ * appended to the prompt automatically.
+ */
+export const delegationStepSchema = z.object({
+  id: z.string().min(1).describe("Unique step identifier, referenced by dependsOn and prompt templates"),
+  agent: z.string().min(1).describe("Subagent name that executes this step"),
+  prompt: z.string().min(1).describe("Prompt template; use {{stepId.response}} to insert an upstream step's response"),
+  dependsOn: z.array(z.string()).default([]).describe("IDs of steps that must complete before this one starts"),
+});
+
+/**
+ * Retry policy schema for failed delegations
+ *
+ * Attempts are counted per agent; once an agent exhausts its attempts the
+ * delegation falls back to the next most suitable agent.
+ */
+export const retryPolicySchema = z.object({
+  maxAttempts: z.object({
+    low: z.number().int().min(1).default(1),
+    medium: z.number().int().min(1).default(2),
+    high: z.number().int().min(1).default(3),
+    urgent: z.number().int().min(1).default(4),
+  }).default({}).describe("Maximum attempts per agent, by task priority"),
+  initialDelayMs: z.number().nonnegative().default(1000).describe("Delay before the first retry"),
+  backoffMultiplier: z.number().min(1).default(2).describe("Multiplier applied to the delay after each retry"),
+  maxDelayMs: z.number().positive().default(15000).describe("Upper bound for a single retry delay"),
+  maxFallbacks: z.number().int().min(0).default(1).describe("How many alternative agents to try after retries run out"),
+});
+
+/**
+ * Consensus mode schema for redundant delegation
+ */
+export const consensusConfigSchema = z.object({
+  samples: z.number().int().min(1).max(5).default(1).describe("How many times each target agent answers the task"),
+  strategy: z.enum(['select', 'merge']).default('select').describe("Return the best candidate as-is, or merge the candidates into one answer"),
+  judgeAgent: z.string().default('problemSolver').describe("Subagent that scores the candidates against the task"),
+});
+
+/**
+ * Judge verdict schema produced in consensus mode
+ */
+export const consensusVerdictSchema = z.object({
+  scores: z.array(z.object({
+    candidateId: z.string(),
+    score: z.number().min(0).max(10),
+    critique: z.string(),
+  })),
+  winnerId: z.string(),
+  mergedAnswer: z.string().optional(),
+  rationale: z.string(),
+});
 
 /**
  * Delegation task schema
  */
 export const delegationTaskSchema = z.object({
   task: z.string().min(1).describe("The specific task description to be delegated"),
-  targetAgents: z.array(z.string()).min(1).describe("List of subagent names to delegate the task to"),
+  targetAgents: z.array(z.string()).min(1).optional().describe("List of subagent names to delegate the task to (fan-out mode); omit to route the task to the best-matching agents automatically"),
+  autoRouteCount: z.number().int().positive().default(1).describe("How many top-ranked agents receive the task when targetAgents is omitted"),
+  steps: z.array(delegationStepSchema).min(1).optional().describe("Dependency graph of steps to run as a pipeline instead of a flat fan-out"),
   context: z.record(z.string(), z.any()).optional().describe("Additional context for the subagent(s)"),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium').describe("Task priority level"),
-  timeout: z.number().positive().default(30000).describe("Timeout in milliseconds"),
+  timeout: z.number().positive().default(30000).describe("Overall timeout in milliseconds; unfinished agents are cancelled and reported as timed_out"),
+  agentTimeout: z.number().positive().optional().describe("Per-agent timeout in milliseconds (defaults to the overall timeout)"),
+  retryPolicy: retryPolicySchema.optional().describe("Retry and fallback policy for failed delegations"),
+  consensus: consensusConfigSchema.optional().describe("Send the task redundantly and have a judge reconcile the answers into one (fan-out mode only)"),
+  structured: z.boolean().default(false).describe(`Have each agent return an object validated against its own result schema instead of free text (agents: ${Object.keys(agentResultSchemas).join(', ')})`),
+  maxRepairAttempts: z.number().int().min(0).max(3).default(1).describe("In structured mode, how many times validation errors are fed back to the agent for repair"),
 });
 
 /**
  * Delegation result schema
  */
 export const delegationResultSchema = z.object({
+  /** ID of the persisted delegation record (see delegation_history) */
+  delegationId: z.string().optional(),
   agentName: z.string(),
+  stepId: z.string().optional(),
   response: z.string(),
   conversationId: z.string(),
   success: z.boolean(),
+  status: z.enum(['completed', 'failed', 'skipped', 'timed_out', 'budget_exceeded']),
+  startedAt: z.string().datetime().optional(),
   duration: z.number(),
+  /** Where the generation waited in the shared scheduler before it started */
+  scheduling: z.object({
+    queuePosition: z.number(),
+    queueWaitMs: z.number(),
+  }).optional(),
   error: z.string().optional(),
+  /** Validated object from the agent's result schema (structured mode only) */
+  output: z.unknown().optional(),
   metadata: z.record(z.string(), z.any()).optional(),
 });
 
+export type DelegationStep = z.infer<typeof delegationStepSchema>;
 export type DelegationTask = z.infer<typeof delegationTaskSchema>;
 export type DelegationResult = z.infer<typeof delegationResultSchema>;
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+export type ConsensusConfig = z.infer<typeof consensusConfigSchema>;
+export type ConsensusVerdict = z.infer<typeof consensusVerdictSchema>;
+
+/**
+ * Shared settings for a single sub-agent invocation
+ */
+interface AgentDelegationOptions {
+  context: Record<string, unknown>;
+  priority: DelegationTask['priority'];
+  parentOperationId?: string;
+  stepId?: string;
+  /** Aborted when the overall delegation times out */
+  signal: AbortSignal;
+  /** Per-agent timeout in milliseconds */
+  agentTimeout: number;
+  /** Continue this existing sub-agent thread instead of starting a new one */
+  conversationId?: string;
+  /** Channel on which live progress events are published, if anyone listens */
+  progressChannel?: string;
+  /** Supervisor userContext, copied into each sub-agent so the operation budget is shared */
+  userContext?: Map<string | symbol, unknown>;
+  /** Generate an object against the agent's result schema instead of free text */
+  structured?: boolean;
+  /** Repair attempts allowed after a structured output fails validation */
+  maxRepairAttempts?: number;
+}
+
+/**
+ * Stream one sub-agent generation, publishing tool calls and partial text as
+ * progress events, and collect the final text and usage.
+ */
+async function streamDelegation(
+  agentName: string,
+  input: string,
+  { conversationId, signal, stepId, progressChannel, userContext }: {
+    conversationId: string;
+    signal: AbortSignal;
+    stepId?: string;
+    progressChannel?: string;
+    userContext?: Map<string | symbol, unknown>;
+  }
+): Promise<{ text: string; usage?: unknown; finishReason?: string }> {
+  const agent = agentRegistry[agentName as keyof typeof agentRegistry];
+  const publish = (event: { type: 'text-delta'; text: string } | { type: 'tool-call'; toolName: string }) => {
+    if (!progressChannel) return;
+    delegationProgress.publish({
+      channel: progressChannel,
+      agentName,
+      stepId,
+      timestamp: new Date().toISOString(),
+      ...event,
+    });
+  };
+
+  const stream = await agent.streamText(input, {
+    userId: DELEGATION_USER_ID,
+    conversationId,
+    signal,
+    // Copied like VoltAgent does for handoffs; the budget instance stays shared
+    userContext: userContext ? new Map(userContext) : undefined,
+  });
+
+  let text = '';
+  let usage: unknown;
+  let finishReason: string | undefined;
+
+  if (stream.fullStream) {
+    for await (const part of stream.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          text += part.textDelta;
+          publish({ type: 'text-delta', text: part.textDelta });
+          break;
+        case 'tool-call':
+          publish({ type: 'tool-call', toolName: part.toolName });
+          break;
+        case 'finish':
+          usage = part.usage;
+          finishReason = part.finishReason;
+          break;
+        case 'error':
+          throw part.error instanceof Error ? part.error : new Error(String(part.error));
+      }
+    }
+  } else {
+    for await (const chunk of stream.textStream) {
+      text += chunk;
+      publish({ type: 'text-delta', text: chunk });
+    }
+  }
+
+  return { text, usage, finishReason };
+}
+
+/**
+ * Whether an error means the model's object did not match the schema, as
+ * opposed to a transport or provider failure
+ */
+function isSchemaValidationError(error: unknown): boolean {
+  return error instanceof z.ZodError
+    || TypeValidationError.isInstance(error)
+    || NoObjectGeneratedError.isInstance(error)
+    || JSONParseError.isInstance(error);
+}
+
+/**
+ * Generate a structured result with the agent's own result schema. When the
+ * object fails validation, the validation errors and the rejected output are
+ * fed back to the agent for up to `maxRepairAttempts` repair attempts.
+ */
+async function generateStructuredDelegation(
+  agentName: string,
+  input: string,
+  { conversationId, signal, userContext, maxRepairAttempts }: {
+    conversationId: string;
+    signal: AbortSignal;
+    userContext?: Map<string | symbol, unknown>;
+    maxRepairAttempts: number;
+  }
+): Promise<{ object: unknown; usage?: unknown; finishReason?: string; repairs: string[] }> {
+  const agent = agentRegistry[agentName as keyof typeof agentRegistry];
+  const schema: z.ZodTypeAny | undefined = agentResultSchemas[agentName as keyof typeof agentResultSchemas];
+  if (!schema) {
+    throw new Error(`Agent ${agentName} has no result schema for structured mode`);
+  }
+
+  const repairs: string[] = [];
+  let prompt = input;
+
+  for (let attempt = 0; ; attempt++) {
+    let issues: string;
+    let rejected: string | undefined;
+
+    try {
+      const result = await agent.generateObject(prompt, schema, {
+        userId: DELEGATION_USER_ID,
+        conversationId,
+        signal,
+        userContext: userContext ? new Map(userContext) : undefined,
+      });
+      // Validate here as well; the provider's own check is not guaranteed
+      const parsed = schema.safeParse(result.object);
+      if (parsed.success) {
+        return { object: parsed.data, usage: result.usage, finishReason: result.finishReason, repairs };
+      }
+      issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n');
+      rejected = JSON.stringify(result.object);
+    } catch (error) {
+      if (signal.aborted || !isSchemaValidationError(error)) throw error;
+      issues = error instanceof Error ? error.message : String(error);
+      rejected = (error as { text?: string }).text;
+    }
+
+    if (attempt >= maxRepairAttempts) {
+      throw new Error(`Structured output failed validation after ${attempt + 1} attempt(s): ${issues}`);
+    }
+
+    console.warn(`[🩹 Repair] ${agentName} output failed validation; repair attempt ${attempt + 1}/${maxRepairAttempts}`);
+    repairs.push(issues);
+    prompt = `${input}
+
+[REPAIR REQUIRED] Your previous output did not match the required schema.
+Validation errors:
+${issues}
+${rejected ? `\nPrevious output:\n${rejected}\n` : ''}
+Return a corrected object that satisfies the schema.`;
+  }
+}
+
+/**
+ * Record of a single attempt made while resolving a delegation
+ */
+interface DelegationAttempt {
+  agentName: string;
+  attempt: number;
+  status: DelegationResult['status'];
+  duration: number;
+  startedAt?: string;
+  error?: string;
+  fallback: boolean;
+}
+
+/**
+ * Wait for the given delay, resolving early if the signal aborts
+ */
+function backoffDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the underlying call ignores it
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Build the result for a delegation that was cancelled before it finished
+ */
+function timedOutResult(agentName: string, reason: string, extra: Partial<DelegationResult> = {}): DelegationResult {
+  return delegationResultSchema.parse({
+    agentName,
+    response: `Timed out: ${reason}`,
+    conversationId: '',
+    success: false,
+    status: 'timed_out',
+    duration: 0,
+    error: reason,
+    ...extra,
+  });
+}
+
+/**
+ * Build the result for a delegation stopped because the operation budget ran out
+ */
+function budgetExceededResult(agentName: string, exceeded: BudgetExceeded, extra: Partial<DelegationResult> = {}): DelegationResult {
+  const reason = `Budget exceeded: ${exceeded.budget} (used ${exceeded.used} of ${exceeded.limit})`;
+  return delegationResultSchema.parse({
+    agentName,
+    response: `Stopped: ${reason}`,
+    conversationId: '',
+    success: false,
+    status: 'budget_exceeded',
+    duration: 0,
+    error: reason,
+    ...extra,
+    metadata: { ...extra.metadata, budgetExceeded: exceeded },
+  });
+}
+
+/**
+ * Run one delegated prompt against a subagent and capture the outcome
+ * as a DelegationResult. Never throws; failures are reported in the result.
+ */
+async function runAgentDelegation(
+  agentName: string,
+  prompt: string,
+  {
+    context,
+    priority,
+    parentOperationId,
+    stepId,
+    signal,
+    agentTimeout,
+    conversationId: existingConversationId,
+    progressChannel,
+    userContext,
+    structured = false,
+    maxRepairAttempts = 1,
+  }: AgentDelegationOptions
+): Promise<DelegationResult> {
+  // Generated once so the reported ID is the thread the sub-agent actually used
+  const conversationId = existingConversationId ?? `delegation_${agentName}_${crypto.randomUUID()}`;
+  const budget = getOperationBudget(userContext);
+
+  if (signal.aborted) {
+    return budget?.exceeded
+      ? budgetExceededResult(agentName, budget.exceeded, { stepId })
+      : timedOutResult(agentName, 'Overall delegation timeout reached before start', { stepId });
+  }
+
+  // Wait for a slot in the shared scheduler; queueing counts against the
+  // overall timeout but not the per-agent one
+  let ticket: SchedulerTicket;
+  const queuedAt = Date.now();
+  try {
+    ticket = await delegationScheduler.acquire(agentName, priority, signal);
+  } catch {
+    console.warn(`[⏰ Timeout] ${agentName}${stepId ? ` step ${stepId}` : ''} cancelled while queued`);
+    const extra = { stepId, scheduling: { queuePosition: -1, queueWaitMs: Date.now() - queuedAt } };
+    return budget?.exceeded
+      ? budgetExceededResult(agentName, budget.exceeded, extra)
+      : timedOutResult(agentName, 'Overall delegation timeout reached while queued', extra);
+  }
+  const scheduling = { queuePosition: ticket.queuePosition, queueWaitMs: ticket.waitMs };
+
+  const agentStartTime = Date.now();
+  const startedAt = new Date(agentStartTime).toISOString();
+
+  // Cancel this generation on either the overall or the per-agent deadline
+  const agentSignal = AbortSignal.any([signal, AbortSignal.timeout(agentTimeout)]);
+  const publishFinished = (status: DelegationResult['status']) => {
+    if (!progressChannel) return;
+    delegationProgress.publish({
+      channel: progressChannel,
+      type: 'finished',
+      agentName,
+      stepId,
+      status,
+      duration: Date.now() - agentStartTime,
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  if (progressChannel) {
+    delegationProgress.publish({ channel: progressChannel, type: 'started', agentName, stepId, conversationId, timestamp: startedAt });
+  }
+
+  try {
+    console.log(`[🤖 Agent] Delegating${stepId ? ` step ${stepId}` : ''} to ${agentName}...`);
+
+    // Create enhanced context with delegation metadata
+    const enhancedContext = {
+      ...context,
+      delegationMetadata: {
+        supervisorAgent: "supervisor",
+        delegatedAt: startedAt,
+        priority,
+        taskId: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        parentOperationId,
+        stepId,
+      },
+    };
+
+    const lessons = await lessonsLearned.contextFor(agentName, prompt);
+    const input = `[DELEGATED TASK from supervisor]
+Task: ${prompt}
+
+Context: ${JSON.stringify(enhancedContext, null, 2)}
+${lessons ? `\n${lessons}\n` : ''}
+Please process this delegated task and provide a comprehensive response.`;
+
+    // Structured mode returns a validated object; otherwise stream the
+    // agent's response so progress can be shown while it works
+    let response: { text: string; usage?: unknown; finishReason?: string };
+    let output: unknown;
+    let repairs: string[] = [];
+    if (structured) {
+      const result = await raceAbort(
+        generateStructuredDelegation(agentName, input, { conversationId, signal: agentSignal, userContext, maxRepairAttempts }),
+        agentSignal
+      );
+      ({ object: output, repairs } = result);
+      response = { ...result, text: JSON.stringify(result.object, null, 2) };
+    } else {
+      response = await raceAbort(
+        streamDelegation(agentName, input, { conversationId, signal: agentSignal, stepId, progressChannel, userContext }),
+        agentSignal
+      );
+    }
+
+    const duration = Date.now() - agentStartTime;
+
+    console.log(`[✅ Success] ${agentName} completed${stepId ? ` step ${stepId}` : ' task'} in ${duration}ms`);
+    publishFinished('completed');
+
+    return delegationResultSchema.parse({
+      agentName,
+      stepId,
+      response: response.text,
+      conversationId,
+      success: true,
+      status: 'completed',
+      startedAt,
+      duration,
+      scheduling,
+      output,
+      metadata: {
+        usage: response.usage,
+        finishReason: response.finishReason,
+        delegationMetadata: enhancedContext.delegationMetadata,
+        ...(repairs.length > 0 ? { repairs } : {}),
+      },
+    });
+  } catch (error) {
+    const duration = Date.now() - agentStartTime;
+
+    if (agentSignal.aborted && budget?.exceeded) {
+      console.warn(`[💸 Budget] ${agentName}${stepId ? ` step ${stepId}` : ''} stopped after ${duration}ms`);
+      publishFinished('budget_exceeded');
+      return budgetExceededResult(agentName, budget.exceeded, { stepId, conversationId, startedAt, duration, scheduling });
+    }
+
+    if (agentSignal.aborted) {
+      const reason = signal.aborted
+        ? 'Overall delegation timeout reached'
+        : `Agent timeout of ${agentTimeout}ms reached`;
+      console.warn(`[⏰ Timeout] ${agentName}${stepId ? ` step ${stepId}` : ''} cancelled after ${duration}ms: ${reason}`);
+      publishFinished('timed_out');
+      return timedOutResult(agentName, reason, { stepId, conversationId, startedAt, duration, scheduling });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(`[❌ Error] ${agentName} failed: ${errorMessage}`);
+    publishFinished('failed');
+
+    return delegationResultSchema.parse({
+      agentName,
+      stepId,
+      response: `Error: ${errorMessage}`,
+      conversationId,
+      success: false,
+      status: 'failed',
+      startedAt,
+      duration,
+      scheduling,
+      error: errorMessage,
+    });
+  } finally {
+    ticket.release();
+  }
+}
+
+/**
+ * Run a delegation under a retry policy. Failed attempts are retried with
+ * exponential backoff up to the priority's attempt limit; after that the next
+ * most suitable agent (ranked by validateAgentCapabilities) takes over. Timeouts are
+ * not retried. Every attempt is recorded in the final result's metadata.
+ */
+async function runDelegationWithRetry(
+  agentName: string,
+  prompt: string,
+  options: AgentDelegationOptions,
+  policy: RetryPolicy,
+  exclude: string[] = []
+): Promise<DelegationResult> {
+  const maxAttempts = policy.maxAttempts[options.priority];
+  const attempts: DelegationAttempt[] = [];
+  const tried = new Set<string>([agentName]);
+  let currentAgent = agentName;
+  let fallbacksUsed = 0;
+  let result: DelegationResult;
+
+  for (;;) {
+    let delay = policy.initialDelayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      result = await runAgentDelegation(currentAgent, prompt, options);
+      attempts.push({
+        agentName: currentAgent,
+        attempt,
+        status: result.status,
+        duration: result.duration,
+        startedAt: result.startedAt,
+        error: result.error,
+        fallback: currentAgent !== agentName,
+      });
+
+      if (result.status !== 'failed' || attempt >= maxAttempts || options.signal.aborted) break;
+
+      console.warn(`[🔁 Retry] ${currentAgent} attempt ${attempt}/${maxAttempts} failed; retrying in ${delay}ms`);
+      await backoffDelay(delay, options.signal);
+      delay = Math.min(delay * policy.backoffMultiplier, policy.maxDelayMs);
+    }
+
+    if (result.status !== 'failed' || fallbacksUsed >= policy.maxFallbacks || options.signal.aborted) break;
+
+    const { ranked } = await validateAgentCapabilities(prompt, Object.keys(agentRegistry));
+    // Structured delegations can only fall back to agents that have a result schema
+    const fallbackAgent = ranked.find(name =>
+      !tried.has(name) && !exclude.includes(name) && (!options.structured || name in agentResultSchemas)
+    );
+    if (!fallbackAgent) break;
+
+    console.warn(`[🪂 Fallback] ${currentAgent} exhausted ${maxAttempts} attempt(s); falling back to ${fallbackAgent}`);
+    tried.add(fallbackAgent);
+    currentAgent = fallbackAgent;
+    fallbacksUsed++;
+  }
+
+  return delegationResultSchema.parse({
+    ...result,
+    metadata: {
+      ...result.metadata,
+      requestedAgent: agentName,
+      attempts,
+      fallbacks: [...tried].slice(1),
+    },
+  });
+}
+
+/**
+ * Reconcile redundant answers to the same task. A judge agent scores every
+ * successful candidate; the winner is returned as-is ('select') or the judge
+ * merges the candidates into one answer ('merge'). If the judge itself fails,
+ * the first successful candidate is returned and the failure is stated in the
+ * rationale.
+ */
+async function runConsensus(
+  task: string,
+  results: DelegationResult[],
+  config: ConsensusConfig,
+  signal: AbortSignal,
+  priority: DelegationTask['priority'],
+  userContext?: Map<string | symbol, unknown>
+) {
+  const candidates = results
+    .map((result, index) => ({ candidateId: `${result.agentName}#${index + 1}`, result }))
+    .filter(candidate => candidate.result.success);
+
+  const base = { strategy: config.strategy, judgeAgent: config.judgeAgent, candidateCount: candidates.length };
+
+  if (candidates.length === 0) {
+    return { ...base, success: false, answer: undefined, rationale: 'No candidate completed successfully' };
+  }
+
+  if (candidates.length === 1) {
+    const [only] = candidates;
+    return {
+      ...base,
+      success: true,
+      winnerId: only.candidateId,
+      answer: only.result.response,
+      rationale: 'Only one candidate completed successfully; judging skipped',
+    };
+  }
+
+  const judge = agentRegistry[config.judgeAgent as keyof typeof agentRegistry];
+  let ticket: SchedulerTicket | undefined;
+
+  try {
+    if (!judge) throw new Error(`Invalid judge agent: ${config.judgeAgent}`);
+
+    // The judge is a sub-agent generation too, so it shares the scheduler
+    ticket = await delegationScheduler.acquire(config.judgeAgent, priority, signal);
+
+    console.log(`[⚖️ Consensus] ${config.judgeAgent} judging ${candidates.length} candidates (${config.strategy})`);
+
+    const verdict = await raceAbort<{ object: unknown }>(judge.generateObject(
+      `[CONSENSUS JUDGE for supervisor]
+Task: ${task}
+
+Score each candidate answer from 0 to 10 on correctness, completeness and relevance to the task, with a one-sentence critique.
+Set winnerId to the best candidate's ID.${config.strategy === 'merge' ? '\nAlso write mergedAnswer: a single answer that combines the strongest, mutually consistent parts of the candidates and drops anything they contradict without support.' : ''}
+Give a short rationale for the decision.
+
+${candidates.map(c => `### Candidate ${c.candidateId}\n${c.result.response}`).join('\n\n')}`,
+      consensusVerdictSchema,
+      {
+        userId: DELEGATION_USER_ID,
+        signal,
+        // Same budget and audit scope as the candidates
+        userContext: userContext ? new Map(userContext) : undefined,
+      }
+    ), signal);
+
+    const parsed = consensusVerdictSchema.parse(verdict.object);
+    const winner = candidates.find(c => c.candidateId === parsed.winnerId)
+      ?? candidates.reduce((best, c) => {
+        const score = (id: string) => parsed.scores.find(s => s.candidateId === id)?.score ?? -1;
+        return score(c.candidateId) > score(best.candidateId) ? c : best;
+      });
+
+    return {
+      ...base,
+      success: true,
+      winnerId: winner.candidateId,
+      answer: config.strategy === 'merge' && parsed.mergedAnswer ? parsed.mergedAnswer : winner.result.response,
+      rationale: parsed.rationale,
+      scores: parsed.scores,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[❌ Consensus] Judge failed: ${errorMessage}`);
+    const [first] = candidates;
+    return {
+      ...base,
+      success: true,
+      winnerId: first.candidateId,
+      answer: first.result.response,
+      rationale: `Judge failed (${errorMessage}); returning the first successful candidate unjudged`,
+    };
+  } finally {
+    ticket?.release();
+  }
+}
+
+/**
+ * Persist delegation outcomes and stamp each result with its record ID.
+ * Persistence failures are logged and never fail the delegation itself.
+ */
+async function persistDelegationResults(
+  task: string,
+  results: DelegationResult[],
+  { priority, parentOperationId, followUpOf }: { priority: string; parentOperationId?: string; followUpOf?: string }
+): Promise<void> {
+  for (const result of results) {
+    try {
+      result.delegationId = await recordDelegation({
+        task,
+        agentName: result.agentName,
+        stepId: result.stepId,
+        priority,
+        parentOperationId,
+        conversationId: result.conversationId,
+        userId: DELEGATION_USER_ID,
+        status: result.status,
+        success: result.success,
+        duration: result.duration,
+        usage: result.metadata?.usage,
+        response: result.response,
+        error: result.error,
+        followUpOf,
+      });
+    } catch (error) {
+      console.warn(`[💾 Delegation] Could not persist result from ${result.agentName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Validate a step graph: unique IDs, known agents, known dependencies and no cycles.
+ * Returns the step IDs in a valid topological order.
+ */
+export function validateDelegationGraph(steps: DelegationStep[]): string[] {
+  const availableAgents = Object.keys(agentRegistry);
+  const stepIds = new Set<string>();
+
+  for (const step of steps) {
+    if (stepIds.has(step.id)) {
+      throw new Error(`Duplicate step id: ${step.id}`);
+    }
+    stepIds.add(step.id);
+    if (!availableAgents.includes(step.agent)) {
+      throw new Error(`Invalid agent name for step ${step.id}: ${step.agent}. Available: ${availableAgents.join(', ')}`);
+    }
+  }
+
+  for (const step of steps) {
+    const unknown = step.dependsOn.filter(dep => !stepIds.has(dep));
+    if (unknown.length > 0) {
+      throw new Error(`Step ${step.id} depends on unknown step(s): ${unknown.join(', ')}`);
+    }
+  }
+
+  // Kahn's algorithm for cycle detection and ordering
+  // A dependency listed twice still counts once
+  const inDegree = new Map(steps.map(step => [step.id, new Set(step.dependsOn).size]));
+  const ready = steps.filter(step => inDegree.get(step.id) === 0).map(step => step.id);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const step of steps) {
+      if (step.dependsOn.includes(id)) {
+        const remaining = inDegree.get(step.id)! - 1;
+        inDegree.set(step.id, remaining);
+        if (remaining === 0) ready.push(step.id);
+      }
+    }
+  }
+
+  if (order.length !== steps.length) {
+    const cyclic = steps.filter(step => !order.includes(step.id)).map(step => step.id);
+    throw new Error(`Dependency cycle detected between steps: ${cyclic.join(', ')}`);
+  }
+
+  return order;
+}
+
+/**
+ * Render a step prompt, substituting {{stepId.response}} placeholders and
+ * appending upstream responses the template does not reference.
+ */
+function renderStepPrompt(step: DelegationStep, upstream: Map<string, DelegationResult>): string {
+  const referenced = new Set<string>();
+  let prompt = step.prompt.replace(/\{\{\s*([\w-]+)\.response\s*\}\}/g, (match, stepId: string) => {
+    const result = upstream.get(stepId);
+    if (!result) return match;
+    referenced.add(stepId);
+    return result.response;
+  });
+
+  const unreferenced = step.dependsOn.filter(dep => !referenced.has(dep) && upstream.has(dep));
+  if (unreferenced.length > 0) {
+    prompt += '\n\nUpstream results:';
+    for (const dep of unreferenced) {
+      const result = upstream.get(dep)!;
+      prompt += `\n\n### ${dep} (${result.agentName})\n${result.response}`;
+    }
+  }
+
+  return prompt;
+}
+
+/**
+ * Execute a step graph. Each step starts as soon as all of its dependencies
+ * complete, so independent branches run concurrently. A step whose dependency
+ * failed or was skipped is itself skipped; once the overall timeout fires,
+ * steps that have not started are reported as timed out.
+ */
+async function runDelegationGraph(
+  task: string,
+  steps: DelegationStep[],
+  options: Omit<AgentDelegationOptions, 'stepId'>,
+  policy: RetryPolicy
+): Promise<DelegationResult[]> {
+  const order = validateDelegationGraph(steps);
+  const stepById = new Map(steps.map(step => [step.id, step]));
+  const running = new Map<string, Promise<DelegationResult>>();
+
+  for (const id of order) {
+    const step = stepById.get(id)!;
+    const dependencies = step.dependsOn.map(dep => running.get(dep)!);
+
+    running.set(id, Promise.all(dependencies).then(async (upstreamResults) => {
+      if (options.signal.aborted) {
+        const exceeded = getOperationBudget(options.userContext)?.exceeded;
+        return exceeded
+          ? budgetExceededResult(step.agent, exceeded, { stepId: id })
+          : timedOutResult(step.agent, 'Overall delegation timeout reached before start', { stepId: id });
+      }
+
+      const blocked = upstreamResults.filter(result => !result.success);
+      if (blocked.length > 0) {
+        const reason = `Skipped: upstream step(s) ${blocked.map(result => result.stepId).join(', ')} did not complete`;
+        console.log(`[⏭️ Skipped] Step ${id}: ${reason}`);
+        return delegationResultSchema.parse({
+          agentName: step.agent,
+          stepId: id,
+          response: reason,
+          conversationId: '',
+          success: false,
+          status: 'skipped',
+          duration: 0,
+          error: reason,
+        });
+      }
+
+      const upstream = new Map(upstreamResults.map(result => [result.stepId!, result]));
+      const prompt = `${renderStepPrompt(step, upstream)}\n\n(Pipeline goal: ${task})`;
+      return runDelegationWithRetry(step.agent, prompt, { ...options, stepId: id }, policy);
+    }));
+  }
+
+  // Preserve the caller's step order in the results
+  return Promise.all(steps.map(step => running.get(step.id)!));
+}
 
 /**
  * Enhanced delegate_task tool for supervisor agent
@@ -38,121 +883,141 @@ export type DelegationResult = z.infer<typeof delegationResultSchema>;
  */
 export const delegateTaskTool = createTool({
   name: "delegate_task",
-  description: "Delegate a task to one or more specialized agents for coordinated multi-agent workflows",
+  description: "Delegate a task to one or more specialized agents, either as a parallel fan-out (targetAgents, or automatically routed when omitted) or as a dependency-aware pipeline of steps (steps)",
   parameters: delegationTaskSchema,
-  execute: async ({ task, targetAgents, context = {}, priority, timeout }, options) => {
+  execute: async ({ task, targetAgents, autoRouteCount, steps, context = {}, priority, timeout, agentTimeout, retryPolicy, consensus, structured, maxRepairAttempts }, options) => {
     const startTime = Date.now();
     const results: DelegationResult[] = [];
+    const parentOperationId = options?.operationContext?.operationId;
+
+    const userContext = options?.operationContext?.userContext;
+    const budget = getOperationBudget(userContext);
+
+    // Overall deadline: aborting cancels every in-flight sub-agent generation,
+    // as does exhausting the operation budget
+    const controller = new AbortController();
+    const overallTimer = setTimeout(() => controller.abort(new Error('Delegation timeout')), timeout);
+    const signal = AbortSignal.any([controller.signal, options?.signal, budget?.signal].filter((s): s is AbortSignal => !!s));
+    const progressChannel = userContext?.get(PROGRESS_CHANNEL_KEY) as string | undefined;
+    const delegationOptions = {
+      context,
+      priority,
+      parentOperationId,
+      signal,
+      agentTimeout: agentTimeout ?? timeout,
+      progressChannel,
+      userContext,
+      structured,
+      maxRepairAttempts,
+    };
+    const policy = retryPolicySchema.parse(retryPolicy ?? {});
+    
+    let routing: RouteCandidate[] | undefined;
     
     try {
-      // Validate that target agents exist
-      const availableAgents = Object.keys(agentRegistry);
-      const invalidAgents = targetAgents.filter(name => !availableAgents.includes(name));
-      
-      if (invalidAgents.length > 0) {
-        throw new Error(`Invalid agent names: ${invalidAgents.join(', ')}. Available: ${availableAgents.join(', ')}`);
+      if (budget?.exceeded) {
+        throw new Error(`Budget exceeded: ${budget.exceeded.budget} (used ${budget.exceeded.used} of ${budget.exceeded.limit})`);
       }
 
-      console.log(`[🔄 Delegation] Starting task delegation to ${targetAgents.length} agents`);
-      console.log(`[📋 Task] ${task}`);
-      console.log(`[🎯 Targets] ${targetAgents.join(', ')}`);
-      console.log(`[⚡ Priority] ${priority}`);
+      if (steps && consensus) {
+        throw new Error('Consensus mode is only supported for fan-out delegations, not step pipelines');
+      }
 
-      // Process each target agent
-      const delegationPromises = targetAgents.map(async (agentName) => {
-        const agent = agentRegistry[agentName as keyof typeof agentRegistry];
-        const agentStartTime = Date.now();
-        
-        try {
-          console.log(`[🤖 Agent] Delegating to ${agentName}...`);
-          
-          // Create enhanced context with delegation metadata
-          const enhancedContext = {
-            ...context,
-            delegationMetadata: {
-              supervisorAgent: "supervisor",
-              delegatedAt: new Date().toISOString(),
-              priority,
-              taskId: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              parentOperationId: options?.operationContext?.operationId,
-            },
-          };
+      // Structured mode needs a result schema for every agent involved
+      const structuredAgents = Object.keys(agentResultSchemas);
+      if (structured) {
+        const unsupported = [...new Set([...(targetAgents ?? []), ...(steps ?? []).map(step => step.agent)])]
+          .filter(name => !structuredAgents.includes(name));
+        if (unsupported.length > 0) {
+          throw new Error(`Structured mode is not supported by: ${unsupported.join(', ')}. Supported: ${structuredAgents.join(', ')}`);
+        }
+      }
 
-          // Use the agent's generateText method for task execution
-          const response = await agent.generateText(
-            `[DELEGATED TASK from supervisor]
-Task: ${task}
+      let delegationPromise: Promise<DelegationResult[]>;
 
-Context: ${JSON.stringify(enhancedContext, null, 2)}
+      if (steps) {
+        console.log(`[🔄 Delegation] Starting pipeline of ${steps.length} steps`);
+        console.log(`[📋 Task] ${task}`);
+        console.log(`[⚡ Priority] ${priority}`);
 
-Please process this delegated task and provide a comprehensive response.`,
-            {
-              userId: 'supervisor-delegation',
-              conversationId: `delegation_${agentName}_${Date.now()}`,
-            }
-          );
-
-          const duration = Date.now() - agentStartTime;
-          
-          console.log(`[✅ Success] ${agentName} completed task in ${duration}ms`);
-          
-          return delegationResultSchema.parse({
-            agentName,
-            response: response.text,
-            conversationId: `delegation_${agentName}_${Date.now()}`,
-            success: true,
-            duration,
-            metadata: {
-              usage: response.usage,
-              finishReason: response.finishReason,
-              delegationMetadata: enhancedContext.delegationMetadata,
-            },
-          });
-        } catch (error) {
-          const duration = Date.now() - agentStartTime;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          
-          console.error(`[❌ Error] ${agentName} failed: ${errorMessage}`);
-          
-          return delegationResultSchema.parse({
-            agentName,
-            response: `Error: ${errorMessage}`,
-            conversationId: `delegation_${agentName}_${Date.now()}`,
-            success: false,
-            duration,
-            error: errorMessage,
-          });
+        delegationPromise = runDelegationGraph(task, steps, delegationOptions, policy);
+      } else {
+        let agents = targetAgents;
+
+        if (!agents) {
+          routing = await rankAgentsForTask(task, structured ? structuredAgents : undefined);
+          agents = routing.slice(0, autoRouteCount).map(candidate => candidate.name);
+          console.log(`[🧭 Routing] Auto-selected ${agents.join(', ')} (${routing.slice(0, autoRouteCount).map(c => c.score.toFixed(2)).join(', ')})`);
         }
-      });
 
-      // Wait for all delegations to complete (with timeout)
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Delegation timeout')), timeout);
-      });
+        // Validate that target agents exist
+        const availableAgents = Object.keys(agentRegistry);
+        const invalidAgents = agents.filter(name => !availableAgents.includes(name));
+        
+        if (invalidAgents.length > 0) {
+          throw new Error(`Invalid agent names: ${invalidAgents.join(', ')}. Available: ${availableAgents.join(', ')}`);
+        }
+
+        console.log(`[🔄 Delegation] Starting task delegation to ${agents.length} agents`);
+        console.log(`[📋 Task] ${task}`);
+        console.log(`[🎯 Targets] ${agents.join(', ')}`);
+        console.log(`[⚡ Priority] ${priority}`);
+
+        // In consensus mode every target answers the task `samples` times
+        const samples = consensus?.samples ?? 1;
+        const runs = agents.flatMap(agentName => Array.from({ length: samples }, () => agentName));
+
+        // Process each target agent
+        delegationPromise = Promise.all(runs.map(agentName =>
+          // Fallbacks never duplicate another target of the same fan-out
+          runDelegationWithRetry(agentName, task, delegationOptions, policy, agents!)
+        ));
+      }
 
-      results.push(...await Promise.race([
-        Promise.all(delegationPromises),
-        timeoutPromise,
-      ]));
+      // Every delegation settles on its own (completed, failed or timed_out),
+      // so results that finished before the deadline are kept
+      results.push(...await delegationPromise);
+
+      await persistDelegationResults(task, results, { priority, parentOperationId });
+
+      const consensusOutcome = consensus
+        ? await runConsensus(task, results, consensusConfigSchema.parse(consensus), signal, priority, userContext)
+        : undefined;
 
       const totalDuration = Date.now() - startTime;
       const successCount = results.filter(r => r.success).length;
+      const timedOutCount = results.filter(r => r.status === 'timed_out').length;
+      const budgetStoppedCount = results.filter(r => r.status === 'budget_exceeded').length;
+      const queueWaits = results.map(r => r.scheduling?.queueWaitMs ?? 0);
       
-      console.log(`[🏁 Complete] Delegation finished: ${successCount}/${results.length} successful in ${totalDuration}ms`);
+      console.log(`[🏁 Complete] Delegation finished: ${successCount}/${results.length} successful${timedOutCount > 0 ? `, ${timedOutCount} timed out` : ''}${budgetStoppedCount > 0 ? `, ${budgetStoppedCount} stopped by budget` : ''} in ${totalDuration}ms`);
 
       // Return formatted results for the supervisor
       return {
         success: true,
         delegationSummary: {
           task,
-          totalAgents: targetAgents.length,
+          mode: steps ? 'pipeline' : consensus ? 'consensus' : 'fan-out',
+          totalAgents: new Set(results.map(result => result.agentName)).size,
+          autoRouted: !steps && !targetAgents,
+          structured,
+          totalSteps: results.length,
           successfulAgents: successCount,
-          failedAgents: results.length - successCount,
+          failedAgents: results.length - successCount - timedOutCount - budgetStoppedCount,
+          timedOutAgents: timedOutCount,
+          budgetExceededAgents: budgetStoppedCount,
+          partial: timedOutCount > 0 || budgetStoppedCount > 0,
+          maxQueueWaitMs: Math.max(0, ...queueWaits),
           totalDuration,
           priority,
         },
+        budget: budget?.snapshot(),
         results,
-        recommendations: generateRecommendations(results, task),
+        pipeline: steps ? summarizePipeline(steps, results, startTime) : undefined,
+        routing: routing?.slice(0, 5),
+        // The raw candidates stay available in `results` for audit
+        consensus: consensusOutcome,
+        recommendations: generateRecommendations(results, routing ?? await rankAgentsForTask(task)),
       };
 
     } catch (error) {
@@ -165,24 +1030,146 @@ Please process this delegated task and provide a comprehensive response.`,
         success: false,
         error: errorMessage,
         duration: totalDuration,
+        budget: budget?.snapshot(),
         results,
       };
+    } finally {
+      clearTimeout(overallTimer);
     }
   },
 });
 
+/**
+ * delegation_history tool for the supervisor agent
+ *
+ * Lists persisted delegations, opens the sub-agent thread behind one, and
+ * continues that thread with a follow-up task.
+ */
+export const delegationHistoryTool = createTool({
+  name: "delegation_history",
+  description: "List past delegations, open the exact sub-agent conversation behind a delegation, or continue it with a follow-up task",
+  parameters: z.object({
+    operation: z.enum(['list', 'open', 'continue']).describe("History operation"),
+    delegationId: z.string().optional().describe("Delegation record ID (required for open and continue)"),
+    agentName: z.string().optional().describe("Filter list by subagent name"),
+    status: z.enum(['completed', 'failed', 'skipped', 'timed_out', 'budget_exceeded']).optional().describe("Filter list by outcome"),
+    parentOperationId: z.string().optional().describe("Filter list by the supervisor operation that delegated"),
+    followUp: z.string().optional().describe("Follow-up task for the continue operation"),
+    limit: z.number().int().positive().optional().default(20).describe("Maximum records or messages to return"),
+    timeout: z.number().positive().optional().default(30000).describe("Timeout in milliseconds for the continue operation"),
+  }),
+  execute: async ({ operation, delegationId, agentName, status, parentOperationId, followUp, limit = 20, timeout = 30000 }, options) => {
+    try {
+      switch (operation) {
+        case 'list': {
+          const records = await listDelegations({ agentName, status, parentOperationId, limit });
+          return {
+            success: true,
+            operation,
+            delegations: records.map(({ response, ...record }) => ({
+              ...record,
+              responsePreview: response.length > 200 ? response.slice(0, 200) + '...' : response,
+            })),
+          };
+        }
+        case 'open': {
+          if (!delegationId) throw new Error('delegationId is required for open');
+          const record = await getDelegation(delegationId);
+          if (!record) throw new Error(`Delegation not found: ${delegationId}`);
+          const messages = record.conversationId ? await getThreadHistory(record.conversationId, limit) : [];
+          return { success: true, operation, delegation: record, messages };
+        }
+        case 'continue': {
+          if (!delegationId) throw new Error('delegationId is required for continue');
+          if (!followUp) throw new Error('followUp is required for continue');
+          const record = await getDelegation(delegationId);
+          if (!record) throw new Error(`Delegation not found: ${delegationId}`);
+          if (!record.conversationId) throw new Error(`Delegation ${delegationId} never started a sub-agent thread`);
+          if (!(record.agentName in agentRegistry)) throw new Error(`Agent no longer available: ${record.agentName}`);
+
+          const userContext = options?.operationContext?.userContext;
+          const budget = getOperationBudget(userContext);
+          const controller = new AbortController();
+          const timer = setTimeout(() => controller.abort(new Error('Delegation timeout')), timeout);
+          try {
+            const parentId = options?.operationContext?.operationId;
+            const result = await runAgentDelegation(record.agentName, followUp, {
+              context: { followUpOf: record.id, originalTask: record.task },
+              priority: record.priority as DelegationTask['priority'],
+              parentOperationId: parentId,
+              stepId: record.stepId,
+              signal: budget ? AbortSignal.any([controller.signal, budget.signal]) : controller.signal,
+              agentTimeout: timeout,
+              conversationId: record.conversationId,
+              progressChannel: userContext?.get(PROGRESS_CHANNEL_KEY) as string | undefined,
+              userContext,
+            });
+            await persistDelegationResults(followUp, [result], {
+              priority: record.priority,
+              parentOperationId: parentId,
+              followUpOf: record.id,
+            });
+            return { success: result.success, operation, followUpOf: record.id, result };
+          } finally {
+            clearTimeout(timer);
+          }
+        }
+        default:
+          throw new Error(`Unknown operation: ${operation}`);
+      }
+    } catch (error) {
+      return { success: false, operation, error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+});
+
+/**
+ * Per-step timing and status view of a pipeline run
+ */
+function summarizePipeline(steps: DelegationStep[], results: DelegationResult[], pipelineStart: number) {
+  return steps.map((step, index) => {
+    const result = results[index];
+    return {
+      stepId: step.id,
+      agentName: step.agent,
+      dependsOn: step.dependsOn,
+      status: result.status,
+      startOffset: result.startedAt ? new Date(result.startedAt).getTime() - pipelineStart : undefined,
+      duration: result.duration,
+      error: result.error,
+    };
+  });
+}
+
 /**
  * Generate recommendations based on delegation results
  */
-function generateRecommendations(results: DelegationResult[], task: string): string[] {
+function generateRecommendations(results: DelegationResult[], routing: RouteCandidate[]): string[] {
   const recommendations: string[] = [];
   
-  const failedAgents = results.filter(r => !r.success);
+  const failedAgents = results.filter(r => r.status === 'failed');
+  const timedOutAgents = results.filter(r => r.status === 'timed_out');
+  const budgetStopped = results.filter(r => r.status === 'budget_exceeded');
   const successfulAgents = results.filter(r => r.success);
   
   if (failedAgents.length > 0) {
-    recommendations.push(`${failedAgents.length} agent(s) failed: ${failedAgents.map(r => r.agentName).join(', ')}`);
-    recommendations.push("Consider retrying failed tasks or using alternative agents");
+    recommendations.push(`${failedAgents.length} agent(s) failed after retries and fallbacks: ${failedAgents.map(r => r.agentName).join(', ')}`);
+    recommendations.push("Inspect metadata.attempts for each failure before re-delegating");
+  }
+
+  const recovered = results.filter(r => r.success && r.metadata?.requestedAgent && r.metadata.requestedAgent !== r.agentName);
+  for (const r of recovered) {
+    recommendations.push(`${r.metadata!.requestedAgent} failed; ${r.agentName} completed the task as fallback`);
+  }
+
+  if (timedOutAgents.length > 0) {
+    recommendations.push(`${timedOutAgents.length} agent(s) timed out and were cancelled: ${timedOutAgents.map(r => r.agentName).join(', ')}`);
+    recommendations.push("Increase the timeout or split the task; completed results above are still usable");
+  }
+
+  if (budgetStopped.length > 0) {
+    const exceeded = budgetStopped[0].metadata?.budgetExceeded as BudgetExceeded | undefined;
+    recommendations.push(`${budgetStopped.length} agent(s) were stopped because the operation's ${exceeded?.budget ?? 'budget'} was exhausted; do not delegate further in this operation`);
   }
   
   if (successfulAgents.length > 0) {
@@ -194,13 +1181,13 @@ function generateRecommendations(results: DelegationResult[], task: string): str
     }
   }
   
-  // Task-specific recommendations
-  if (task.toLowerCase().includes('analysis')) {
-    recommendations.push("For analysis tasks, consider using data-analyst for quantitative and content-creator for qualitative aspects");
-  }
-  
-  if (task.toLowerCase().includes('code') || task.toLowerCase().includes('repository')) {
-    recommendations.push("For code-related tasks, developer agent provides comprehensive repository analysis and code review");
+  // Task-specific recommendations from semantic routing
+  const used = new Set(results.map(r => r.agentName));
+  const betterMatches = routing
+    .slice(0, 3)
+    .filter(candidate => candidate.score > 0 && !used.has(candidate.name));
+  if (betterMatches.length > 0) {
+    recommendations.push(`Best-matching agents not used: ${betterMatches.map(c => `${c.name} (${c.score.toFixed(2)})`).join(', ')}`);
   }
   
   return recommendations;
@@ -213,64 +1200,75 @@ export function getAvailableAgents(): AgentCapability[] {
   return Object.entries(agentRegistry).map(([name, agent]) => ({
     name,
     agentName: agent.name,
-    capabilities: (agent as any).tools?.map((tool: any) => tool.name) || [],
+    capabilities: agentToolNames(agent),
     status: 'active' as const,
   }));
 }
 
 /**
- * Validate agent capabilities for a specific task type
+ * Minimum similarity for an agent to be considered suitable for a task
  */
-export function validateAgentCapabilities(task: string, targetAgents: string[]): {
+const MIN_ROUTING_SCORE = 0.2;
+
+/**
+ * Rank agents for a task with the embedding router. If the embedding model
+ * cannot be loaded, candidates are returned in their given order with a
+ * score of 0 so delegation can still proceed.
+ */
+async function rankAgentsForTask(
+  task: string,
+  candidates: string[] = Object.keys(agentRegistry)
+): Promise<RouteCandidate[]> {
+  try {
+    return await agentRouter.route(task, candidates);
+  } catch (error) {
+    console.warn(`[🧭 Routing] Embedding router unavailable, keeping given order: ${error instanceof Error ? error.message : String(error)}`);
+    return candidates
+      .filter(name => name in agentRegistry)
+      .map(name => ({
+        name,
+        agentName: agentRegistry[name as keyof typeof agentRegistry].name,
+        score: 0,
+      }));
+  }
+}
+
+/**
+ * Validate agent capabilities for a specific task using semantic routing
+ */
+export async function validateAgentCapabilities(task: string, targetAgents: string[]): Promise<{
   suitable: string[];
   unsuitable: string[];
   recommendations: string[];
-} {
-  const availableAgents = getAvailableAgents();
-  const suitable: string[] = [];
-  const unsuitable: string[] = [];
+  ranked: string[];
+  scores: Record<string, number>;
+}> {
+  const availableAgents = getAvailableAgents().map(a => a.name);
+  const unsuitable = targetAgents.filter(name => !availableAgents.includes(name));
+  const routing = await rankAgentsForTask(task);
+  const routerAvailable = routing.some(candidate => candidate.score !== 0);
+  const scores = Object.fromEntries(routing.map(candidate => [candidate.name, candidate.score]));
   const recommendations: string[] = [];
-  
-  const taskLower = task.toLowerCase();
-  
-  for (const agentName of targetAgents) {
-    const agent = availableAgents.find(a => a.name === agentName);
-    if (!agent) {
-      unsuitable.push(agentName);
-      continue;
-    }
-    
-    // Task-specific suitability checks
-    if (taskLower.includes('data') || taskLower.includes('analysis') || taskLower.includes('calculate')) {
-      if (agentName === 'dataAnalyst') suitable.push(agentName);
-      else if (!suitable.includes('dataAnalyst')) recommendations.push("Consider using data-analyst for data analysis tasks");
-    }
-    
-    if (taskLower.includes('code') || taskLower.includes('repository') || taskLower.includes('git')) {
-      if (agentName === 'developer') suitable.push(agentName);
-      else if (!suitable.includes('developer')) recommendations.push("Consider using developer agent for code-related tasks");
-    }
-    
-    if (taskLower.includes('content') || taskLower.includes('write') || taskLower.includes('article')) {
-      if (agentName === 'contentCreator') suitable.push(agentName);
-      else if (!suitable.includes('contentCreator')) recommendations.push("Consider using content-creator for writing tasks");
-    }
-    
-    if (taskLower.includes('file') || taskLower.includes('directory') || taskLower.includes('manage')) {
-      if (agentName === 'fileManager') suitable.push(agentName);
-      else if (!suitable.includes('fileManager')) recommendations.push("Consider using file-manager for file operations");
-    }
-    
-    if (taskLower.includes('system') || taskLower.includes('performance') || taskLower.includes('monitor')) {
-      if (agentName === 'systemAdmin') suitable.push(agentName);
-      else if (!suitable.includes('systemAdmin')) recommendations.push("Consider using system-admin for system-related tasks");
-    }
-    
-    // Default: consider all agents suitable for general problem-solving
-    if (!suitable.includes(agentName) && !unsuitable.includes(agentName)) {
-      suitable.push(agentName);
+
+  const ranked = routing
+    .map(candidate => candidate.name)
+    .filter(name => targetAgents.includes(name));
+
+  const suitable: string[] = [];
+  for (const name of ranked) {
+    if (!routerAvailable || scores[name] >= MIN_ROUTING_SCORE) suitable.push(name);
+    else unsuitable.push(name);
+  }
+
+  // Suggest stronger matches that were not targeted
+  const bestTargetScore = ranked.length > 0 ? scores[ranked[0]] : -Infinity;
+  if (routerAvailable) {
+    for (const candidate of routing.slice(0, 3)) {
+      if (!targetAgents.includes(candidate.name) && candidate.score > bestTargetScore) {
+        recommendations.push(`Consider using ${candidate.name} for this task (similarity ${candidate.score.toFixed(2)})`);
+      }
     }
   }
-  
-  return { suitable, unsuitable, recommendations };
+
+  return { suitable, unsuitable, recommendations, ranked, scores };
 }
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Health probes for system_health and getSystemStatus()
+ *
+ * Each probe checks one dependency and reports healthy, degraded or critical
+ * with a reason. A probe that throws or exceeds its timeout reports its
+ * failure status. The overall status is the worst probe status, and every
+ * probe that is not healthy contributes a reason.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { memoryClient } from "../memory/voltAgentMemory.js";
+import { vectorMemory } from "../memory/vectorMemory.js";
+import { mcpServers } from "./mcp.js";
+
+export const healthStatuses = ['healthy', 'degraded', 'critical'] as const;
+export type HealthStatus = typeof healthStatuses[number];
+
+/**
+ * Result of one probe run, as reported by system_health and getSystemStatus()
+ */
+export const probeResultSchema = z.object({
+  name: z.string(),
+  status: z.enum(healthStatuses),
+  /** Why the probe is not healthy, or a short summary when it is */
+  reason: z.string(),
+  latencyMs: z.number(),
+  details: z.record(z.unknown()).optional(),
+});
+
+export type ProbeResult = z.infer<typeof probeResultSchema>;
+
+export interface ProbeOutcome {
+  status: HealthStatus;
+  reason: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthProbe {
+  name: string;
+  /** Reported when the check throws or times out (default: degraded) */
+  failureStatus?: Exclude<HealthStatus, 'healthy'>;
+  /** Default: 10s */
+  timeoutMs?: number;
+  check(signal: AbortSignal): Promise<ProbeOutcome>;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  reasons: string[];
+  checkedAt: string;
+  probes: ProbeResult[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Worst status across the results, with one reason per unhealthy probe
+ */
+export function rollUpHealth(results: ProbeResult[]): Pick<HealthReport, 'status' | 'reasons'> {
+  let status: HealthStatus = 'healthy';
+  const reasons: string[] = [];
+  for (const result of results) {
+    if (result.status === 'healthy') continue;
+    reasons.push(`${result.name}: ${result.reason}`);
+    if (healthStatuses.indexOf(result.status) > healthStatuses.indexOf(status)) status = result.status;
+  }
+  return { status, reasons };
+}
+
+/**
+ * HealthProbeRegistry: named probes run together into one report
+ */
+export class HealthProbeRegistry {
+  private probes = new Map<string, HealthProbe>();
+
+  register(probe: HealthProbe): void {
+    this.probes.set(probe.name, probe);
+  }
+
+  unregister(name: string): boolean {
+    return this.probes.delete(name);
+  }
+
+  names(): string[] {
+    return [...this.probes.keys()];
+  }
+
+  /**
+   * Run all probes (or only `names`) concurrently
+   */
+  async run(names?: string[]): Promise<HealthReport> {
+    const selected = names ?? this.names();
+    const unknown = selected.filter(name => !this.probes.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown health probe(s): ${unknown.join(', ')}. Available: ${this.names().join(', ')}`);
+    }
+
+    const probes = await Promise.all(selected.map(name => this.runProbe(this.probes.get(name)!)));
+    return { ...rollUpHealth(probes), checkedAt: new Date().toISOString(), probes };
+  }
+
+  private async runProbe(probe: HealthProbe): Promise<ProbeResult> {
+    const timeoutMs = probe.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const started = Date.now();
+
+    try {
+      const outcome = await Promise.race([
+        probe.check(controller.signal),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Timed out after ${timeoutMs}ms`));
+          }, timeoutMs);
+        }),
+      ]);
+      return { name: probe.name, ...outcome, latencyMs: Date.now() - started };
+    } catch (error) {
+      return {
+        name: probe.name,
+        status: probe.failureStatus ?? 'degraded',
+        reason: error instanceof Error ? error.message : String(error),
+        latencyMs: Date.now() - started,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Export a singleton for global use
+export const healthProbes = new HealthProbeRegistry();
+
+/** A round-trip slower than this marks the database degraded */
+const SLOW_DATABASE_MS = 1_000;
+
+healthProbes.register({
+  name: 'libsql',
+  failureStatus: 'critical',
+  async check() {
+    const started = Date.now();
+    const result = await memoryClient.execute('SELECT 1 AS ok');
+    const roundTripMs = Date.now() - started;
+    if (Number(result.rows[0]?.ok) !== 1) {
+      return { status: 'critical', reason: 'Unexpected response to SELECT 1' };
+    }
+    if (roundTripMs > SLOW_DATABASE_MS) {
+      return { status: 'degraded', reason: `Slow round-trip (${roundTripMs}ms)`, details: { roundTripMs } };
+    }
+    return { status: 'healthy', reason: 'Round-trip OK', details: { roundTripMs } };
+  },
+});
+
+for (const [server, config] of Object.entries(mcpServers)) {
+  healthProbes.register({
+    name: `mcp:${server}`,
+    timeoutMs: 30_000,
+    async check() {
+      const tools = await config.getTools();
+      const toolCount = Array.isArray(tools) ? tools.length : Object.keys(tools ?? {}).length;
+      if (toolCount === 0) return { status: 'degraded', reason: 'Connected but exposes no tools', details: { toolCount } };
+      return { status: 'healthy', reason: `Connected with ${toolCount} tools`, details: { toolCount } };
+    },
+  });
+}
+
+// The first check loads the model, which can take a while on a cold cache
+healthProbes.register({
+  name: 'embedding',
+  timeoutMs: 120_000,
+  async check() {
+    const wasLoaded = vectorMemory.loaded;
+    const vector = await vectorMemory.embed('health check');
+    const details = { model: vectorMemory.model, dimensions: vector.length, wasLoaded };
+    if (vector.length === 0 || !vector.every(Number.isFinite)) {
+      return { status: 'degraded', reason: 'Model returned an invalid embedding', details };
+    }
+    return { status: 'healthy', reason: `${vectorMemory.model} loaded`, details };
+  },
+});
+
+healthProbes.register({
+  name: 'playwright',
+  timeoutMs: 30_000,
+  async check(signal) {
+    const { chromium } = await import("playwright");
+    const browser = await chromium.launch({ headless: true });
+    try {
+      const version = browser.version();
+      if (signal.aborted) throw new Error('Aborted');
+      return { status: 'healthy', reason: `Chromium ${version} launched`, details: { browser: 'chromium', version } };
+    } finally {
+      await browser.close();
+    }
+  },
+});
+
+/** Free space below either limit marks the data directory degraded or critical */
+const DISK_LIMITS = {
+  degraded: { ratio: 0.10, bytes: 1024 ** 3 },
+  critical: { ratio: 0.02, bytes: 100 * 1024 ** 2 },
+};
+
+healthProbes.register({
+  name: 'disk',
+  failureStatus: 'critical',
+  async check() {
+    const dataDir = path.resolve("./data");
+    await fs.mkdir(dataDir, { recursive: true });
+    const stats = await fs.statfs(dataDir);
+    const freeBytes = stats.bavail * stats.bsize;
+    const totalBytes = stats.blocks * stats.bsize;
+    const freeRatio = totalBytes > 0 ? freeBytes / totalBytes : 0;
+    const details = { path: dataDir, freeBytes, totalBytes, freePercent: Math.round(freeRatio * 1000) / 10 };
+    const summary = `${(freeBytes / 1024 ** 3).toFixed(1)} GiB free (${details.freePercent}%)`;
+
+    if (freeRatio < DISK_LIMITS.critical.ratio || freeBytes < DISK_LIMITS.critical.bytes) {
+      return { status: 'critical', reason: `Data directory almost full: ${summary}`, details };
+    }
+    if (freeRatio < DISK_LIMITS.degraded.ratio || freeBytes < DISK_LIMITS.degraded.bytes) {
+      return { status: 'degraded', reason: `Data directory low on space: ${summary}`, details };
+    }
+    return { status: 'healthy', reason: summary, details };
+  },
+});
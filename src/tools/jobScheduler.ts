@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Persistent job scheduler for the task_scheduler tool
+ *
+ * Jobs are stored in LibSQL (see scheduledJobStore) and fire either once at an
+ * ISO time or repeatedly on a cron expression. A firing runs a stored prompt
+ * against a named agent or calls a tool from toolRegistry with stored
+ * arguments, and is recorded as a run with its output. On start, jobs whose
+ * next run passed while the process was down are handled by their misfire
+ * policy.
+ */
+
+import { agentRegistry } from "../agents/index.js";
+import { isCronExpression, nextCronTime, parseCron } from "./cronExpression.js";
+import { toolFailure, toolRegistry } from "./toolRegistry.js";
+import { setLongTimeout, type LongTimeout } from "./longTimeout.js";
+import {
+  createJob,
+  getJob,
+  listJobRuns,
+  listJobs,
+  recordJobRun,
+  updateJob,
+  type JobRun,
+  type JobStatus,
+  type JobTarget,
+  type MisfirePolicy,
+  type ScheduledJob,
+} from "../memory/scheduledJobStore.js";
+
+export interface CreateJobInput {
+  name: string;
+  /** ISO timestamp (one-shot) or cron expression (recurring) */
+  schedule: string;
+  target: JobTarget;
+  misfirePolicy?: MisfirePolicy;
+}
+
+// A firing this late counts as missed rather than merely delayed
+const MISFIRE_GRACE_MS = 60_000;
+
+/**
+ * JobScheduler: arms timers for stored jobs and records every run
+ */
+export class JobScheduler {
+  private timers = new Map<string, LongTimeout>();
+  private running = new Set<string>();
+  private started?: Promise<void>;
+
+  /** Upper bound for one run of a job */
+  runTimeoutMs = 10 * 60 * 1000;
+
+  /**
+   * Restore active jobs from the store; later calls wait for the first one
+   */
+  start(): Promise<void> {
+    this.started ??= (async () => {
+      const jobs = await listJobs({ status: 'active' });
+      for (const job of jobs) await this.schedule(job);
+      if (jobs.length > 0) console.log(`[⏰ Scheduler] Restored ${jobs.length} active job(s)`);
+    })().catch((error) => {
+      this.started = undefined;
+      throw error;
+    });
+    return this.started;
+  }
+
+  async create(input: CreateJobInput): Promise<ScheduledJob> {
+    await this.start();
+    this.validateTarget(input.target);
+
+    const cron = isCronExpression(input.schedule);
+    let nextRunAt: Date;
+    if (cron) {
+      nextRunAt = nextCronTime(parseCron(input.schedule));
+    } else {
+      nextRunAt = new Date(input.schedule);
+      if (Number.isNaN(nextRunAt.getTime())) throw new Error(`Invalid schedule "${input.schedule}": expected an ISO timestamp or a cron expression`);
+      if (nextRunAt.getTime() <= Date.now()) throw new Error(`Scheduled time ${input.schedule} is in the past.`);
+    }
+
+    const job = await createJob({
+      name: input.name,
+      scheduleType: cron ? 'cron' : 'once',
+      schedule: cron ? input.schedule.trim() : nextRunAt.toISOString(),
+      target: input.target,
+      misfirePolicy: input.misfirePolicy ?? 'run_once',
+      status: 'active',
+      nextRunAt: nextRunAt.toISOString(),
+    });
+    this.arm(job);
+    return job;
+  }
+
+  async list(status?: JobStatus): Promise<ScheduledJob[]> {
+    return listJobs({ status });
+  }
+
+  /**
+   * A job with its most recent runs
+   */
+  async get(id: string, limit = 20): Promise<{ job: ScheduledJob; runs: JobRun[] }> {
+    return { job: await this.require(id), runs: await listJobRuns(id, limit) };
+  }
+
+  async pause(id: string): Promise<ScheduledJob> {
+    const job = await this.require(id);
+    if (!(await updateJob(id, { status: 'paused' }, { status: 'active' }))) {
+      throw new Error(`Only active jobs can be paused; ${job.name} is ${job.status}`);
+    }
+    this.disarm(id);
+    return this.require(id);
+  }
+
+  /**
+   * Reactivate a paused job; firings missed while paused follow the misfire policy
+   */
+  async resume(id: string): Promise<ScheduledJob> {
+    const job = await this.require(id);
+    if (!(await updateJob(id, { status: 'active' }, { status: 'paused' }))) {
+      throw new Error(`Only paused jobs can be resumed; ${job.name} is ${job.status}`);
+    }
+    await this.schedule({ ...job, status: 'active' });
+    return this.require(id);
+  }
+
+  async cancel(id: string): Promise<ScheduledJob> {
+    const job = await this.require(id);
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      throw new Error(`Job ${job.name} is already ${job.status}`);
+    }
+    await updateJob(id, { status: 'cancelled', nextRunAt: null });
+    this.disarm(id);
+    return this.require(id);
+  }
+
+  /**
+   * Run a job immediately without changing its schedule
+   */
+  async runNow(id: string): Promise<JobRun> {
+    return this.execute(await this.require(id), new Date().toISOString(), false);
+  }
+
+  private async require(id: string): Promise<ScheduledJob> {
+    const job = await getJob(id);
+    if (!job) throw new Error(`Job not found: ${id}`);
+    return job;
+  }
+
+  private validateTarget(target: JobTarget): void {
+    if (target.type === 'agent') {
+      if (!agentRegistry[target.agentName as keyof typeof agentRegistry]) {
+        throw new Error(`Unknown agent: ${target.agentName}. Available: ${Object.keys(agentRegistry).join(', ')}`);
+      }
+    } else if (toolRegistry.size > 0 && !toolRegistry.has(target.toolName)) {
+      throw new Error(`Unknown tool: ${target.toolName}`);
+    }
+  }
+
+  /**
+   * Arm an active job, applying the misfire policy when its next run has passed
+   */
+  private async schedule(job: ScheduledJob): Promise<void> {
+    const due = job.nextRunAt;
+    if (!due) return;
+
+    const overdueMs = Date.now() - new Date(due).getTime();
+    if (overdueMs <= MISFIRE_GRACE_MS) {
+      this.arm({ ...job, nextRunAt: due });
+      return;
+    }
+
+    if (job.misfirePolicy === 'run_once') {
+      console.log(`[⏰ Scheduler] ${job.name} missed ${due}; running once now`);
+      void this.fire(job.id, due, true);
+      return;
+    }
+
+    // skip: record the miss and move on to the next scheduled time
+    const next = job.scheduleType === 'cron' ? nextCronTime(job.schedule).toISOString() : null;
+    const claimed = await updateJob(job.id, next ? { nextRunAt: next } : { nextRunAt: null, status: 'completed' }, { status: 'active', nextRunAt: due });
+    if (!claimed) return;
+    const timestamp = new Date().toISOString();
+    await recordJobRun({ jobId: job.id, scheduledFor: due, startedAt: timestamp, finishedAt: timestamp, status: 'skipped', misfired: true, error: 'Missed while the scheduler was not running (misfire policy: skip)' });
+    console.log(`[⏰ Scheduler] ${job.name} missed ${due}; skipped`);
+    if (next) this.arm({ ...job, nextRunAt: next });
+  }
+
+  private arm(job: ScheduledJob): void {
+    if (!job.nextRunAt) return;
+    this.disarm(job.id);
+    const scheduledFor = job.nextRunAt;
+    this.timers.set(job.id, setLongTimeout(new Date(scheduledFor).getTime(), () => {
+      this.timers.delete(job.id);
+      void this.fire(job.id, scheduledFor, false);
+    }));
+  }
+
+  private disarm(id: string): void {
+    this.timers.get(id)?.cancel();
+    this.timers.delete(id);
+  }
+
+  /**
+   * Claim a due firing, advance the schedule, then run the job
+   */
+  private async fire(id: string, scheduledFor: string, misfired: boolean): Promise<void> {
+    try {
+      const job = await getJob(id);
+      if (!job || job.status !== 'active') return;
+
+      const next = job.scheduleType === 'cron' ? nextCronTime(job.schedule).toISOString() : null;
+      // The guard on next_run_at makes sure only one process runs this firing
+      const claimed = await updateJob(
+        id,
+        next ? { nextRunAt: next, lastRunAt: new Date().toISOString() } : { nextRunAt: null, lastRunAt: new Date().toISOString(), status: 'completed' },
+        { status: 'active', nextRunAt: scheduledFor }
+      );
+      if (!claimed) return;
+
+      if (next) this.arm({ ...job, nextRunAt: next });
+      await this.execute(job, scheduledFor, misfired);
+    } catch (error) {
+      console.error(`[❌ Scheduler] Job ${id} could not fire:`, error);
+    }
+  }
+
+  /**
+   * Run the job's target and record the outcome
+   */
+  private async execute(job: ScheduledJob, scheduledFor: string, misfired: boolean): Promise<JobRun> {
+    const startedAt = new Date().toISOString();
+    if (this.running.has(job.id)) {
+      return recordJobRun({ jobId: job.id, scheduledFor, startedAt, finishedAt: startedAt, status: 'skipped', misfired, error: 'Previous run still in progress' });
+    }
+
+    this.running.add(job.id);
+    try {
+      const output = await this.runTarget(job.target);
+      const failure = toolFailure(output);
+      const run = await recordJobRun({
+        jobId: job.id,
+        scheduledFor,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        status: failure ? 'failed' : 'success',
+        misfired,
+        output,
+        error: failure,
+      });
+      console.log(`[⏰ Scheduler] ${job.name} ${run.status}`);
+      return run;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[❌ Scheduler] ${job.name} failed: ${message}`);
+      return recordJobRun({ jobId: job.id, scheduledFor, startedAt, finishedAt: new Date().toISOString(), status: 'failed', misfired, error: message });
+    } finally {
+      this.running.delete(job.id);
+    }
+  }
+
+  private async runTarget(target: JobTarget): Promise<unknown> {
+    const signal = AbortSignal.timeout(this.runTimeoutMs);
+
+    if (target.type === 'agent') {
+      const agent = agentRegistry[target.agentName as keyof typeof agentRegistry];
+      if (!agent) throw new Error(`Unknown agent: ${target.agentName}`);
+      const response = await agent.generateText(target.prompt, { userId: 'task-scheduler', signal });
+      return { text: response.text, usage: response.usage };
+    }
+
+    return toolRegistry.invoke(target.toolName, target.args, { signal });
+  }
+}
+
+// Export a singleton for global use
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,399 @@
+/**
+ * @fileoverview Layered configuration for the config_manager tool
+ *
+ * Values resolve through four layers, later layers winning:
+ *
+ * 1. defaults registered in code (`layeredConfig.register`)
+ * 2. the project config file (`voltmachines.config.yaml`, `.yml` or `.json`);
+ *    its `default` section applies to every environment and a section named
+ *    after the environment is applied on top
+ * 3. environment variables: `supervisor.maxSubAgents` is read from
+ *    `VOLTMACHINES_SUPERVISOR__MAX_SUB_AGENTS` (values are parsed as JSON when possible)
+ * 4. runtime overrides set through config_manager
+ *
+ * Keys are dotted paths; nested objects in the file are flattened into them.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import YAML from "yaml";
+
+export const CONFIG_FILE_CANDIDATES = ["voltmachines.config.yaml", "voltmachines.config.yml", "voltmachines.config.json"];
+export const CONFIG_ENV_PREFIX = "VOLTMACHINES_";
+export const configBackupDirectory = path.resolve("./data", "config", "backups");
+
+export type ConfigSource = 'default' | 'file' | 'env' | 'override';
+
+/**
+ * A resolved key, where its value came from and which layers it shadowed
+ */
+export interface ResolvedConfigValue {
+  key: string;
+  value: unknown;
+  source: ConfigSource;
+  /** File path or environment variable name the value was read from */
+  origin?: string;
+  /** Lower layers that also defined this key */
+  shadowed: ConfigSource[];
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  sections: Array<{ prefix: string; valid: boolean; issues: string[] }>;
+  /** Keys that no registered schema covers */
+  unvalidatedKeys: string[];
+}
+
+export interface ConfigDiffEntry {
+  key: string;
+  status: 'added' | 'removed' | 'changed';
+  from?: { value: unknown; source: ConfigSource };
+  to?: { value: unknown; source: ConfigSource };
+}
+
+interface ConfigBackup {
+  id: string;
+  environment: string;
+  createdAt: string;
+  reason?: string;
+  configFile?: { path: string; content: string };
+  overrides: Record<string, unknown>;
+  resolved: Record<string, { value: unknown; source: ConfigSource }>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Flatten nested objects into dotted keys; arrays and scalars are leaves
+ */
+export function flattenConfig(value: Record<string, unknown>, prefix = ""): Map<string, unknown> {
+  const flat = new Map<string, unknown>();
+  for (const [key, child] of Object.entries(value)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      for (const [nestedKey, nestedValue] of flattenConfig(child, fullKey)) flat.set(nestedKey, nestedValue);
+    } else {
+      flat.set(fullKey, child);
+    }
+  }
+  return flat;
+}
+
+/**
+ * Rebuild a nested object from dotted keys under `prefix`
+ */
+function unflatten(entries: Iterable<[string, unknown]>, prefix: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    if (key !== prefix && !key.startsWith(`${prefix}.`)) continue;
+    const parts = key === prefix ? [] : key.slice(prefix.length + 1).split(".");
+    if (parts.length === 0) continue;
+    let node = root;
+    for (const part of parts.slice(0, -1)) {
+      if (!isPlainObject(node[part])) node[part] = {};
+      node = node[part] as Record<string, unknown>;
+    }
+    node[parts[parts.length - 1]] = value;
+  }
+  return root;
+}
+
+/**
+ * Environment variable name for a config key
+ */
+export function envVarForKey(key: string): string {
+  return CONFIG_ENV_PREFIX + key
+    .split(".")
+    .map(part => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/[^A-Za-z0-9]/g, "_").toUpperCase())
+    .join("__");
+}
+
+function parseEnvValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * LayeredConfig: resolves configuration through defaults, file, environment
+ * variables and runtime overrides, recording the source of every value
+ */
+export class LayeredConfig {
+  private defaults = new Map<string, unknown>();
+  private schemas = new Map<string, z.ZodTypeAny>();
+  private overrides = new Map<string, Map<string, unknown>>();
+  private fileCache?: { path: string; mtimeMs: number; content: string; data: Record<string, unknown> };
+
+  constructor(private readonly rootDirectory = process.cwd()) {}
+
+  /**
+   * Register a schema (and optionally defaults) for the keys under `prefix`
+   *
+   * @example
+   *
+   * layeredConfig.register('supervisor', supervisorConfigSchema, { maxSubAgents: 15 });
+   *
+   */
+  register(prefix: string, schema: z.ZodTypeAny, defaults?: Record<string, unknown>): void {
+    this.schemas.set(prefix, schema);
+    if (defaults) {
+      for (const [key, value] of flattenConfig(defaults, prefix)) this.defaults.set(key, value);
+    }
+  }
+
+  /**
+   * Resolve every key for an environment
+   */
+  async resolve(environment = "default"): Promise<Map<string, ResolvedConfigValue>> {
+    const resolved = new Map<string, ResolvedConfigValue>();
+    const apply = (key: string, value: unknown, source: ConfigSource, origin?: string) => {
+      const previous = resolved.get(key);
+      resolved.set(key, {
+        key,
+        value,
+        source,
+        origin,
+        shadowed: previous ? [...previous.shadowed, previous.source] : [],
+      });
+    };
+
+    for (const [key, value] of this.defaults) apply(key, value, 'default');
+
+    const file = await this.readConfigFile();
+    if (file) {
+      const sections = [file.data.default, environment !== "default" ? file.data[environment] : undefined];
+      for (const section of sections) {
+        if (!isPlainObject(section)) continue;
+        for (const [key, value] of flattenConfig(section)) apply(key, value, 'file', file.path);
+      }
+    }
+
+    // Known keys map to their variable name; unknown prefixed variables map back by convention
+    const knownVars = new Map([...resolved.keys(), ...this.overrideMap(environment).keys()].map(key => [envVarForKey(key), key]));
+    for (const [name, raw] of Object.entries(process.env)) {
+      if (!name.startsWith(CONFIG_ENV_PREFIX) || raw === undefined) continue;
+      const key = knownVars.get(name) ?? name.slice(CONFIG_ENV_PREFIX.length).toLowerCase().split("__").join(".");
+      apply(key, parseEnvValue(raw), 'env', name);
+    }
+
+    for (const [key, value] of this.overrideMap(environment)) apply(key, value, 'override');
+    return resolved;
+  }
+
+  async get(key: string, environment = "default"): Promise<ResolvedConfigValue | undefined> {
+    return (await this.resolve(environment)).get(key);
+  }
+
+  /**
+   * Nested object of every key under `prefix`, for parsing with its schema
+   */
+  async getSection(prefix: string, environment = "default"): Promise<Record<string, unknown>> {
+    const resolved = await this.resolve(environment);
+    return unflatten([...resolved].map(([key, entry]) => [key, entry.value]), prefix);
+  }
+
+  /**
+   * Schema issues a value would cause for its key; empty when it is valid or
+   * no schema covers the key
+   */
+  async check(key: string, value: unknown, environment = "default"): Promise<string[]> {
+    const prefix = this.prefixFor(key);
+    if (!prefix) return [];
+    const resolved = await this.resolve(environment);
+    const entries = [...resolved].map(([k, entry]): [string, unknown] => [k, entry.value]);
+    entries.push([key, value]);
+    const result = this.schemas.get(prefix)!.safeParse(unflatten(entries, prefix));
+    const keyPath = key.slice(prefix.length + 1);
+    return result.success ? [] : result.error.issues.filter(issue => issue.path.join(".") === keyPath).map(issue => issue.message);
+  }
+
+  /**
+   * Set a runtime override. Rejected when it breaks the schema registered for the key.
+   */
+  async set(key: string, value: unknown, environment = "default"): Promise<ResolvedConfigValue> {
+    const issues = await this.check(key, value, environment);
+    if (issues.length > 0) throw new Error(`Invalid value for ${key}: ${issues.join("; ")}`);
+
+    this.overrideMap(environment).set(key, value);
+    return (await this.get(key, environment))!;
+  }
+
+  /**
+   * Remove a runtime override, exposing the value from the layers below
+   *
+   * @returns Whether an override existed
+   */
+  delete(key: string, environment = "default"): boolean {
+    return this.overrideMap(environment).delete(key);
+  }
+
+  /**
+   * Check each registered section against its schema
+   */
+  async validate(environment = "default"): Promise<ConfigValidationResult> {
+    const resolved = await this.resolve(environment);
+    const entries = [...resolved].map(([key, entry]): [string, unknown] => [key, entry.value]);
+
+    const sections = [...this.schemas].map(([prefix, schema]) => {
+      const result = schema.safeParse(unflatten(entries, prefix));
+      return {
+        prefix,
+        valid: result.success,
+        issues: result.success ? [] : result.error.issues.map(issue => `${[prefix, ...issue.path].join(".")}: ${issue.message}`),
+      };
+    });
+
+    return {
+      valid: sections.every(section => section.valid),
+      sections,
+      unvalidatedKeys: [...resolved.keys()].filter(key => !this.prefixFor(key)),
+    };
+  }
+
+  /**
+   * Keys that differ between two environments
+   */
+  async diff(fromEnvironment: string, toEnvironment: string): Promise<ConfigDiffEntry[]> {
+    const from = await this.resolve(fromEnvironment);
+    const to = await this.resolve(toEnvironment);
+    const keys = [...new Set([...from.keys(), ...to.keys()])].sort();
+    const diff: ConfigDiffEntry[] = [];
+
+    for (const key of keys) {
+      const a = from.get(key);
+      const b = to.get(key);
+      if (a && !b) diff.push({ key, status: 'removed', from: { value: a.value, source: a.source } });
+      else if (!a && b) diff.push({ key, status: 'added', to: { value: b.value, source: b.source } });
+      else if (a && b && JSON.stringify(a.value) !== JSON.stringify(b.value)) {
+        diff.push({ key, status: 'changed', from: { value: a.value, source: a.source }, to: { value: b.value, source: b.source } });
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Write the config file, this environment's overrides and the resolved
+   * values to a backup file
+   */
+  async backup(environment = "default", reason?: string): Promise<{ id: string; file: string }> {
+    const resolved = await this.resolve(environment);
+    const file = await this.readConfigFile();
+    const createdAt = new Date().toISOString();
+    const id = `${environment.replace(/[^\w-]/g, "_")}_${createdAt.replace(/[:.]/g, "-")}`;
+
+    const backup: ConfigBackup = {
+      id,
+      environment,
+      createdAt,
+      reason,
+      configFile: file ? { path: file.path, content: file.content } : undefined,
+      overrides: Object.fromEntries(this.overrideMap(environment)),
+      resolved: Object.fromEntries([...resolved].map(([key, entry]) => [key, { value: entry.value, source: entry.source }])),
+    };
+
+    await fs.mkdir(configBackupDirectory, { recursive: true });
+    const backupFile = path.join(configBackupDirectory, `${id}.json`);
+    await fs.writeFile(backupFile, JSON.stringify(backup, null, 2));
+    return { id, file: backupFile };
+  }
+
+  /**
+   * Backups for an environment (or all), newest first
+   */
+  async listBackups(environment?: string): Promise<Array<{ id: string; environment: string; createdAt: string; reason?: string }>> {
+    let names: string[];
+    try {
+      names = await fs.readdir(configBackupDirectory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const backups = await Promise.all(names.filter(name => name.endsWith(".json")).map(async name => {
+      const backup = JSON.parse(await fs.readFile(path.join(configBackupDirectory, name), "utf8")) as ConfigBackup;
+      return { id: backup.id, environment: backup.environment, createdAt: backup.createdAt, reason: backup.reason };
+    }));
+    return backups
+      .filter(backup => !environment || backup.environment === environment)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Restore a backup (the latest for the environment by default): the config
+   * file is rewritten from the backup and the overrides are replaced. The
+   * current state is backed up first.
+   */
+  async restore(environment = "default", backupId?: string): Promise<{ restored: string; preRestoreBackup: string; configFile?: string }> {
+    const id = backupId ?? (await this.listBackups(environment))[0]?.id;
+    if (!id) throw new Error(`No backups found for environment ${environment}`);
+
+    const backup = JSON.parse(
+      await fs.readFile(path.join(configBackupDirectory, `${path.basename(id)}.json`), "utf8")
+    ) as ConfigBackup;
+    if (backup.environment !== environment) {
+      throw new Error(`Backup ${id} belongs to environment ${backup.environment}, not ${environment}`);
+    }
+
+    const preRestore = await this.backup(environment, `before restoring ${id}`);
+
+    if (backup.configFile) {
+      await fs.writeFile(backup.configFile.path, backup.configFile.content);
+      this.fileCache = undefined;
+    }
+    this.overrides.set(environment, new Map(Object.entries(backup.overrides)));
+
+    return { restored: id, preRestoreBackup: preRestore.id, configFile: backup.configFile?.path };
+  }
+
+  private overrideMap(environment: string): Map<string, unknown> {
+    let map = this.overrides.get(environment);
+    if (!map) {
+      map = new Map();
+      this.overrides.set(environment, map);
+    }
+    return map;
+  }
+
+  /**
+   * Longest registered prefix covering a key
+   */
+  private prefixFor(key: string): string | undefined {
+    return [...this.schemas.keys()]
+      .filter(prefix => key.startsWith(`${prefix}.`))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+
+  /**
+   * Read and parse the first config file that exists, re-reading it only
+   * when it changes on disk
+   */
+  private async readConfigFile() {
+    for (const candidate of CONFIG_FILE_CANDIDATES) {
+      const filePath = path.join(this.rootDirectory, candidate);
+      let stat;
+      try {
+        stat = await fs.stat(filePath);
+      } catch {
+        continue;
+      }
+      if (this.fileCache?.path === filePath && this.fileCache.mtimeMs === stat.mtimeMs) return this.fileCache;
+
+      const content = await fs.readFile(filePath, "utf8");
+      const parsed = filePath.endsWith(".json") ? JSON.parse(content) : YAML.parse(content);
+      if (parsed !== null && parsed !== undefined && !isPlainObject(parsed)) {
+        throw new Error(`${candidate} must contain a mapping of environment sections`);
+      }
+      this.fileCache = { path: filePath, mtimeMs: stat.mtimeMs, content, data: parsed ?? {} };
+      return this.fileCache;
+    }
+    this.fileCache = undefined;
+    return undefined;
+  }
+}
+
+// Export a singleton for global use
+export const layeredConfig = new LayeredConfig();
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Lessons learned: recording reflections and recalling them for similar tasks
+ *
+ * The reflect tool records lessons here. Each lesson is embedded with the
+ * VectorMemory model when it is written; before an agent starts a delegated
+ * task or plan step, the active lessons for that agent are scored against
+ * the task and the closest ones are added to its prompt.
+ */
+
+import { agentRegistry } from "../agents/index.js";
+import { vectorMemory, cosineSimilarity } from "../memory/vectorMemory.js";
+import {
+  createLesson,
+  getLesson,
+  listActiveLessonEmbeddings,
+  listLessons,
+  markLessonsApplied,
+  retireLesson,
+  updateLesson,
+  type Lesson,
+  type LessonFilters,
+  type LessonInput,
+} from "../memory/lessonStore.js";
+
+/** Agent name for lessons about the supervisor's own work */
+export const SUPERVISOR_AGENT = 'supervisor';
+
+export interface LessonMatch {
+  lesson: Lesson;
+  /** Cosine similarity between the task and the lesson */
+  score: number;
+}
+
+export interface FindLessonsOptions {
+  agent: string;
+  taskType?: string;
+  limit?: number;
+  minScore?: number;
+}
+
+/**
+ * Lower-case task types with underscores so "Code review" and "code_review" match
+ */
+export function normalizeTaskType(taskType: string): string {
+  return taskType.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Text a lesson is embedded from; tasks are compared against its situation
+ */
+function lessonText(lesson: Pick<LessonInput, 'taskType' | 'situation' | 'whatHappened'>): string {
+  return `${lesson.taskType.replace(/_/g, ' ')}: ${lesson.situation}\n${lesson.whatHappened}`;
+}
+
+/**
+ * LessonsLearned: lesson bookkeeping and retrieval for agent prompts
+ */
+export class LessonsLearned {
+  /** Lessons added to one prompt */
+  defaultLimit = 3;
+  /** Minimum similarity for a lesson to count as relevant */
+  defaultMinScore = 0.45;
+
+  /**
+   * Names lessons can be tagged with: registry agents and the supervisor
+   */
+  agentNames(): string[] {
+    return [SUPERVISOR_AGENT, ...Object.keys(agentRegistry)];
+  }
+
+  async record(input: LessonInput): Promise<Lesson> {
+    this.assertAgent(input.agent);
+    const lesson = { ...input, taskType: normalizeTaskType(input.taskType) };
+    return createLesson(lesson, await vectorMemory.embed(lessonText(lesson)), vectorMemory.model);
+  }
+
+  /**
+   * Change a lesson; it is re-embedded when its situation, outcome text or task type change
+   */
+  async edit(id: string, changes: Partial<Omit<LessonInput, 'agent'>> & { agent?: string | null }): Promise<Lesson> {
+    const current = await getLesson(id);
+    if (!current) throw new Error(`Lesson not found: ${id}`);
+    if (changes.agent) this.assertAgent(changes.agent);
+
+    const normalized = { ...changes, taskType: changes.taskType === undefined ? undefined : normalizeTaskType(changes.taskType) };
+    const textChanged = [normalized.taskType, normalized.situation, normalized.whatHappened].some(value => value !== undefined);
+    const embedding = textChanged
+      ? { vector: await vectorMemory.embed(lessonText({ ...current, ...stripUndefined(normalized) })), model: vectorMemory.model }
+      : undefined;
+    return (await updateLesson(id, normalized, embedding))!;
+  }
+
+  async retire(id: string, reason: string): Promise<Lesson> {
+    const current = await getLesson(id);
+    if (!current) throw new Error(`Lesson not found: ${id}`);
+    if (current.status === 'retired') throw new Error(`Lesson ${id} is already retired`);
+    return (await retireLesson(id, reason))!;
+  }
+
+  list(filters: LessonFilters = {}): Promise<Lesson[]> {
+    return listLessons({ ...filters, taskType: filters.taskType === undefined ? undefined : normalizeTaskType(filters.taskType) });
+  }
+
+  /**
+   * Active lessons for the agent ranked by similarity to the task, best first
+   */
+  async find(task: string, options: FindLessonsOptions): Promise<LessonMatch[]> {
+    const candidates = (await listActiveLessonEmbeddings(options.agent, options.taskType && normalizeTaskType(options.taskType)))
+      // Vectors from another model are not comparable
+      .filter(lesson => lesson.embeddingModel === vectorMemory.model);
+    if (candidates.length === 0) return [];
+
+    const taskEmbedding = await vectorMemory.embed(task);
+    const minScore = options.minScore ?? this.defaultMinScore;
+    return candidates
+      .map(({ lesson, embedding }) => ({ lesson, score: cosineSimilarity(taskEmbedding, embedding) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? this.defaultLimit);
+  }
+
+  /**
+   * Prompt section with the lessons relevant to a task, or '' when there are none
+   *
+   * Never throws: a missing embedding model or database problem only means
+   * the agent runs without lessons.
+   */
+  async contextFor(agent: string, task: string): Promise<string> {
+    try {
+      const matches = await this.find(task, { agent });
+      if (matches.length === 0) return '';
+      await markLessonsApplied(matches.map(match => match.lesson.id));
+      return `Lessons from similar earlier tasks (follow these rules unless the task says otherwise):
+${matches.map(({ lesson }) => `- ${lesson.rule} (${lesson.outcome === 'went_wrong' ? 'learned when' : 'worked when'}: ${lesson.situation})`).join('\n')}`;
+    } catch (error) {
+      console.warn(`[📓 Lessons] Could not load lessons for ${agent}:`, error instanceof Error ? error.message : error);
+      return '';
+    }
+  }
+
+  private assertAgent(agent: string | undefined): void {
+    if (agent !== undefined && !this.agentNames().includes(agent)) {
+      throw new Error(`Unknown agent: ${agent}. Available: ${this.agentNames().join(', ')}`);
+    }
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+// Export a singleton for global use
+export const lessonsLearned = new LessonsLearned();
@@ -0,0 +1,508 @@
+/**
+ * @fileoverview Log parsing and statistical analysis for the log_analyzer tool
+ *
+ * Lines are parsed as JSON, logfmt, syslog (RFC 5424 / RFC 3164) or
+ * nginx/Apache combined access logs, falling back to plain text with a leading
+ * timestamp. Messages are clustered into templates by masking variable tokens
+ * and merging near-identical token sequences, and per-window rates are scored
+ * with z-scores to flag spikes.
+ */
+
+export const logLevels = ['debug', 'info', 'warn', 'error', 'fatal'] as const;
+export type LogLevel = typeof logLevels[number];
+
+export const logFormats = ['json', 'logfmt', 'syslog', 'combined', 'plain'] as const;
+export type LogFormat = typeof logFormats[number];
+
+/**
+ * One parsed log line
+ */
+export interface ParsedLogEntry {
+  line: number;
+  raw: string;
+  format: LogFormat;
+  timestamp?: Date;
+  level?: LogLevel;
+  source?: string;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * A cluster of messages sharing one template; variable tokens are `<*>`
+ */
+export interface LogTemplate {
+  template: string;
+  count: number;
+  levels: Partial<Record<LogLevel, number>>;
+  example: string;
+  firstLine: number;
+}
+
+/**
+ * Message count in one time window, with its z-scores against all windows
+ */
+export interface LogWindow {
+  start: string;
+  end: string;
+  count: number;
+  errorCount: number;
+  zScore: number;
+  errorZScore: number;
+  flagged: boolean;
+  reasons: string[];
+}
+
+// ============================================================================
+// LEVELS AND TIMESTAMPS
+// ============================================================================
+
+/**
+ * Map level names, pino-style numbers and syslog severities onto LogLevel
+ */
+export function normalizeLevel(value: unknown): LogLevel | undefined {
+  if (typeof value === 'number') {
+    // pino/bunyan: 10 trace, 20 debug, 30 info, 40 warn, 50 error, 60 fatal
+    if (value >= 60) return 'fatal';
+    if (value >= 50) return 'error';
+    if (value >= 40) return 'warn';
+    if (value >= 30) return 'info';
+    return 'debug';
+  }
+  if (typeof value !== 'string') return undefined;
+  const level = value.trim().toLowerCase();
+  if (/^\d+$/.test(level)) return normalizeLevel(Number(level));
+  if (['trace', 'debug', 'verbose', 'silly'].includes(level)) return 'debug';
+  if (['info', 'information', 'notice', 'log', 'http'].includes(level)) return 'info';
+  if (['warn', 'warning'].includes(level)) return 'warn';
+  if (['error', 'err', 'severe'].includes(level)) return 'error';
+  if (['fatal', 'critical', 'crit', 'alert', 'emerg', 'emergency', 'panic'].includes(level)) return 'fatal';
+  return undefined;
+}
+
+/**
+ * Syslog severity (0-7) to LogLevel
+ */
+function syslogSeverityToLevel(severity: number): LogLevel {
+  if (severity <= 2) return 'fatal';
+  if (severity === 3) return 'error';
+  if (severity === 4) return 'warn';
+  if (severity <= 6) return 'info';
+  return 'debug';
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Parse ISO-8601, epoch seconds/milliseconds and the common log format
+ * (`10/Oct/2000:13:55:36 -0700`)
+ */
+export function parseTimestamp(value: unknown): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value === 'number') {
+    // Heuristic: anything below 1e12 is epoch seconds
+    const date = new Date(value < 1e12 ? value * 1000 : value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (typeof value !== 'string' || value.length === 0) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) return parseTimestamp(Number(value));
+
+  const clf = value.match(/^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (clf) {
+    const [, day, month, year, hh, mm, ss, tzH, tzM] = clf;
+    const monthIndex = MONTHS.indexOf(month);
+    if (monthIndex < 0) return undefined;
+    return new Date(`${year}-${String(monthIndex + 1).padStart(2, '0')}-${day}T${hh}:${mm}:${ss}${tzH}:${tzM}`);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * RFC 3164 timestamps carry no year; assume the most recent past occurrence
+ */
+function parseSyslogDate(value: string, now = new Date()): Date | undefined {
+  const match = value.match(/^(\w{3})\s+(\d{1,2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const monthIndex = MONTHS.indexOf(match[1]);
+  if (monthIndex < 0) return undefined;
+  const date = new Date(now.getFullYear(), monthIndex, Number(match[2]), Number(match[3]), Number(match[4]), Number(match[5]));
+  if (date.getTime() > now.getTime() + 24 * 60 * 60 * 1000) date.setFullYear(date.getFullYear() - 1);
+  return date;
+}
+
+// ============================================================================
+// FORMAT PARSERS
+// ============================================================================
+
+const pick = (fields: Record<string, unknown>, keys: string[]) => {
+  for (const key of keys) {
+    if (fields[key] !== undefined && fields[key] !== null && fields[key] !== '') return fields[key];
+  }
+  return undefined;
+};
+
+const TIME_KEYS = ['timestamp', '@timestamp', 'time', 'ts', 'date', 'datetime', 't'];
+const LEVEL_KEYS = ['level', 'severity', 'lvl', 'loglevel', 'log.level', 'levelname'];
+const MESSAGE_KEYS = ['msg', 'message', 'event', 'text', 'log'];
+const SOURCE_KEYS = ['source', 'logger', 'service', 'component', 'module', 'name', 'app'];
+
+function fromStructuredFields(line: number, raw: string, format: LogFormat, fields: Record<string, unknown>): ParsedLogEntry {
+  const message = pick(fields, MESSAGE_KEYS);
+  const source = pick(fields, SOURCE_KEYS);
+  return {
+    line,
+    raw,
+    format,
+    timestamp: parseTimestamp(pick(fields, TIME_KEYS)),
+    level: normalizeLevel(pick(fields, LEVEL_KEYS)),
+    source: source === undefined ? undefined : String(source),
+    message: message === undefined ? raw : typeof message === 'string' ? message : JSON.stringify(message),
+    fields,
+  };
+}
+
+function parseJsonLine(line: number, raw: string): ParsedLogEntry | undefined {
+  if (!raw.trimStart().startsWith('{')) return undefined;
+  try {
+    const value = JSON.parse(raw);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    return fromStructuredFields(line, raw, 'json', value as Record<string, unknown>);
+  } catch {
+    return undefined;
+  }
+}
+
+const LOGFMT_PAIR = /([\w.@-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+function parseLogfmtLine(line: number, raw: string): ParsedLogEntry | undefined {
+  const fields: Record<string, unknown> = {};
+  let covered = 0;
+  for (const match of raw.matchAll(LOGFMT_PAIR)) {
+    const [pair, key, rawValue] = match;
+    fields[key] = rawValue.startsWith('"') ? rawValue.slice(1, -1).replace(/\\(.)/g, '$1') : rawValue;
+    covered += pair.length;
+  }
+  // Require mostly key=value content so prose with an "a=b" is not misread
+  const nonSpace = raw.replace(/\s+/g, '').length;
+  if (Object.keys(fields).length < 2 || covered < nonSpace * 0.8) return undefined;
+  return fromStructuredFields(line, raw, 'logfmt', fields);
+}
+
+const SYSLOG_5424 = /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[.*?\])+) ?(.*)$/;
+const SYSLOG_3164 = /^(?:<(\d{1,3})>)?(\w{3}\s+\d{1,2} \d{2}:\d{2}:\d{2}) (\S+) ([^\s:[]+)(?:\[(\d+)\])?: ?(.*)$/;
+
+function parseSyslogLine(line: number, raw: string): ParsedLogEntry | undefined {
+  const rfc5424 = raw.match(SYSLOG_5424);
+  if (rfc5424) {
+    const [, pri, timestamp, host, app, procId, msgId, structuredData, message] = rfc5424;
+    return {
+      line,
+      raw,
+      format: 'syslog',
+      timestamp: parseTimestamp(timestamp),
+      level: syslogSeverityToLevel(Number(pri) % 8),
+      source: app === '-' ? host : app,
+      message,
+      fields: { facility: Math.floor(Number(pri) / 8), host, app, procId, msgId, structuredData },
+    };
+  }
+
+  const rfc3164 = raw.match(SYSLOG_3164);
+  if (rfc3164) {
+    const [, pri, timestamp, host, tag, pid, message] = rfc3164;
+    return {
+      line,
+      raw,
+      format: 'syslog',
+      timestamp: parseSyslogDate(timestamp),
+      // Without a PRI, fall back to level words in the message
+      level: pri ? syslogSeverityToLevel(Number(pri) % 8) : detectLevelWord(message),
+      source: tag,
+      message,
+      fields: { facility: pri ? Math.floor(Number(pri) / 8) : undefined, host, tag, pid },
+    };
+  }
+  return undefined;
+}
+
+// remote ident user [time] "request" status bytes "referer" "agent" [extra...]
+const COMBINED = /^(\S+) (\S+) (\S+) \[([^\]]+)\] "([^"]*)" (\d{3}) (\d+|-)(?: "([^"]*)" "([^"]*)")?(?: (.*))?$/;
+
+function parseCombinedLine(line: number, raw: string): ParsedLogEntry | undefined {
+  const match = raw.match(COMBINED);
+  if (!match) return undefined;
+  const [, remote, , user, time, request, statusText, bytes, referer, userAgent, extra] = match;
+  const [method, requestPath, protocol] = request.split(' ');
+  const status = Number(statusText);
+
+  // nginx configs often append $request_time (seconds) after the user agent
+  const requestTime = extra?.match(/(?:^|\s)(\d+\.\d+)(?:\s|$)/)?.[1];
+
+  return {
+    line,
+    raw,
+    format: 'combined',
+    timestamp: parseTimestamp(time),
+    level: status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info',
+    source: remote,
+    message: `${method ?? '-'} ${requestPath ?? '-'} ${status}`,
+    fields: {
+      remote,
+      user: user === '-' ? undefined : user,
+      method,
+      path: requestPath,
+      protocol,
+      status,
+      bytes: bytes === '-' ? 0 : Number(bytes),
+      referer: referer === '-' ? undefined : referer,
+      userAgent,
+      ...(requestTime ? { durationMs: Number(requestTime) * 1000 } : {}),
+    },
+  };
+}
+
+function detectLevelWord(text: string): LogLevel | undefined {
+  const match = text.match(/\b(TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERROR|ERR|FATAL|CRIT(?:ICAL)?|PANIC)\b/i);
+  return match ? normalizeLevel(match[1]) : undefined;
+}
+
+const PLAIN_TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*/;
+
+function parsePlainLine(line: number, raw: string): ParsedLogEntry {
+  let rest = raw;
+  let timestamp: Date | undefined;
+  const time = rest.match(PLAIN_TIMESTAMP);
+  if (time) {
+    timestamp = parseTimestamp(time[1].replace(',', '.').replace(' ', 'T'));
+    rest = rest.slice(time[0].length);
+  }
+
+  const level = detectLevelWord(rest.slice(0, 40));
+  rest = rest.replace(/^\[?(TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERROR|ERR|FATAL|CRIT(?:ICAL)?|PANIC)\]?:?\s*/i, '');
+
+  // "[source]" or "source:" prefix
+  const source = rest.match(/^\[([^\]]+)\]\s*/) ?? rest.match(/^([\w.-]+):\s+/);
+  if (source) rest = rest.slice(source[0].length);
+
+  return { line, raw, format: 'plain', timestamp, level, source: source?.[1], message: rest || raw, fields: {} };
+}
+
+const PARSERS: Record<Exclude<LogFormat, 'plain'>, (line: number, raw: string) => ParsedLogEntry | undefined> = {
+  json: parseJsonLine,
+  combined: parseCombinedLine,
+  syslog: parseSyslogLine,
+  logfmt: parseLogfmtLine,
+};
+
+/**
+ * Parse one line. With format 'auto' every parser is tried in turn, most
+ * specific first, falling back to plain text.
+ */
+export function parseLogLine(raw: string, line: number, format: LogFormat | 'auto' = 'auto'): ParsedLogEntry {
+  if (format === 'plain') return parsePlainLine(line, raw);
+  if (format !== 'auto') return PARSERS[format](line, raw) ?? parsePlainLine(line, raw);
+
+  for (const parse of Object.values(PARSERS)) {
+    const entry = parse(line, raw);
+    if (entry) return entry;
+  }
+  return parsePlainLine(line, raw);
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const VARIABLE_TOKEN = [
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,   // UUID
+  /^\d{1,3}(\.\d{1,3}){3}(:\d+)?$/,                                    // IPv4[:port]
+  /^(0x)?[0-9a-f]{12,}$/i,                                             // hashes, long hex IDs
+  /^[-+]?\d+([.,:]\d+)*(ms|s|m|h|kb|mb|gb|b|%)?$/i,                     // numbers, durations, sizes
+  /^(\/[^/\s]+){2,}\/?$/,                                              // paths
+  /^https?:\/\//i,                                                     // URLs
+  /^["'].*["']$/,                                                      // quoted values
+  /^\w+=\S+$/,                                                         // key=value pairs
+];
+
+/**
+ * Mask tokens that look like variables (IDs, numbers, paths, ...)
+ */
+function tokenize(message: string): string[] {
+  return message
+    .trim()
+    .split(/\s+/)
+    .map(token => {
+      const bare = token.replace(/^[([{<]+|[)\]}>,;.]+$/g, '');
+      return bare.length > 0 && VARIABLE_TOKEN.some(pattern => pattern.test(bare)) ? '<*>' : token;
+    });
+}
+
+/**
+ * Cluster messages into templates. Messages with the same token count are
+ * merged when at least `similarity` of their tokens match position by
+ * position; positions that differ become `<*>`.
+ */
+export function clusterTemplates(entries: ParsedLogEntry[], similarity = 0.6): LogTemplate[] {
+  const clusters = new Map<number, Array<{ tokens: string[]; template: LogTemplate }>>();
+
+  for (const entry of entries) {
+    const tokens = tokenize(entry.message);
+    const candidates = clusters.get(tokens.length) ?? [];
+
+    let best: { tokens: string[]; template: LogTemplate } | undefined;
+    let bestScore = -1;
+    for (const candidate of candidates) {
+      const same = candidate.tokens.filter((token, i) => token === tokens[i]).length;
+      const score = tokens.length === 0 ? 1 : same / tokens.length;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= similarity) {
+      best.tokens = best.tokens.map((token, i) => (token === tokens[i] ? token : '<*>'));
+      best.template.template = best.tokens.join(' ');
+      best.template.count++;
+      if (entry.level) best.template.levels[entry.level] = (best.template.levels[entry.level] ?? 0) + 1;
+    } else {
+      candidates.push({
+        tokens,
+        template: {
+          template: tokens.join(' '),
+          count: 1,
+          levels: entry.level ? { [entry.level]: 1 } : {},
+          example: entry.message,
+          firstLine: entry.line,
+        },
+      });
+      clusters.set(tokens.length, candidates);
+    }
+  }
+
+  return [...clusters.values()].flat().map(c => c.template).sort((a, b) => b.count - a.count);
+}
+
+// ============================================================================
+// TIME WINDOWS
+// ============================================================================
+
+const isErrorLevel = (level?: LogLevel) => level === 'error' || level === 'fatal';
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+const stddev = (values: number[], avg: number) =>
+  Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / Math.max(1, values.length));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Upper bound on windows; longer spans get wider windows
+const MAX_WINDOWS = 10_000;
+
+/**
+ * Below this many entries every template looks rare, so none are reported as rare
+ */
+export const MIN_ENTRIES_FOR_RARE_TEMPLATES = 20;
+
+/**
+ * Bucket timestamped entries into fixed windows (empty windows included) and
+ * flag windows whose total or error count has a z-score at or above the threshold
+ *
+ * When the entries span more than MAX_WINDOWS windows, the window is widened
+ * to whole seconds so the span fits; the windows' start and end show the size used.
+ */
+export function analyzeWindows(entries: ParsedLogEntry[], requestedWindowMs: number, zThreshold: number): LogWindow[] {
+  const timed = entries.filter(entry => entry.timestamp);
+  if (timed.length === 0) return [];
+
+  let earliest = Infinity;
+  let latest = -Infinity;
+  for (const entry of timed) {
+    const time = entry.timestamp!.getTime();
+    if (time < earliest) earliest = time;
+    if (time > latest) latest = time;
+  }
+  const minWindowMs = (latest - earliest + 1) / (MAX_WINDOWS - 1);
+  const windowMs = requestedWindowMs >= minWindowMs ? requestedWindowMs : Math.ceil(minWindowMs / 1000) * 1000;
+  const first = Math.floor(earliest / windowMs) * windowMs;
+  const last = Math.floor(latest / windowMs) * windowMs;
+  const windowCount = Math.round((last - first) / windowMs) + 1;
+
+  const counts = new Array<number>(windowCount).fill(0);
+  const errorCounts = new Array<number>(windowCount).fill(0);
+  for (const entry of timed) {
+    const index = Math.floor((entry.timestamp!.getTime() - first) / windowMs);
+    counts[index]++;
+    if (isErrorLevel(entry.level)) errorCounts[index]++;
+  }
+
+  const avg = mean(counts);
+  const sd = stddev(counts, avg);
+  const errorAvg = mean(errorCounts);
+  const errorSd = stddev(errorCounts, errorAvg);
+
+  return counts.map((count, i) => {
+    const zScore = sd > 0 ? (count - avg) / sd : 0;
+    const errorZScore = errorSd > 0 ? (errorCounts[i] - errorAvg) / errorSd : 0;
+    const reasons: string[] = [];
+    if (zScore >= zThreshold) reasons.push(`rate spike: ${count} entries vs mean ${round(avg)} (z=${round(zScore)})`);
+    if (errorZScore >= zThreshold) reasons.push(`error spike: ${errorCounts[i]} errors vs mean ${round(errorAvg)} (z=${round(errorZScore)})`);
+    if (zScore <= -zThreshold) reasons.push(`rate drop: ${count} entries vs mean ${round(avg)} (z=${round(zScore)})`);
+    return {
+      start: new Date(first + i * windowMs).toISOString(),
+      end: new Date(first + (i + 1) * windowMs).toISOString(),
+      count,
+      errorCount: errorCounts[i],
+      zScore: round(zScore),
+      errorZScore: round(errorZScore),
+      flagged: reasons.length > 0,
+      reasons,
+    };
+  });
+}
+
+/**
+ * Least-squares slope of window counts, in entries per window
+ */
+export function countTrend(windows: LogWindow[]): number {
+  if (windows.length < 2) return 0;
+  const xs = windows.map((_, i) => i);
+  const ys = windows.map(w => w.count);
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  const numerator = xs.reduce((sum, x, i) => sum + (x - xMean) * (ys[i] - yMean), 0);
+  const denominator = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  return denominator > 0 ? round(numerator / denominator) : 0;
+}
+
+// ============================================================================
+// DURATIONS
+// ============================================================================
+
+const DURATION_FIELDS = ['durationMs', 'duration_ms', 'duration', 'latency', 'latency_ms', 'response_time', 'responseTime', 'request_time', 'elapsed', 'took', 'rt'];
+
+/**
+ * Extract a duration in milliseconds from structured fields or the message text
+ */
+export function extractDurationMs(entry: ParsedLogEntry): number | undefined {
+  for (const key of DURATION_FIELDS) {
+    const value = entry.fields[key];
+    if (value === undefined || value === null || value === '') continue;
+    const parsed = parseDuration(String(value), key.endsWith('time') && !/ms/i.test(key) ? 's' : 'ms');
+    if (parsed !== undefined) return parsed;
+  }
+  const match = entry.message.match(/(\d+(?:\.\d+)?)\s?(ms|s)\b/i);
+  return match ? parseDuration(match[0], 'ms') : undefined;
+}
+
+function parseDuration(value: string, defaultUnit: 'ms' | 's'): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s?(ms|s|us|µs)?$/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  switch ((match[2] ?? defaultUnit).toLowerCase()) {
+    case 's': return amount * 1000;
+    case 'us':
+    case 'µs': return amount / 1000;
+    default: return amount;
+  }
+}
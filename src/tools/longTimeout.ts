@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Timers for times further ahead than setTimeout allows
+ *
+ * setTimeout cannot wait longer than 2^31 - 1 ms (~24.8 days). setLongTimeout
+ * waits in steps of at most that long until the due time has passed. Timers
+ * are unref'd, so a pending one does not keep the process alive.
+ */
+
+const MAX_TIMER_MS = 2_147_483_647;
+
+export interface LongTimeout {
+  cancel(): void;
+}
+
+/**
+ * Call `fn` once at `due` (epoch milliseconds), or right away if it has passed
+ */
+export function setLongTimeout(due: number, fn: () => void): LongTimeout {
+  let timer: NodeJS.Timeout;
+  const wait = () => {
+    const delay = Math.max(0, due - Date.now());
+    timer = setTimeout(delay > MAX_TIMER_MS ? wait : fn, Math.min(delay, MAX_TIMER_MS));
+    timer.unref();
+  };
+  wait();
+  return { cancel: () => clearTimeout(timer) };
+}
@@ -238,6 +238,17 @@ export async function getFilesystemTools() {
   }
 }
 
+/**
+ * MCP configurations by server name, used by the health probes
+ */
+export const mcpServers = {
+  filesystem: filesystemMCP,
+  exa: exaSearchMCP,
+  winterm: wintermMCP,
+  gitingest: gitingestMCP,
+  markdownDownloader: markdownDownloaderMCP,
+};
+
 /**
  * Initialize all MCP configurations
  * Sets up filesystem, Composio, and other external tool integrations
@@ -0,0 +1,618 @@
+/**
+ * @fileoverview Notification delivery for the notification_system tool
+ *
+ * Channels:
+ * - webhook: JSON POST signed with HMAC-SHA256, retried with backoff
+ * - slack: incoming-webhook POST, retried with backoff
+ * - file: append-only JSONL inbox under the data directory
+ * - console: formatted terminal output
+ * - email: SMTP (plain, STARTTLS or implicit TLS, optional AUTH); the defaults
+ *   target a local stand-in server such as MailHog on localhost:1025
+ * - agent: the message is sent to each recipient agent as a prompt
+ *
+ * Settings live in the `notifications` config section (see layeredConfig);
+ * secret values may be `{ $secret: name }` references into the secret vault.
+ * Every attempt is stored as a delivery record, and scheduled sends are
+ * re-armed from the store on start, so they survive restarts.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as tls from "node:tls";
+import { z } from "zod";
+import { agentRegistry } from "../agents/index.js";
+import { layeredConfig } from "./layeredConfig.js";
+import { setLongTimeout, type LongTimeout } from "./longTimeout.js";
+import { resolveSecretValue, secretValueSchema, type SecretValue } from "./secretVault.js";
+import {
+  createNotification,
+  getNotification,
+  getTemplate,
+  listDeliveries,
+  listScheduledNotifications,
+  recordDelivery,
+  updateNotificationStatus,
+  type DeliveryRecord,
+  type NotificationRecord,
+} from "../memory/notificationStore.js";
+
+export const notificationChannels = ['email', 'slack', 'webhook', 'console', 'file', 'agent'] as const;
+export type NotificationChannel = typeof notificationChannels[number];
+
+/**
+ * Channel settings schema (config section `notifications`)
+ */
+export const notificationSettingsSchema = z.object({
+  // Backoff for the webhook, slack and email channels; the delay doubles after each attempt
+  retry: z.object({
+    maxAttempts: z.number().int().positive().default(3),
+    initialDelayMs: z.number().int().positive().default(500),
+  }).default({}),
+  webhook: z.object({
+    url: z.string().url().optional(),
+    secret: secretValueSchema.optional(),
+    timeoutMs: z.number().int().positive().default(10000),
+  }).default({}),
+  slack: z.object({
+    webhookUrl: secretValueSchema.optional(),
+    timeoutMs: z.number().int().positive().default(10000),
+  }).default({}),
+  file: z.object({
+    inbox: z.string().default(path.resolve("./data", "notifications", "inbox.jsonl")),
+  }).default({}),
+  smtp: z.object({
+    host: z.string().default("localhost"),
+    port: z.number().int().positive().default(1025),
+    secure: z.boolean().default(false),
+    user: z.string().optional(),
+    password: secretValueSchema.optional(),
+    from: z.string().default(`voltmachines@${os.hostname()}`),
+    timeoutMs: z.number().int().positive().default(15000),
+  }).default({}),
+});
+
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+
+layeredConfig.register('notifications', notificationSettingsSchema, notificationSettingsSchema.parse({}));
+
+/**
+ * What to send; `message`/`subject` may contain `{{variable}}` placeholders
+ */
+export interface NotificationInput {
+  channel: NotificationChannel;
+  recipients: string[];
+  message?: string;
+  subject?: string;
+  template?: string;
+  variables?: Record<string, unknown>;
+  priority: string;
+}
+
+/**
+ * Replace `{{name}}` / `{{nested.path}}` placeholders. Every placeholder must resolve.
+ */
+export function renderTemplate(text: string, variables: Record<string, unknown> = {}): string {
+  const missing = new Set<string>();
+  const rendered = text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    const value = name.split(".").reduce<unknown>(
+      (node, part) => (node !== null && typeof node === "object" ? (node as Record<string, unknown>)[part] : undefined),
+      variables
+    );
+    if (value === undefined || value === null) {
+      missing.add(name);
+      return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+  if (missing.size > 0) throw new Error(`Missing template variables: ${[...missing].join(", ")}`);
+  return rendered;
+}
+
+function resolveSecret(value: SecretValue | undefined): Promise<string | undefined> {
+  return resolveSecretValue(value, "notification_system");
+}
+
+/**
+ * A failed attempt; `retryable` decides whether another attempt is made
+ */
+class DeliveryError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly responseCode?: number) {
+    super(message);
+    this.name = "DeliveryError";
+  }
+}
+
+interface AttemptResult {
+  responseCode?: number;
+  detail?: string;
+}
+
+// ============================================================================
+// HTTP CHANNELS
+// ============================================================================
+
+/**
+ * POST a JSON body. Network errors, timeouts, 429 and 5xx are retryable.
+ */
+async function postJson(url: string, body: string, headers: Record<string, string>, timeoutMs: number): Promise<AttemptResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new DeliveryError(error instanceof Error ? error.message : String(error), true);
+  }
+  const text = (await response.text().catch(() => "")).slice(0, 500);
+  if (!response.ok) {
+    throw new DeliveryError(`HTTP ${response.status}: ${text}`, response.status === 429 || response.status >= 500, response.status);
+  }
+  return { responseCode: response.status, detail: text || undefined };
+}
+
+/**
+ * Sign `<timestamp>.<body>` so receivers can verify origin and reject replays
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads CRLF-terminated SMTP replies (including multi-line ones) from a socket
+ */
+class SmtpReader {
+  private buffer = "";
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+  private socket?: net.Socket;
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+    this.flush();
+  };
+
+  private onError = (error: Error) => {
+    this.failure = error;
+    this.flush();
+  };
+
+  private onClose = () => this.onError(new Error("SMTP connection closed"));
+
+  attach(socket: net.Socket): void {
+    this.socket?.off("data", this.onData).off("error", this.onError).off("close", this.onClose);
+    this.socket = socket;
+    socket.on("data", this.onData).on("error", this.onError).on("close", this.onClose);
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (!this.waiter) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve(reply);
+    } else if (this.failure) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(this.failure);
+    }
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+/**
+ * Send one plain-text message over SMTP
+ */
+export async function sendSmtpMail(
+  settings: NotificationSettings["smtp"] & { password?: string },
+  mail: { to: string[]; subject: string; text: string; priority?: string }
+): Promise<AttemptResult> {
+  // A CR or LF would let an address inject SMTP commands or headers
+  const unsafe = [settings.from, ...mail.to].find(value => /[\r\n]/.test(value));
+  if (unsafe !== undefined) throw new DeliveryError(`Invalid email address: ${JSON.stringify(unsafe)}`, false);
+
+  const connect = () => new Promise<net.Socket>((resolve, reject) => {
+    const socket = settings.secure
+      ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host }, () => resolve(socket))
+      : net.connect({ host: settings.host, port: settings.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+
+  let socket: net.Socket;
+  try {
+    socket = await connect();
+  } catch (error) {
+    throw new DeliveryError(`SMTP connect to ${settings.host}:${settings.port} failed: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
+  socket.setTimeout(settings.timeoutMs, () => socket.destroy(new Error("SMTP timeout")));
+
+  const reader = new SmtpReader();
+  reader.attach(socket);
+
+  const expect = async (command: string | null, codes: number[]): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      const shown = command?.startsWith("AUTH") ? "AUTH" : command ?? "greeting";
+      // 4xx replies are transient per RFC 5321
+      throw new DeliveryError(`SMTP ${shown} rejected: ${reply.code} ${reply.lines.join(" ")}`, reply.code >= 400 && reply.code < 500, reply.code);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, [220]);
+    const heloName = os.hostname();
+    let ehlo = await expect(`EHLO ${heloName}`, [250]);
+
+    if (!settings.secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await expect("STARTTLS", [220]);
+      socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+        const secured = tls.connect({ socket, servername: settings.host }, () => resolve(secured));
+        secured.once("error", reject);
+      });
+      reader.attach(socket);
+      ehlo = await expect(`EHLO ${heloName}`, [250]);
+    }
+
+    if (settings.user && settings.password) {
+      const auth = ehlo.lines.find(line => /^AUTH\b/i.test(line)) ?? "";
+      if (/\bPLAIN\b/i.test(auth)) {
+        await expect(`AUTH PLAIN ${Buffer.from(`\0${settings.user}\0${settings.password}`).toString("base64")}`, [235]);
+      } else {
+        await expect("AUTH LOGIN", [334]);
+        await expect(Buffer.from(settings.user).toString("base64"), [334]);
+        await expect(Buffer.from(settings.password).toString("base64"), [235]);
+      }
+    }
+
+    const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value;
+    await expect(`MAIL FROM:<${address(settings.from)}>`, [250]);
+    for (const recipient of mail.to) {
+      await expect(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+    }
+    await expect("DATA", [354]);
+
+    const headers = [
+      `From: ${settings.from}`,
+      `To: ${mail.to.join(", ")}`,
+      `Subject: ${encodeHeader(mail.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${heloName}>`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+      ...(mail.priority === "urgent" || mail.priority === "high" ? ["X-Priority: 1"] : []),
+    ];
+    // Dot-stuff lines that start with "." (RFC 5321 4.5.2)
+    const body = mail.text.replace(/\r?\n/g, "\r\n").split("\r\n").map(line => (line.startsWith(".") ? `.${line}` : line)).join("\r\n");
+    const accepted = await expect(`${headers.join("\r\n")}\r\n\r\n${body}\r\n.`, [250]);
+
+    socket.write("QUIT\r\n");
+    return { responseCode: accepted.code, detail: accepted.lines.join(" ") };
+  } finally {
+    socket.end();
+  }
+}
+
+// ============================================================================
+// DISPATCHER
+// ============================================================================
+
+/**
+ * NotificationDispatcher: renders, delivers, schedules and reports notifications
+ */
+export class NotificationDispatcher {
+  private timers = new Map<string, LongTimeout>();
+  private started?: Promise<void>;
+
+  /**
+   * Re-arm scheduled notifications from the store. Safe to call repeatedly.
+   * Sends interrupted mid-delivery by a restart are retried (at-least-once).
+   */
+  start(): Promise<void> {
+    this.started ??= (async () => {
+      const pending = await listScheduledNotifications();
+      for (const record of pending) {
+        if (record.status === "sending") {
+          await updateNotificationStatus(record.id, "scheduled", ["sending"]);
+        }
+        this.arm(record);
+      }
+      if (pending.length > 0) console.log(`[🔔 Notifications] Restored ${pending.length} scheduled notification(s)`);
+    })().catch((error) => {
+      this.started = undefined;
+      throw error;
+    });
+    return this.started;
+  }
+
+  /**
+   * Deliver immediately
+   */
+  async send(input: NotificationInput): Promise<{ notification: NotificationRecord; deliveries: DeliveryRecord[] }> {
+    await this.start();
+    const rendered = await this.render(input);
+    const notification = await createNotification({ ...rendered, status: "sending" });
+    await this.deliver(notification);
+    return this.status(notification.id);
+  }
+
+  /**
+   * Store for delivery at `scheduleTime`; survives restarts
+   */
+  async schedule(input: NotificationInput, scheduleTime: Date): Promise<NotificationRecord> {
+    await this.start();
+    const rendered = await this.render(input);
+    const notification = await createNotification({ ...rendered, status: "scheduled", scheduleTime: scheduleTime.toISOString() });
+    this.arm(notification);
+    return notification;
+  }
+
+  /**
+   * Cancel a notification that has not started sending
+   */
+  async cancel(id: string): Promise<boolean> {
+    const cancelled = await updateNotificationStatus(id, "cancelled", ["scheduled", "pending"]);
+    this.timers.get(id)?.cancel();
+    this.timers.delete(id);
+    return cancelled;
+  }
+
+  /**
+   * Notification plus its delivery records
+   */
+  async status(id: string): Promise<{ notification: NotificationRecord; deliveries: DeliveryRecord[] }> {
+    const notification = await getNotification(id);
+    if (!notification) throw new Error(`Notification not found: ${id}`);
+    return { notification, deliveries: await listDeliveries(id) };
+  }
+
+  /**
+   * Resolve the template (if any) and interpolate variables
+   */
+  private async render(input: NotificationInput) {
+    let subject = input.subject;
+    let body = input.message;
+    if (input.template) {
+      const template = await getTemplate(input.template);
+      if (!template) throw new Error(`Template not found: ${input.template}`);
+      body = template.body;
+      subject ??= template.subject;
+    }
+    if (!body) throw new Error("message or template is required");
+    if (input.recipients.length === 0 && !["console", "file", "webhook", "slack"].includes(input.channel)) {
+      throw new Error(`recipients required for ${input.channel} channel`);
+    }
+
+    return {
+      channel: input.channel,
+      recipients: input.recipients,
+      subject: subject === undefined ? undefined : renderTemplate(subject, input.variables),
+      message: renderTemplate(body, input.variables),
+      template: input.template,
+      variables: input.variables,
+      priority: input.priority,
+    };
+  }
+
+  private arm(record: NotificationRecord): void {
+    const due = record.scheduleTime ? new Date(record.scheduleTime).getTime() : Date.now();
+    this.timers.set(record.id, setLongTimeout(due, () => {
+      this.timers.delete(record.id);
+      void this.deliverScheduled(record.id);
+    }));
+  }
+
+  private async deliverScheduled(id: string): Promise<void> {
+    try {
+      // Claim the row so a cancel or a second process cannot race the send
+      if (!(await updateNotificationStatus(id, "sending", ["scheduled"]))) return;
+      const record = await getNotification(id);
+      if (record) await this.deliver(record);
+    } catch (error) {
+      console.error(`[❌ Notifications] Scheduled notification ${id} failed:`, error);
+    }
+  }
+
+  /**
+   * Deliver to every recipient, recording each attempt, then set the final status
+   */
+  private async deliver(record: NotificationRecord): Promise<void> {
+    let outcomes: boolean[];
+    try {
+      const settings = notificationSettingsSchema.parse(await layeredConfig.getSection("notifications", process.env.NODE_ENV || "default"));
+      const targets = await this.targets(record, settings);
+      outcomes = await Promise.all(targets.map(target => this.attempt(record, target.recipient, target.send, target.maxAttempts, settings.retry.initialDelayMs)));
+    } catch (error) {
+      // Leaving the row in 'sending' would make start() replay it after a restart
+      await recordDelivery({
+        notificationId: record.id,
+        recipient: record.channel,
+        attempt: 1,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }).catch(recordError => console.error(`[❌ Notifications] Could not record failure of ${record.id}:`, recordError));
+      await updateNotificationStatus(record.id, "failed");
+      throw error;
+    }
+
+    const delivered = outcomes.filter(Boolean).length;
+    const status = delivered === outcomes.length ? "delivered" : delivered > 0 ? "partial" : "failed";
+    await updateNotificationStatus(record.id, status);
+    console.log(`[🔔 Notifications] ${record.channel} notification ${record.id}: ${status} (${delivered}/${outcomes.length})`);
+  }
+
+  private async attempt(
+    record: NotificationRecord,
+    recipient: string,
+    send: () => Promise<AttemptResult>,
+    maxAttempts: number,
+    initialDelayMs: number
+  ): Promise<boolean> {
+    let delay = initialDelayMs;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await send();
+        await recordDelivery({ notificationId: record.id, recipient, attempt, success: true, ...result });
+        return true;
+      } catch (error) {
+        const retryable = error instanceof DeliveryError ? error.retryable : false;
+        await recordDelivery({
+          notificationId: record.id,
+          recipient,
+          attempt,
+          success: false,
+          responseCode: error instanceof DeliveryError ? error.responseCode : undefined,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!retryable || attempt >= maxAttempts) return false;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay *= 2;
+      }
+    }
+  }
+
+  /**
+   * One send function per recipient for the record's channel
+   */
+  private async targets(record: NotificationRecord, settings: NotificationSettings): Promise<Array<{ recipient: string; maxAttempts: number; send: () => Promise<AttemptResult> }>> {
+    const payload = {
+      id: record.id,
+      subject: record.subject,
+      message: record.message,
+      priority: record.priority,
+      variables: record.variables,
+      createdAt: record.createdAt,
+    };
+
+    switch (record.channel as NotificationChannel) {
+      case "webhook": {
+        const urls = record.recipients.length > 0 ? record.recipients : settings.webhook.url ? [settings.webhook.url] : [];
+        if (urls.length === 0) throw new Error("webhook channel needs recipient URLs or notifications.webhook.url");
+        const secret = await resolveSecret(settings.webhook.secret);
+        const body = JSON.stringify(payload);
+        return urls.map(url => ({
+          recipient: url,
+          maxAttempts: settings.retry.maxAttempts,
+          send: () => {
+            const timestamp = Math.floor(Date.now() / 1000).toString();
+            const headers: Record<string, string> = {
+              "x-voltmachines-delivery": record.id,
+              "x-voltmachines-timestamp": timestamp,
+            };
+            if (secret) headers["x-voltmachines-signature"] = signWebhookPayload(secret, timestamp, body);
+            return postJson(url, body, headers, settings.webhook.timeoutMs);
+          },
+        }));
+      }
+      case "slack": {
+        const configured = await resolveSecret(settings.slack.webhookUrl);
+        const urls = record.recipients.length > 0 ? record.recipients : configured ? [configured] : [];
+        if (urls.length === 0) throw new Error("slack channel needs recipient webhook URLs or notifications.slack.webhookUrl");
+        const text = record.subject ? `*${record.subject}*\n${record.message}` : record.message;
+        return urls.map(url => ({
+          // Never store the webhook URL itself; it is a credential
+          recipient: `slack:${crypto.createHash("sha256").update(url).digest("hex").slice(0, 12)}`,
+          maxAttempts: settings.retry.maxAttempts,
+          send: () => postJson(url, JSON.stringify({ text }), {}, settings.slack.timeoutMs),
+        }));
+      }
+      case "file": {
+        const inbox = settings.file.inbox;
+        return [{
+          recipient: inbox,
+          maxAttempts: 1,
+          send: async () => {
+            await fs.mkdir(path.dirname(inbox), { recursive: true });
+            await fs.appendFile(inbox, JSON.stringify({ ...payload, channel: "file", recipients: record.recipients, deliveredAt: new Date().toISOString() }) + "\n");
+            return { detail: `appended to ${inbox}` };
+          },
+        }];
+      }
+      case "console": {
+        return [{
+          recipient: "console",
+          maxAttempts: 1,
+          send: async () => {
+            const icon = { urgent: "🚨", high: "❗", normal: "🔔", low: "💬" }[record.priority] ?? "🔔";
+            const rule = "─".repeat(60);
+            console.log(`\n${rule}\n${icon} [${record.priority.toUpperCase()}] ${record.subject ?? "Notification"}${record.recipients.length > 0 ? ` → ${record.recipients.join(", ")}` : ""}\n${rule}\n${record.message}\n${rule}\n`);
+            return { detail: "printed" };
+          },
+        }];
+      }
+      case "email": {
+        const smtp = { ...settings.smtp, password: await resolveSecret(settings.smtp.password) };
+        // One transaction for all recipients, recorded per recipient
+        let sent: Promise<AttemptResult> | undefined;
+        return record.recipients.map(recipient => ({
+          recipient,
+          maxAttempts: settings.retry.maxAttempts,
+          send: () => {
+            sent ??= sendSmtpMail(smtp, { to: record.recipients, subject: record.subject ?? "Notification", text: record.message, priority: record.priority })
+              .catch((error) => {
+                sent = undefined;
+                throw error;
+              });
+            return sent;
+          },
+        }));
+      }
+      case "agent": {
+        return record.recipients.map(agentName => ({
+          recipient: agentName,
+          maxAttempts: 1,
+          send: async () => {
+            const agent = agentRegistry[agentName as keyof typeof agentRegistry];
+            if (!agent) throw new DeliveryError(`Agent not found: ${agentName}`, false);
+            const response = await agent.generateText(record.message, { userId: "notification-system" });
+            return { detail: String(response.text ?? "").slice(0, 2000) };
+          },
+        }));
+      }
+      default:
+        throw new Error(`Unsupported channel: ${record.channel}`);
+    }
+  }
+}
+
+// Export a singleton for global use
+export const notificationDispatcher = new NotificationDispatcher();
@@ -0,0 +1,456 @@
+/**
+ * @fileoverview LLM-backed planning and plan execution for the plan tool
+ *
+ * A planner agent turns a goal into structured steps (executor, inputs,
+ * expected output, dependencies, acceptance criteria). Drafts are checked for
+ * unknown agents or tools, dangling dependencies and cycles; problems are fed
+ * back to the planner for repair. Execution runs every step whose
+ * dependencies are done, wave by wave, and records each step's state and
+ * output in the plan store. Agent steps see their dependencies' outputs in
+ * the prompt; tool steps get them through `{{stepId}}` references in their
+ * input values. When a step fails the plan can be revised: the
+ * planner rewrites the unfinished steps with the failure in view.
+ */
+
+import { z } from "zod";
+import { agentRegistry, agentToolNames } from "../agents/index.js";
+import { toolFailure, toolRegistry } from "./toolRegistry.js";
+import { lessonsLearned } from "./lessons.js";
+import {
+  createPlan,
+  getPlan,
+  revisePlan,
+  updatePlanStatus,
+  updatePlanStep,
+  type Plan,
+  type PlanStep,
+  type PlanStepDefinition,
+  type PlanStepState,
+} from "../memory/planStore.js";
+
+const PLANNER_USER_ID = 'plan-runner';
+const MAX_STEPS = 20;
+// Dependency outputs passed to a step are cut to this many characters each
+const MAX_DEPENDENCY_OUTPUT_CHARS = 4000;
+// {{stepId}} in a tool step's input values
+const STEP_REFERENCE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_STEP_REFERENCE = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * Step shape the planner produces. Kept flat (no records or unions) so it
+ * works with providers that only accept simple JSON schemas.
+ */
+const plannedStepSchema = z.object({
+  id: z.string().min(1).describe("Short unique step ID such as s1"),
+  title: z.string().min(1),
+  description: z.string().min(1).describe("What the step does, written as an instruction to its executor"),
+  executorType: z.enum(['agent', 'tool']),
+  executor: z.string().min(1).describe("Agent name for agent steps, tool name for tool steps"),
+  inputs: z.array(z.object({
+    name: z.string(),
+    value: z.string().describe("Literal value; for tool steps these are the tool arguments, JSON-encoded when not plain text. In tool steps, {{stepId}} inserts the output of a step listed in dependsOn"),
+  })).describe("Inputs the step needs; tool steps refer to earlier results with {{stepId}}"),
+  expectedOutput: z.string().min(1),
+  dependsOn: z.array(z.string()).describe("IDs of steps that must finish first"),
+  acceptanceCriteria: z.array(z.string()).min(1).describe("Checks that show the step succeeded"),
+});
+
+export const planDraftSchema = z.object({
+  summary: z.string().min(1).describe("One-paragraph overview of the approach"),
+  steps: z.array(plannedStepSchema).min(1).max(MAX_STEPS),
+});
+
+export type PlanDraft = z.infer<typeof planDraftSchema>;
+
+/**
+ * Step counts and what is happening now
+ */
+export interface PlanProgress {
+  plan: Plan;
+  steps: PlanStep[];
+  counts: Record<PlanStepState, number>;
+  percentComplete: number;
+  runningSteps: string[];
+  /** Pending steps whose dependencies are all done */
+  readySteps: string[];
+  failedSteps: Array<{ id: string; title: string; error?: string }>;
+}
+
+export interface ExecutePlanOptions {
+  signal?: AbortSignal;
+  /** Revise the plan automatically when a step fails */
+  replanOnFailure?: boolean;
+  /** Upper bound for automatic revisions in one execution (default: 1) */
+  maxReplans?: number;
+}
+
+/**
+ * Problems with a draft, in words the planner can act on
+ *
+ * @param fixedStepIds - IDs of finished steps a revision may depend on but not reuse
+ */
+export function validatePlanDraft(draft: PlanDraft, fixedStepIds: string[] = []): string[] {
+  const issues: string[] = [];
+  const agents = Object.keys(agentRegistry);
+  const ids = new Set<string>();
+
+  for (const step of draft.steps) {
+    if (ids.has(step.id) || fixedStepIds.includes(step.id)) issues.push(`Step ID ${step.id} is used more than once`);
+    ids.add(step.id);
+    if (step.executorType === 'agent' && !agents.includes(step.executor)) {
+      issues.push(`Step ${step.id}: unknown agent "${step.executor}". Available: ${agents.join(', ')}`);
+    }
+    if (step.executorType === 'tool' && toolRegistry.size > 0 && !toolRegistry.has(step.executor)) {
+      issues.push(`Step ${step.id}: unknown tool "${step.executor}"`);
+    }
+    if (step.executorType === 'tool') {
+      for (const input of step.inputs) {
+        for (const [, reference] of input.value.matchAll(STEP_REFERENCE)) {
+          if (!step.dependsOn.includes(reference)) {
+            issues.push(`Step ${step.id}: input ${input.name} refers to {{${reference}}}, which is not in its dependsOn`);
+          }
+        }
+      }
+    }
+  }
+
+  for (const step of draft.steps) {
+    for (const dependency of step.dependsOn) {
+      if (!ids.has(dependency) && !fixedStepIds.includes(dependency)) {
+        issues.push(`Step ${step.id} depends on unknown step ${dependency}`);
+      }
+    }
+  }
+
+  // Depth-first search for cycles among the new steps
+  const byId = new Map(draft.steps.map(step => [step.id, step]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (id: string, trail: string[]): void => {
+    if (visited.has(id) || !byId.has(id)) return;
+    if (visiting.has(id)) {
+      issues.push(`Dependency cycle: ${[...trail.slice(trail.indexOf(id)), id].join(' -> ')}`);
+      return;
+    }
+    visiting.add(id);
+    for (const dependency of byId.get(id)!.dependsOn) visit(dependency, [...trail, id]);
+    visiting.delete(id);
+    visited.add(id);
+  };
+  for (const step of draft.steps) visit(step.id, []);
+
+  return issues;
+}
+
+/**
+ * Convert planner output to stored step definitions
+ */
+function toStepDefinitions(draft: PlanDraft): PlanStepDefinition[] {
+  return draft.steps.map(step => ({
+    id: step.id,
+    title: step.title,
+    description: step.description,
+    executor: step.executorType === 'agent'
+      ? { type: 'agent', agentName: step.executor }
+      : { type: 'tool', toolName: step.executor },
+    inputs: step.inputs.map(input => ({ name: input.name, value: parseInputValue(input.value) })),
+    expectedOutput: step.expectedOutput,
+    dependsOn: step.dependsOn,
+    acceptanceCriteria: step.acceptanceCriteria,
+  }));
+}
+
+function parseInputValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * A finished step's output as passed on: the text of agent steps, the result of tool steps
+ */
+function stepOutputValue(step: PlanStep): unknown {
+  const output = step.output as { text?: unknown } | undefined;
+  return step.executor.type === 'agent' && typeof output?.text === 'string' ? output.text : step.output;
+}
+
+/**
+ * Tool arguments from a step's inputs with `{{stepId}}` references replaced
+ *
+ * A value that is only a reference receives the dependency's output as is;
+ * a reference inside a longer string is replaced by the output as text.
+ */
+function resolveToolArgs(step: PlanStep, byId: Map<string, PlanStep>): Record<string, unknown> {
+  const output = (id: string): unknown => {
+    const dependency = byId.get(id);
+    if (!dependency || !step.dependsOn.includes(id)) throw new Error(`Input refers to {{${id}}}, which is not a dependency of step ${step.id}`);
+    return stepOutputValue(dependency);
+  };
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      const whole = value.match(WHOLE_STEP_REFERENCE);
+      if (whole) return output(whole[1]);
+      return value.replace(STEP_REFERENCE, (_, id: string) => {
+        const resolved = output(id);
+        return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+      });
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolve(entry)]));
+    }
+    return value;
+  };
+  return Object.fromEntries(step.inputs.map(input => [input.name, resolve(input.value)]));
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}… [truncated]` : text;
+}
+
+function describeExecutors(): string {
+  const agents = Object.entries(agentRegistry).map(([name, agent]) => {
+    const tools = agentToolNames(agent);
+    return `- ${name}${tools.length > 0 ? ` (tools: ${tools.join(', ')})` : ''}`;
+  });
+  const tools = toolRegistry.list().map(tool => `- ${tool.name}${tool.description ? `: ${truncate(tool.description, 160)}` : ''}`);
+  return `Agents (executorType "agent"):\n${agents.join('\n')}\n\nTools (executorType "tool"; inputs become the tool's arguments, with {{stepId}} replaced by that dependency's output):\n${tools.length > 0 ? tools.join('\n') : '- none registered'}`;
+}
+
+function stepOutputText(step: PlanStep): string {
+  const output = step.output as { text?: unknown } | undefined;
+  return truncate(typeof output?.text === 'string' ? output.text : JSON.stringify(step.output ?? null), MAX_DEPENDENCY_OUTPUT_CHARS);
+}
+
+/**
+ * PlanRunner: creates, revises and executes persisted plans
+ */
+export class PlanRunner {
+  private executing = new Set<string>();
+
+  /** Agent that writes plans unless another is named */
+  defaultPlanner = 'problemSolver';
+  /** Planner attempts to fix a draft that fails validation */
+  maxRepairAttempts = 2;
+  /** Upper bound for one step */
+  stepTimeoutMs = 10 * 60 * 1000;
+
+  async create(goal: string, options: { context?: string; plannerAgent?: string; signal?: AbortSignal } = {}): Promise<Plan> {
+    const plannerAgent = options.plannerAgent ?? this.defaultPlanner;
+    const draft = await this.draft(plannerAgent, `[PLANNER for supervisor]
+Goal: ${goal}
+${options.context ? `\nContext: ${options.context}\n` : ''}
+Break the goal into at most ${MAX_STEPS} concrete steps. Assign each step to exactly one agent or tool from the lists below. Use dependsOn for steps that need earlier results. Agent steps receive those outputs automatically; tool steps only see their inputs, so reference an earlier result in an input value as {{stepId}}. Give each step an expected output and acceptance criteria that can be checked.
+
+${describeExecutors()}`, [], options.signal);
+
+    return createPlan({ goal, summary: draft.summary, context: options.context, plannerAgent }, toStepDefinitions(draft));
+  }
+
+  /**
+   * Rewrite every unfinished step; finished steps and their outputs are kept
+   */
+  async replan(planId: string, options: { reason?: string; signal?: AbortSignal } = {}): Promise<Plan> {
+    if (this.executing.has(planId)) throw new Error(`Plan ${planId} is executing; wait for it to stop before re-planning`);
+    return this.revise(planId, options);
+  }
+
+  private async revise(planId: string, options: { reason?: string; signal?: AbortSignal }): Promise<Plan> {
+    const { plan, steps } = await this.require(planId);
+    const done = steps.filter(step => step.state === 'done');
+    const unfinished = steps.filter(step => step.state !== 'done');
+    if (unfinished.length === 0) throw new Error(`Plan ${planId} has no unfinished steps to re-plan`);
+
+    const reason = options.reason
+      || unfinished.filter(step => step.state === 'failed').map(step => `${step.id} failed: ${step.error}`).join('; ')
+      || 'Requested re-plan';
+
+    const draft = await this.draft(plan.plannerAgent, `[PLANNER for supervisor — revision ${plan.revision + 1}]
+Goal: ${plan.goal}
+${plan.context ? `\nContext: ${plan.context}\n` : ''}
+Why the plan is being revised: ${reason}
+
+Finished steps (keep; new steps may depend on their IDs):
+${done.length > 0 ? done.map(step => `- ${step.id} ${step.title}: ${truncate(stepOutputText(step), 500)}`).join('\n') : '- none'}
+
+Unfinished steps being replaced:
+${unfinished.map(step => `- ${step.id} ${step.title} [${step.state}]${step.error ? ` error: ${step.error}` : ''}`).join('\n')}
+
+Write replacement steps that complete the goal from here, avoiding the cause of the failure. Do not reuse the IDs of finished steps.
+
+${describeExecutors()}`, done.map(step => step.id), options.signal);
+
+    await revisePlan(planId, {
+      revision: plan.revision + 1,
+      reason,
+      replacedStepIds: unfinished.map(step => step.id),
+      createdAt: new Date().toISOString(),
+    }, draft.summary, toStepDefinitions(draft));
+    return (await this.require(planId)).plan;
+  }
+
+  /**
+   * Run the plan until every step is done or a step fails
+   *
+   * Failed steps are retried when a failed plan is executed again; steps left
+   * running by a crashed process start over.
+   */
+  async execute(planId: string, options: ExecutePlanOptions = {}): Promise<PlanProgress> {
+    if (this.executing.has(planId)) throw new Error(`Plan ${planId} is already executing`);
+    const { plan, steps } = await this.require(planId);
+    if (plan.status === 'done') return this.progress(planId);
+
+    this.executing.add(planId);
+    try {
+      await updatePlanStatus(planId, 'running');
+      for (const step of steps.filter(step => step.state === 'running' || step.state === 'failed')) {
+        await updatePlanStep(planId, step.id, { state: 'pending', error: null, finishedAt: null });
+      }
+
+      const maxReplans = options.maxReplans ?? 1;
+      let replans = 0;
+      for (;;) {
+        options.signal?.throwIfAborted();
+        const { readySteps, steps: current, counts } = await this.progress(planId);
+
+        if (counts.failed > 0) {
+          if (options.replanOnFailure && replans < maxReplans) {
+            replans++;
+            console.log(`[🗺️ Plan] ${planId} revising after failure (${replans}/${maxReplans})`);
+            await this.revise(planId, { signal: options.signal });
+            await updatePlanStatus(planId, 'running');
+            continue;
+          }
+          await updatePlanStatus(planId, 'failed');
+          break;
+        }
+        if (counts.done === current.length) {
+          await updatePlanStatus(planId, 'done');
+          break;
+        }
+        if (readySteps.length === 0) {
+          // Only reachable if stored dependencies point at removed steps
+          await updatePlanStatus(planId, 'failed');
+          throw new Error(`Plan ${planId} is stuck: no pending step has all dependencies done`);
+        }
+
+        const byId = new Map(current.map(step => [step.id, step]));
+        await Promise.all(readySteps.map(id => this.runStep(byId.get(id)!, byId, options.signal)));
+      }
+    } catch (error) {
+      await updatePlanStatus(planId, 'failed').catch(() => undefined);
+      throw error;
+    } finally {
+      this.executing.delete(planId);
+    }
+    return this.progress(planId);
+  }
+
+  async progress(planId: string): Promise<PlanProgress> {
+    const { plan, steps } = await this.require(planId);
+    const counts: Record<PlanStepState, number> = { pending: 0, running: 0, done: 0, failed: 0 };
+    for (const step of steps) counts[step.state]++;
+    const doneIds = new Set(steps.filter(step => step.state === 'done').map(step => step.id));
+
+    return {
+      plan,
+      steps,
+      counts,
+      percentComplete: steps.length > 0 ? Math.round((counts.done / steps.length) * 100) : 0,
+      runningSteps: steps.filter(step => step.state === 'running').map(step => step.id),
+      readySteps: steps.filter(step => step.state === 'pending' && step.dependsOn.every(id => doneIds.has(id))).map(step => step.id),
+      failedSteps: steps.filter(step => step.state === 'failed').map(step => ({ id: step.id, title: step.title, error: step.error })),
+    };
+  }
+
+  isExecuting(planId: string): boolean {
+    return this.executing.has(planId);
+  }
+
+  private async require(planId: string): Promise<{ plan: Plan; steps: PlanStep[] }> {
+    const found = await getPlan(planId);
+    if (!found) throw new Error(`Plan not found: ${planId}`);
+    return found;
+  }
+
+  /**
+   * Ask the planner for a draft, feeding validation problems back for repair
+   */
+  private async draft(plannerAgent: string, prompt: string, fixedStepIds: string[], signal?: AbortSignal): Promise<PlanDraft> {
+    const agent = agentRegistry[plannerAgent as keyof typeof agentRegistry];
+    if (!agent) throw new Error(`Unknown planner agent: ${plannerAgent}. Available: ${Object.keys(agentRegistry).join(', ')}`);
+
+    let request = prompt;
+    for (let attempt = 0; ; attempt++) {
+      const result = await agent.generateObject(request, planDraftSchema, { userId: PLANNER_USER_ID, signal });
+      const parsed = planDraftSchema.safeParse(result.object);
+      const issues = parsed.success
+        ? validatePlanDraft(parsed.data, fixedStepIds)
+        : parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      if (parsed.success && issues.length === 0) return parsed.data;
+
+      if (attempt >= this.maxRepairAttempts) {
+        throw new Error(`Planner could not produce a valid plan: ${issues.join('; ')}`);
+      }
+      console.log(`[🗺️ Plan] Draft rejected (${issues.length} issue(s)); asking ${plannerAgent} to repair it`);
+      request = `${prompt}
+
+Your previous plan was rejected:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous plan:
+${truncate(JSON.stringify(result.object), 8000)}
+
+Return a corrected plan.`;
+    }
+  }
+
+  private async runStep(step: PlanStep, byId: Map<string, PlanStep>, signal?: AbortSignal): Promise<void> {
+    await updatePlanStep(step.planId, step.id, { state: 'running', startedAt: new Date().toISOString(), finishedAt: null, error: null, incrementAttempts: true });
+    const stepSignal = AbortSignal.any([AbortSignal.timeout(this.stepTimeoutMs), signal].filter((s): s is AbortSignal => !!s));
+
+    try {
+      let output: unknown;
+      if (step.executor.type === 'agent') {
+        const agent = agentRegistry[step.executor.agentName as keyof typeof agentRegistry];
+        if (!agent) throw new Error(`Unknown agent: ${step.executor.agentName}`);
+        const lessons = await lessonsLearned.contextFor(step.executor.agentName, `${step.title}\n${step.description}`);
+        const prompt = lessons ? `${this.stepPrompt(step, byId)}\n\n${lessons}` : this.stepPrompt(step, byId);
+        const response = await agent.generateText(prompt, { userId: PLANNER_USER_ID, signal: stepSignal });
+        output = { text: response.text, usage: response.usage };
+      } else {
+        const args = resolveToolArgs(step, byId);
+        output = await toolRegistry.invoke(step.executor.toolName, args, { signal: stepSignal });
+        const failure = toolFailure(output);
+        if (failure) throw new Error(failure);
+      }
+      await updatePlanStep(step.planId, step.id, { state: 'done', output, finishedAt: new Date().toISOString() });
+      console.log(`[🗺️ Plan] ${step.planId} step ${step.id} done`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await updatePlanStep(step.planId, step.id, { state: 'failed', error: message, finishedAt: new Date().toISOString() });
+      console.error(`[❌ Plan] ${step.planId} step ${step.id} failed: ${message}`);
+    }
+  }
+
+  private stepPrompt(step: PlanStep, byId: Map<string, PlanStep>): string {
+    const dependencies = step.dependsOn
+      .map(id => byId.get(id))
+      .filter((dependency): dependency is PlanStep => !!dependency)
+      .map(dependency => `### ${dependency.id}: ${dependency.title}\n${stepOutputText(dependency)}`);
+
+    return `[PLAN STEP ${step.id} from supervisor]
+${step.title}
+
+${step.description}
+${step.inputs.length > 0 ? `\nInputs:\n${step.inputs.map(input => `- ${input.name}: ${typeof input.value === 'string' ? input.value : JSON.stringify(input.value)}`).join('\n')}\n` : ''}${dependencies.length > 0 ? `\nResults of earlier steps:\n${dependencies.join('\n\n')}\n` : ''}
+Expected output: ${step.expectedOutput}
+Acceptance criteria:
+${step.acceptanceCriteria.map(criterion => `- ${criterion}`).join('\n')}`;
+  }
+}
+
+// Export a singleton for global use
+export const planRunner = new PlanRunner();
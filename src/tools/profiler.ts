@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Runtime profiling for the performance_profiler tool
+ *
+ * CPU profiles are recorded through the node:inspector Profiler domain and
+ * written as .cpuprofile files (loadable in Chrome DevTools) under the data
+ * directory, next to optional heap snapshots.
+ */
+
+import { Session } from "node:inspector/promises";
+import { monitorEventLoopDelay, performance, type IntervalHistogram } from "node:perf_hooks";
+import * as v8 from "node:v8";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { toolFailure } from "./toolRegistry.js";
+
+/**
+ * Directory where profiles and heap snapshots are written
+ */
+export const profilesDirectory = path.resolve("./data", "profiles");
+
+/**
+ * One node of a V8 CPU profile (only the fields we read)
+ */
+interface CpuProfileNode {
+  id: number;
+  callFrame: { functionName: string; url: string; lineNumber: number };
+  hitCount?: number;
+}
+
+interface CpuProfile {
+  nodes: CpuProfileNode[];
+  startTime: number;
+  endTime: number;
+  samples?: number[];
+}
+
+interface ActiveProfile {
+  session: Session;
+  startedAt: string;
+}
+
+/**
+ * Latency distribution of a benchmark run, in milliseconds
+ */
+export interface BenchmarkStats {
+  iterations: number;
+  errors: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  timesMs: number[];
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * PerformanceProfiler: CPU profiles, heap statistics and micro-benchmarks
+ * for the running process
+ */
+export class PerformanceProfiler {
+  private active = new Map<string, ActiveProfile>();
+  private eventLoopDelay?: IntervalHistogram;
+  private lastCpuUsage = process.cpuUsage();
+  private lastCpuCheck = performance.now();
+
+  /**
+   * Start a CPU profile. Each profile has its own inspector session, so
+   * several can run at once.
+   */
+  async startProfile(id: string, samplingIntervalUs?: number): Promise<{ profileId: string; startedAt: string }> {
+    if (this.active.has(id)) throw new Error(`Profile already running: ${id}`);
+
+    const session = new Session();
+    session.connect();
+    try {
+      await session.post("Profiler.enable");
+      if (samplingIntervalUs) await session.post("Profiler.setSamplingInterval", { interval: samplingIntervalUs });
+      await session.post("Profiler.start");
+    } catch (error) {
+      session.disconnect();
+      throw error;
+    }
+
+    const startedAt = new Date().toISOString();
+    this.active.set(id, { session, startedAt });
+    return { profileId: id, startedAt };
+  }
+
+  /**
+   * Stop a CPU profile, write it to `<profilesDirectory>/<id>.cpuprofile`
+   * and summarize the functions with the most self time
+   */
+  async endProfile(id: string, topN = 10) {
+    const entry = this.active.get(id);
+    if (!entry) throw new Error(`No running profile: ${id}`);
+    this.active.delete(id);
+
+    let profile: CpuProfile;
+    try {
+      ({ profile } = await entry.session.post("Profiler.stop") as { profile: CpuProfile });
+      await entry.session.post("Profiler.disable");
+    } finally {
+      entry.session.disconnect();
+    }
+
+    await fs.mkdir(profilesDirectory, { recursive: true });
+    const file = path.join(profilesDirectory, `${id.replace(/[^\w.-]/g, "_")}.cpuprofile`);
+    await fs.writeFile(file, JSON.stringify(profile));
+
+    const durationMs = (profile.endTime - profile.startTime) / 1000;
+    const totalSamples = profile.samples?.length ?? profile.nodes.reduce((sum, node) => sum + (node.hitCount ?? 0), 0);
+    const msPerSample = totalSamples > 0 ? durationMs / totalSamples : 0;
+
+    // Aggregate self time per function across call paths
+    const selfTime = new Map<string, { functionName: string; url: string; line: number; samples: number }>();
+    for (const node of profile.nodes) {
+      if (!node.hitCount) continue;
+      const { functionName, url, lineNumber } = node.callFrame;
+      const key = `${functionName}|${url}|${lineNumber}`;
+      const entry = selfTime.get(key) ?? { functionName: functionName || "(anonymous)", url, line: lineNumber + 1, samples: 0 };
+      entry.samples += node.hitCount;
+      selfTime.set(key, entry);
+    }
+
+    const hotFunctions = [...selfTime.values()]
+      .sort((a, b) => b.samples - a.samples)
+      .slice(0, topN)
+      .map(fn => ({
+        ...fn,
+        selfTimeMs: round(fn.samples * msPerSample),
+        selfPercent: totalSamples > 0 ? round((fn.samples / totalSamples) * 100) : 0,
+      }));
+
+    return {
+      profileId: id,
+      file,
+      startedAt: entry.startedAt,
+      durationMs: round(durationMs),
+      totalSamples,
+      nodeCount: profile.nodes.length,
+      hotFunctions,
+    };
+  }
+
+  /**
+   * IDs of profiles that are still recording
+   */
+  activeProfiles(): string[] {
+    return [...this.active.keys()];
+  }
+
+  /**
+   * Real heap statistics, optionally writing a .heapsnapshot file
+   */
+  async memorySnapshot(writeHeapSnapshot = false) {
+    const memory = process.memoryUsage();
+    const heap = v8.getHeapStatistics();
+
+    let heapSnapshotFile: string | undefined;
+    if (writeHeapSnapshot) {
+      await fs.mkdir(profilesDirectory, { recursive: true });
+      heapSnapshotFile = v8.writeHeapSnapshot(path.join(profilesDirectory, `heap_${Date.now()}.heapsnapshot`));
+    }
+
+    return {
+      takenAt: new Date().toISOString(),
+      process: memory,
+      heap: {
+        totalHeapSize: heap.total_heap_size,
+        usedHeapSize: heap.used_heap_size,
+        heapSizeLimit: heap.heap_size_limit,
+        mallocedMemory: heap.malloced_memory,
+        externalMemory: heap.external_memory,
+        nativeContexts: heap.number_of_native_contexts,
+        detachedContexts: heap.number_of_detached_contexts,
+        usedPercent: round((heap.used_heap_size / heap.heap_size_limit) * 100),
+      },
+      spaces: v8.getHeapSpaceStatistics().map(space => ({
+        name: space.space_name,
+        size: space.space_size,
+        used: space.space_used_size,
+        available: space.space_available_size,
+      })),
+      heapSnapshotFile,
+    };
+  }
+
+  /**
+   * Process-level metrics: CPU since the previous call, memory and event loop delay
+   */
+  metrics() {
+    // Sample event loop delay from the first call onwards
+    if (!this.eventLoopDelay) {
+      this.eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+      this.eventLoopDelay.enable();
+    }
+
+    const now = performance.now();
+    const cpu = process.cpuUsage(this.lastCpuUsage);
+    const elapsedMs = now - this.lastCpuCheck;
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastCpuCheck = now;
+
+    const delay = this.eventLoopDelay;
+    const toMs = (ns: number) => round(ns / 1e6);
+
+    return {
+      cpu: {
+        userMs: round(cpu.user / 1000),
+        systemMs: round(cpu.system / 1000),
+        windowMs: round(elapsedMs),
+        percent: elapsedMs > 0 ? round(((cpu.user + cpu.system) / 1000 / elapsedMs) * 100) : 0,
+      },
+      memory: process.memoryUsage(),
+      eventLoopDelayMs: delay.count > 0
+        ? { mean: toMs(delay.mean), p50: toMs(delay.percentile(50)), p99: toMs(delay.percentile(99)), max: toMs(delay.max) }
+        : undefined,
+      uptimeSeconds: round(process.uptime()),
+      activeProfiles: this.activeProfiles(),
+    };
+  }
+
+  /**
+   * Time `fn` over `iterations` sequential runs after `warmup` untimed runs.
+   * Failed runs (thrown errors or `{ success: false }` tool results) are
+   * counted and still timed.
+   */
+  async benchmark(fn: () => Promise<unknown>, iterations: number, warmup = 0, signal?: AbortSignal): Promise<BenchmarkStats> {
+    for (let i = 0; i < warmup; i++) {
+      signal?.throwIfAborted();
+      await fn().catch(() => undefined);
+    }
+
+    const times: number[] = [];
+    let errors = 0;
+    for (let i = 0; i < iterations; i++) {
+      signal?.throwIfAborted();
+      const start = performance.now();
+      try {
+        if (toolFailure(await fn())) errors++;
+      } catch {
+        errors++;
+      }
+      times.push(performance.now() - start);
+    }
+
+    const sorted = [...times].sort((a, b) => a - b);
+    return {
+      iterations,
+      errors,
+      min: round(sorted[0] ?? 0),
+      max: round(sorted[sorted.length - 1] ?? 0),
+      mean: round(times.reduce((sum, t) => sum + t, 0) / Math.max(1, times.length)),
+      p50: round(percentile(sorted, 50)),
+      p95: round(percentile(sorted, 95)),
+      p99: round(percentile(sorted, 99)),
+      timesMs: times.map(round),
+    };
+  }
+}
+
+// Export a singleton for global use
+export const performanceProfiler = new PerformanceProfiler();
@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Encrypted secret vault for the secret_manager tool
+ *
+ * Secrets are encrypted with AES-256-GCM and stored in `data/vault/vault.json`;
+ * every access is appended to `data/vault/audit.jsonl`. The master key comes
+ * from VAULT_MASTER_KEY (32 bytes, hex or base64) or is derived with scrypt
+ * from VAULT_PASSPHRASE (or a passphrase supplied per call). Plaintext never
+ * leaves this module except through retrieve().
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+
+export const vaultDirectory = path.resolve("./data", "vault");
+const vaultFile = path.join(vaultDirectory, "vault.json");
+const auditFile = path.join(vaultDirectory, "audit.jsonl");
+
+const KEY_CHECK_PLAINTEXT = "voltmachines-vault";
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+interface SecretVersion extends EncryptedValue {
+  version: number;
+  createdAt: string;
+  /** Set when a newer version replaced this one */
+  retiredAt?: string;
+}
+
+interface SecretEntry {
+  metadata?: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+  versions: SecretVersion[];
+}
+
+interface VaultFile {
+  formatVersion: 1;
+  /** scrypt salt, present when the key is derived from a passphrase */
+  kdf?: { salt: string; N: number; r: number; p: number };
+  /** Encrypts a known value so a wrong master key is detected up front */
+  keyCheck: EncryptedValue;
+  secrets: Record<string, SecretEntry>;
+}
+
+/**
+ * One access to the vault. Never contains secret values.
+ */
+export interface VaultAuditEntry {
+  timestamp: string;
+  operation: string;
+  secretName?: string;
+  version?: number;
+  actor?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Non-sensitive description of a stored secret
+ */
+export interface SecretSummary {
+  secretName: string;
+  currentVersion: number;
+  versionCount: number;
+  metadata?: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function encrypt(key: Buffer, plaintext: string, aad: string): EncryptedValue {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+function decrypt(key: Buffer, value: EncryptedValue, aad: string): string {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(value.iv, "base64"));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(value.ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+/**
+ * Parse VAULT_MASTER_KEY as 64 hex characters or base64 of 32 bytes
+ */
+function parseMasterKey(value: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== 32) throw new Error("VAULT_MASTER_KEY must be 32 bytes (64 hex characters or base64)");
+  return key;
+}
+
+function scryptKey(passphrase: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, 32, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * SecretVault: file-backed AES-256-GCM secret store with version history
+ * and an access audit log
+ */
+export class SecretVault {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Store a new secret as version 1
+   */
+  store(secretName: string, value: string, options: { metadata?: Record<string, string>; passphrase?: string; actor?: string } = {}): Promise<SecretSummary> {
+    return this.audited('store', secretName, options.actor, async () => {
+      const { vault, key } = await this.open(options.passphrase);
+      if (vault.secrets[secretName]) throw new Error(`Secret already exists: ${secretName}; use rotate to replace it`);
+
+      const now = new Date().toISOString();
+      vault.secrets[secretName] = {
+        metadata: options.metadata,
+        createdAt: now,
+        updatedAt: now,
+        versions: [{ version: 1, createdAt: now, ...encrypt(key, value, `${secretName}:1`) }],
+      };
+      await this.save(vault);
+      return { result: summarize(secretName, vault.secrets[secretName]), version: 1 };
+    });
+  }
+
+  /**
+   * Decrypt the current (or a specific) version of a secret
+   */
+  retrieve(secretName: string, options: { version?: number; passphrase?: string; actor?: string } = {}): Promise<{ value: string; version: number; metadata?: Record<string, string> }> {
+    return this.audited('retrieve', secretName, options.actor, async () => {
+      const { vault, key } = await this.open(options.passphrase);
+      const entry = requireSecret(vault, secretName);
+      const version = options.version
+        ? entry.versions.find(v => v.version === options.version)
+        : entry.versions[entry.versions.length - 1];
+      if (!version) throw new Error(`Version ${options.version} of ${secretName} not found`);
+
+      const value = decrypt(key, version, `${secretName}:${version.version}`);
+      return { result: { value, version: version.version, metadata: entry.metadata }, version: version.version };
+    });
+  }
+
+  /**
+   * Replace a secret with a new version; earlier versions stay retrievable
+   */
+  rotate(secretName: string, value: string, options: { metadata?: Record<string, string>; passphrase?: string; actor?: string } = {}): Promise<SecretSummary> {
+    return this.audited('rotate', secretName, options.actor, async () => {
+      const { vault, key } = await this.open(options.passphrase);
+      const entry = requireSecret(vault, secretName);
+      const now = new Date().toISOString();
+      const version = entry.versions[entry.versions.length - 1].version + 1;
+
+      entry.versions[entry.versions.length - 1].retiredAt = now;
+      entry.versions.push({ version, createdAt: now, ...encrypt(key, value, `${secretName}:${version}`) });
+      entry.updatedAt = now;
+      if (options.metadata) entry.metadata = { ...entry.metadata, ...options.metadata };
+
+      await this.save(vault);
+      return { result: summarize(secretName, entry), version };
+    });
+  }
+
+  /**
+   * Delete a secret and all of its versions
+   */
+  delete(secretName: string, options: { passphrase?: string; actor?: string } = {}): Promise<{ deletedVersions: number }> {
+    return this.audited('delete', secretName, options.actor, async () => {
+      const { vault } = await this.open(options.passphrase);
+      const entry = requireSecret(vault, secretName);
+      delete vault.secrets[secretName];
+      await this.save(vault);
+      return { result: { deletedVersions: entry.versions.length } };
+    });
+  }
+
+  /**
+   * Names, versions and metadata of stored secrets (no values)
+   */
+  list(options: { actor?: string } = {}): Promise<SecretSummary[]> {
+    return this.audited('list_keys', undefined, options.actor, async () => {
+      const vault = await this.read();
+      const secrets = vault ? Object.entries(vault.secrets).map(([name, entry]) => summarize(name, entry)) : [];
+      return { result: secrets };
+    });
+  }
+
+  /**
+   * Version history of one secret (timestamps only)
+   */
+  async history(secretName: string): Promise<Array<{ version: number; createdAt: string; retiredAt?: string }>> {
+    const vault = await this.read();
+    if (!vault) throw new Error(`Secret not found: ${secretName}`);
+    return requireSecret(vault, secretName).versions.map(({ version, createdAt, retiredAt }) => ({ version, createdAt, retiredAt }));
+  }
+
+  /**
+   * Access history, newest first
+   */
+  async audit(filters: { secretName?: string; limit?: number } = {}): Promise<VaultAuditEntry[]> {
+    let lines: string[];
+    try {
+      lines = (await fs.readFile(auditFile, "utf8")).split("\n").filter(Boolean);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return lines
+      .map(line => JSON.parse(line) as VaultAuditEntry)
+      .filter(entry => !filters.secretName || entry.secretName === filters.secretName)
+      .reverse()
+      .slice(0, filters.limit ?? 100);
+  }
+
+  /**
+   * Run an operation under the vault lock and record it in the audit log,
+   * whether it succeeds or fails
+   */
+  private audited<T>(
+    operation: string,
+    secretName: string | undefined,
+    actor: string | undefined,
+    run: () => Promise<{ result: T; version?: number }>
+  ): Promise<T> {
+    const task = this.queue.then(async () => {
+      try {
+        const { result, version } = await run();
+        await this.appendAudit({ timestamp: new Date().toISOString(), operation, secretName, version, actor, success: true });
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.appendAudit({ timestamp: new Date().toISOString(), operation, secretName, actor, success: false, error: message });
+        throw error;
+      }
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async appendAudit(entry: VaultAuditEntry): Promise<void> {
+    await fs.mkdir(vaultDirectory, { recursive: true, mode: 0o700 });
+    await fs.appendFile(auditFile, JSON.stringify(entry) + "\n", { mode: 0o600 });
+  }
+
+  private async read(): Promise<VaultFile | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(vaultFile, "utf8")) as VaultFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private async save(vault: VaultFile): Promise<void> {
+    await fs.mkdir(vaultDirectory, { recursive: true, mode: 0o700 });
+    // Write then rename so a crash never leaves a truncated vault
+    const temp = `${vaultFile}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(vault, null, 2), { mode: 0o600 });
+    await fs.rename(temp, vaultFile);
+  }
+
+  /**
+   * Load (or initialize) the vault and unlock it with the master key
+   */
+  private async open(passphrase?: string): Promise<{ vault: VaultFile; key: Buffer }> {
+    const existing = await this.read();
+    const masterKey = process.env.VAULT_MASTER_KEY;
+    const secretPassphrase = process.env.VAULT_PASSPHRASE || passphrase;
+
+    let key: Buffer;
+    let kdf = existing?.kdf;
+    if (masterKey) {
+      key = parseMasterKey(masterKey);
+    } else if (secretPassphrase) {
+      kdf ??= { salt: crypto.randomBytes(16).toString("base64"), ...SCRYPT_PARAMS };
+      key = await scryptKey(secretPassphrase, Buffer.from(kdf.salt, "base64"), { N: kdf.N, r: kdf.r, p: kdf.p });
+    } else {
+      throw new Error("Vault is locked: set VAULT_MASTER_KEY or VAULT_PASSPHRASE, or pass encryption_key");
+    }
+
+    if (!existing) {
+      const vault: VaultFile = {
+        formatVersion: 1,
+        kdf: masterKey ? undefined : kdf,
+        keyCheck: encrypt(key, KEY_CHECK_PLAINTEXT, "key-check"),
+        secrets: {},
+      };
+      return { vault, key };
+    }
+
+    try {
+      if (decrypt(key, existing.keyCheck, "key-check") !== KEY_CHECK_PLAINTEXT) throw new Error();
+    } catch {
+      throw new Error("Vault master key is incorrect");
+    }
+    return { vault: existing, key };
+  }
+}
+
+function requireSecret(vault: VaultFile, secretName: string): SecretEntry {
+  const entry = vault.secrets[secretName];
+  if (!entry) throw new Error(`Secret not found: ${secretName}`);
+  return entry;
+}
+
+function summarize(secretName: string, entry: SecretEntry): SecretSummary {
+  return {
+    secretName,
+    currentVersion: entry.versions[entry.versions.length - 1].version,
+    versionCount: entry.versions.length,
+    metadata: entry.metadata,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+// Export a singleton for global use
+export const secretVault = new SecretVault();
+
+/**
+ * A config value given inline or as a `{ $secret: name }` reference into the vault
+ */
+export const secretValueSchema = z.union([z.string(), z.object({ $secret: z.string() })]);
+export type SecretValue = z.infer<typeof secretValueSchema>;
+
+/**
+ * Resolve a config value, retrieving vault references as `actor`
+ */
+export async function resolveSecretValue(value: SecretValue | undefined, actor: string): Promise<string | undefined> {
+  if (value === undefined || typeof value === "string") return value;
+  const secret = await secretVault.retrieve(value.$secret, { actor });
+  // Config stores vault values JSON-encoded
+  try {
+    const parsed = JSON.parse(secret.value);
+    return typeof parsed === "string" ? parsed : secret.value;
+  } catch {
+    return secret.value;
+  }
+}
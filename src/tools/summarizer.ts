@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Token-aware map-reduce summarization for the summarize tool
+ *
+ * Input is split into chunks of at most `chunkTokens` tokens (cl100k_base via
+ * js-tiktoken), preferring paragraph and line boundaries. Each chunk is
+ * summarized by an agent (map); while the combined chunk summaries are still
+ * larger than one chunk they are grouped and summarized again (reduce), and
+ * a final pass writes the requested style at the target length. Input that
+ * fits in one chunk gets the final pass only.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Tiktoken } from "js-tiktoken/lite";
+import { agentRegistry } from "../agents/index.js";
+import { getThreadHistory } from "../memory/voltAgentMemory.js";
+
+export const summaryStyles = ['bullet', 'abstract', 'executive', 'action_items'] as const;
+export type SummaryStyle = typeof summaryStyles[number];
+
+const STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  bullet: 'Write a bulleted list of the key points, one fact or idea per bullet, most important first.',
+  abstract: 'Write a single-paragraph abstract in neutral, third-person prose covering purpose, main content and conclusions.',
+  executive: 'Write an executive summary: one-sentence bottom line first, then key findings, risks or issues, and recommended next steps, each under a short heading.',
+  action_items: 'List every action item as "- [owner if known] action (due date if known)". Include decisions that imply work. If there are none, say "No action items."',
+};
+
+/**
+ * Where the text comes from
+ */
+export type SummarySource =
+  | { type: 'text'; text: string }
+  | { type: 'conversation'; conversationId: string; limit?: number }
+  | { type: 'file'; path: string };
+
+export interface SummarizeOptions {
+  style?: SummaryStyle;
+  /** Approximate length of the final summary in tokens */
+  targetTokens?: number;
+  /** Maximum tokens per chunk sent to the model */
+  chunkTokens?: number;
+  /** Extra guidance, e.g. what to focus on */
+  focus?: string;
+  summarizerAgent?: string;
+  signal?: AbortSignal;
+}
+
+export interface SummaryResult {
+  summary: string;
+  style: SummaryStyle;
+  source: { type: SummarySource['type']; label: string };
+  stats: {
+    inputTokens: number;
+    chunks: number;
+    /** Reduce levels between the map pass and the final pass */
+    reduceLevels: number;
+    modelCalls: number;
+    summaryTokens: number;
+    /** The final pass saw only the first `chunkTokens` tokens of the merged summaries */
+    truncated: boolean;
+  };
+}
+
+const dataDirectory = path.resolve("./data");
+// Files larger than this are rejected rather than read into memory
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+// Chunks summarized at the same time
+const MAP_CONCURRENCY = 3;
+// Runs without whitespace are encoded in pieces of this many characters
+const LONG_RUN = /\S{200}/;
+const LONG_RUN_SPLIT = /(\S{200})/;
+
+let encoderPromise: Promise<Tiktoken> | null = null;
+
+/**
+ * cl100k_base encoder, loaded on first use
+ */
+function getEncoder(): Promise<Tiktoken> {
+  encoderPromise ??= import("js-tiktoken/ranks/cl100k_base")
+    .then(({ default: ranks }) => new Tiktoken(ranks))
+    .catch((error) => {
+      encoderPromise = null;
+      throw error;
+    });
+  return encoderPromise;
+}
+
+/**
+ * Encode text; runs without whitespace (minified code, base64) are encoded in
+ * pieces because BPE time grows quadratically with their length
+ */
+function encode(encoder: Tiktoken, text: string): number[] {
+  if (!LONG_RUN.test(text)) return encoder.encode(text);
+  return text.split(LONG_RUN_SPLIT).flatMap(piece => (piece ? encoder.encode(piece) : []));
+}
+
+export async function countTokens(text: string): Promise<number> {
+  return encode(await getEncoder(), text).length;
+}
+
+/**
+ * The first `maxTokens` tokens of text
+ */
+async function truncateToTokens(text: string, maxTokens: number): Promise<string> {
+  const encoder = await getEncoder();
+  return encoder.decode(encode(encoder, text).slice(0, maxTokens));
+}
+
+/**
+ * Split text into chunks of at most `maxTokens` tokens, breaking between
+ * paragraphs, then lines, and only cutting inside a line when it alone is too long
+ */
+export async function chunkByTokens(text: string, maxTokens: number): Promise<string[]> {
+  const encoder = await getEncoder();
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length > 0) chunks.push(current.join("\n").trim());
+    current = [];
+    currentTokens = 0;
+  };
+
+  const add = (piece: string, tokens: number) => {
+    if (currentTokens + tokens > maxTokens) flush();
+    current.push(piece);
+    currentTokens += tokens + 1;
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const paragraphTokens = encode(encoder, paragraph).length;
+    if (paragraphTokens <= maxTokens) {
+      add(`${paragraph}\n`, paragraphTokens);
+      continue;
+    }
+    for (const line of paragraph.split("\n")) {
+      const tokens = encode(encoder, line);
+      if (tokens.length <= maxTokens) {
+        add(line, tokens.length);
+        continue;
+      }
+      flush();
+      for (let start = 0; start < tokens.length; start += maxTokens) {
+        chunks.push(encoder.decode(tokens.slice(start, start + maxTokens)));
+      }
+    }
+  }
+  flush();
+  return chunks.filter(chunk => chunk.length > 0);
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, keeping order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Resolve a path relative to the data directory, refusing anything outside it
+ */
+function resolveDataFile(file: string): string {
+  const resolved = path.resolve(dataDirectory, file);
+  const relative = path.relative(dataDirectory, resolved);
+  if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`File must be inside ${dataDirectory}: ${file}`);
+  }
+  return resolved;
+}
+
+/**
+ * Load the source as plain text with a short label for the result
+ */
+export async function loadSummarySource(source: SummarySource): Promise<{ text: string; label: string }> {
+  switch (source.type) {
+    case 'text':
+      return { text: source.text, label: `${source.text.length} characters of text` };
+    case 'conversation': {
+      const messages = await getThreadHistory(source.conversationId, source.limit ?? 500);
+      if (messages.length === 0) throw new Error(`No messages found for conversation ${source.conversationId}`);
+      const text = messages
+        .map((message: { role?: string; content?: unknown }) => `${message.role ?? 'unknown'}: ${typeof message.content === 'string' ? message.content : JSON.stringify(message.content)}`)
+        .join("\n\n");
+      return { text, label: `conversation ${source.conversationId} (${messages.length} messages)` };
+    }
+    case 'file': {
+      const filePath = resolveDataFile(source.path);
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile()) throw new Error(`Not a file: ${source.path}`);
+      if (stats.size > MAX_FILE_BYTES) throw new Error(`File is too large to summarize (${stats.size} bytes; limit ${MAX_FILE_BYTES})`);
+      const buffer = await fs.readFile(filePath);
+      if (buffer.subarray(0, 8000).includes(0)) throw new Error(`File looks binary: ${source.path}`);
+      return { text: buffer.toString("utf8"), label: path.relative(dataDirectory, filePath).split(path.sep).join("/") };
+    }
+  }
+}
+
+/**
+ * Summarizer: map-reduce summaries through a writing agent
+ */
+export class Summarizer {
+  defaultAgent = 'contentCreator';
+  defaultChunkTokens = 3000;
+  defaultTargetTokens = 300;
+
+  async summarize(source: SummarySource, options: SummarizeOptions = {}): Promise<SummaryResult> {
+    const style = options.style ?? 'bullet';
+    const chunkTokens = options.chunkTokens ?? this.defaultChunkTokens;
+    const targetTokens = options.targetTokens ?? this.defaultTargetTokens;
+    if (targetTokens >= chunkTokens) throw new Error('targetTokens must be smaller than chunkTokens');
+
+    const agentName = options.summarizerAgent ?? this.defaultAgent;
+    const agent = agentRegistry[agentName as keyof typeof agentRegistry];
+    if (!agent) throw new Error(`Unknown summarizer agent: ${agentName}. Available: ${Object.keys(agentRegistry).join(', ')}`);
+
+    const { text, label } = await loadSummarySource(source);
+    if (!text.trim()) throw new Error('Nothing to summarize: the source is empty');
+    const inputTokens = await countTokens(text);
+
+    let modelCalls = 0;
+    const generate = async (prompt: string): Promise<string> => {
+      options.signal?.throwIfAborted();
+      modelCalls++;
+      const response = await agent.generateText(prompt, { userId: 'summarizer', signal: options.signal });
+      return response.text.trim();
+    };
+
+    // Intermediate summaries keep enough detail for the final pass to choose from
+    const partialTarget = Math.max(targetTokens, Math.floor(chunkTokens / 4));
+    const focus = options.focus ? `\nFocus on: ${options.focus}` : '';
+
+    let pieces = await chunkByTokens(text, chunkTokens);
+    const chunks = pieces.length;
+    let reduceLevels = 0;
+
+    if (pieces.length > 1) {
+      // Map: summarize every chunk independently
+      pieces = await mapWithConcurrency(pieces, MAP_CONCURRENCY, (chunk, index) => generate(
+        `[SUMMARIZER for supervisor — part ${index + 1} of ${chunks}]
+Summarize this part of a longer document in about ${partialTarget} tokens. Keep names, numbers, dates, decisions and action items; they may be needed later. Do not add anything that is not in the text.${focus}
+
+---
+${chunk}`
+      ));
+
+      // Reduce: merge groups of summaries until they fit in one chunk, as long
+      // as each level makes them shorter
+      let tokens = await countTokens(pieces.join("\n\n"));
+      while (tokens > chunkTokens) {
+        reduceLevels++;
+        const groups = await chunkByTokens(pieces.join("\n\n"), chunkTokens);
+        const merged = await mapWithConcurrency(groups, MAP_CONCURRENCY, group => generate(
+          `[SUMMARIZER for supervisor — merge level ${reduceLevels}]
+These are summaries of consecutive parts of one document. Merge them into one summary of about ${partialTarget} tokens, removing repetition and keeping names, numbers, dates, decisions and action items.${focus}
+
+---
+${group}`
+        ));
+        const mergedTokens = await countTokens(merged.join("\n\n"));
+        if (mergedTokens >= tokens) break;
+        pieces = merged;
+        tokens = mergedTokens;
+      }
+    }
+
+    // Reduction stalled above one chunk: cut the input to the final pass so it fits
+    let combined = pieces.join("\n\n");
+    const truncated = (await countTokens(combined)) > chunkTokens;
+    if (truncated) combined = await truncateToTokens(combined, chunkTokens);
+
+    const summary = await generate(
+      `[SUMMARIZER for supervisor]
+${pieces.length > 1 || chunks > 1 ? 'These are summaries of consecutive parts of one document. Produce one final summary of the whole document.' : 'Summarize the following text.'}
+${STYLE_INSTRUCTIONS[style]}
+Aim for about ${targetTokens} tokens. Use only information from the text.${focus}
+
+---
+${combined}`
+    );
+
+    return {
+      summary,
+      style,
+      source: { type: source.type, label },
+      stats: { inputTokens, chunks, reduceLevels, modelCalls, summaryTokens: await countTokens(summary), truncated },
+    };
+  }
+}
+
+// Export a singleton for global use
+export const summarizer = new Summarizer();
@@ -1,12 +1,53 @@
 import { createTool, createReasoningTools } from "@voltagent/core";
 import { z } from "zod";
 import type { ToolExecuteOptions, ToolExecutionContext } from "@voltagent/core";
-import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { addSeconds, isAfter, formatISO, differenceInSeconds, formatDistance } from 'date-fns';
 import { BentoCache, bentostore } from 'bentocache';
 import { memoryDriver } from 'bentocache/drivers/memory';
-import { vectorMemory } from '../memory/vectorMemory.js';
 import { agentRegistry } from '../agents/index.js';
+import { performanceProfiler, percentile } from './profiler.js';
+import {
+  parseLogLine,
+  clusterTemplates,
+  analyzeWindows,
+  countTrend,
+  extractDurationMs,
+  logFormats,
+  MIN_ENTRIES_FOR_RARE_TEMPLATES,
+  logLevels,
+  type LogFormat,
+  type LogLevel,
+  type ParsedLogEntry,
+} from './logAnalysis.js';
+import { secretVault } from './secretVault.js';
+import { layeredConfig } from './layeredConfig.js';
+import { notificationChannels, notificationDispatcher } from './notificationDispatcher.js';
+import { listNotifications, listTemplates, saveTemplate } from '../memory/notificationStore.js';
+import { jobScheduler } from './jobScheduler.js';
+import { healthProbes } from './healthProbes.js';
+import { workflowEngines } from './workflowEngines.js';
+import { planRunner } from './planRunner.js';
+import { lessonsLearned, SUPERVISOR_AGENT } from './lessons.js';
+import { summarizer, summaryStyles, type SummarySource, type SummaryStyle } from './summarizer.js';
+import { dataVersioning, WORKING_COPY } from './dataVersioning.js';
+import { batchRunner, type BatchProcessor } from './batchRunner.js';
+import {
+  ackTask,
+  clearQueue,
+  enqueueTask,
+  extendLease,
+  getQueueStats,
+  leaseTask,
+  listDeadLetters,
+  nackTask,
+  peekTask,
+  redriveDeadLetters,
+} from '../memory/taskQueueStore.js';
+import type { JobTarget, MisfirePolicy } from '../memory/scheduledJobStore.js';
+import { appendAuditEntry, listAuditEntries, verifyAuditChain } from '../memory/auditLogStore.js';
+import { listPlans } from '../memory/planStore.js';
 
 // ============================================================================
 // CACHE MANAGEMENT TOOL (now using BentoCache)
@@ -245,168 +286,229 @@ export const validationTool = createTool({
 
   export const performanceProfilerTool = createTool({
     name: 'performance_profiler',
-    description: 'Profile code execution, memory usage, and system performance metrics',
+    description: 'Profile the running process: CPU profiles (.cpuprofile), heap statistics and snapshots, live metrics, and latency benchmarks of registered tools or agents',
     parameters: z.object({
       operation: z.enum(['start_profile', 'end_profile', 'get_metrics', 'benchmark', 'memory_snapshot']).describe('Profiling operation'),
-      profile_id: z.string().optional().describe('Profile session identifier'),
-      function_name: z.string().optional().describe('Function to profile'),
-      iterations: z.number().optional().default(1).describe('Number of iterations for benchmarking'),
+      profile_id: z.string().optional().describe('Profile session identifier (required for end_profile)'),
+      sampling_interval_us: z.number().int().positive().optional().describe('CPU sampling interval in microseconds for start_profile'),
+      function_name: z.string().optional().describe('Registered tool name or agent name to benchmark'),
+      target_type: z.enum(['tool', 'agent']).optional().default('tool').describe('Whether function_name is a tool or an agent'),
+      input: z.any().optional().describe('Tool arguments object, or the prompt string for an agent'),
+      iterations: z.number().int().positive().optional().default(1).describe('Number of iterations for benchmarking'),
+      warmup: z.number().int().min(0).optional().default(0).describe('Untimed warmup iterations before benchmarking'),
+      write_heap_snapshot: z.boolean().optional().default(false).describe('Also write a .heapsnapshot file for memory_snapshot'),
     }),
-    execute: async ({ operation, profile_id, function_name, iterations = 1 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
-      switch (operation) {
-        case 'start_profile': {
-          // Start a profiling session
-          const id = profile_id || `profile_${Date.now()}`;
-          // In a real implementation, start a profiler here
-          return { success: true, operation, profile_id: id, message: 'Profiling started', options, context };
-        }
-        case 'end_profile': {
-          // End a profiling session
-          // In a real implementation, stop the profiler and return results
-          return { success: true, operation, profile_id, message: 'Profiling ended', options, context };
-        }
-        case 'get_metrics': {
-          // Return dummy metrics
-          return {
-            success: true,
-            operation,
-            profile_id,
-            metrics: {
-              cpu: Math.random() * 100,
-              memory: Math.random() * 1024,
-              duration: Math.random() * 1000,
-            },
-            options,
-            context
-          };
-        }
-        case 'benchmark': {
-          // Simulate benchmarking a function
-          if (!function_name) {
-            return { success: false, operation, error: 'function_name is required for benchmarking', options, context };
-          }
-          // Dummy benchmark: simulate execution time
-          const times: number[] = [];
-          for (let i = 0; i < iterations; i++) {
-            const start = Date.now();
-            // Simulate function execution
-            await new Promise(res => setTimeout(res, Math.random() * 10));
-            times.push(Date.now() - start);
-          }
-          const avg = times.reduce((a, b) => a + b, 0) / times.length;
-          return {
-            success: true,
-            operation,
-            function_name,
-            iterations,
-            average_time_ms: avg,
-            times,
-            options,
-            context
-          };
-        }
-        case 'memory_snapshot': {
-          // Return a dummy memory snapshot
-          return {
-            success: true,
-            operation,
-            memory_snapshot: {
-              heapUsed: Math.random() * 1024 * 1024,
-              heapTotal: Math.random() * 2048 * 1024,
-              rss: Math.random() * 4096 * 1024,
-            },
-            options,
-            context
-          };
+    execute: async ({ operation, profile_id, sampling_interval_us, function_name, target_type = 'tool', input, iterations = 1, warmup = 0, write_heap_snapshot = false }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      try {
+        switch (operation) {
+          case 'start_profile': {
+            const id = profile_id || `profile_${Date.now()}`;
+            const started = await performanceProfiler.startProfile(id, sampling_interval_us);
+            return { success: true, operation, profile_id: id, started_at: started.startedAt, message: 'CPU profiling started', options, context };
+          }
+          case 'end_profile': {
+            if (!profile_id) throw new Error('profile_id is required for end_profile');
+            const profile = await performanceProfiler.endProfile(profile_id);
+            return { success: true, operation, profile_id, profile, message: `CPU profile written to ${profile.file}`, options, context };
+          }
+          case 'get_metrics': {
+            return { success: true, operation, metrics: performanceProfiler.metrics(), options, context };
+          }
+          case 'benchmark': {
+            if (!function_name) throw new Error('function_name is required for benchmarking');
+
+            let call: () => Promise<unknown>;
+            if (target_type === 'agent') {
+              const agent = agentRegistry[function_name as keyof typeof agentRegistry];
+              if (!agent) throw new Error(`Unknown agent: ${function_name}. Available: ${Object.keys(agentRegistry).join(', ')}`);
+              if (typeof input !== 'string' || input.length === 0) throw new Error('input must be the prompt string when benchmarking an agent');
+              const conversationId = `benchmark_${function_name}_${Date.now()}`;
+              call = () => agent.generateText(input, { userId: 'performance-profiler', conversationId, signal: options?.signal });
+            } else {
+              const tool = [...supervisorToolset, performanceProfilerTool].find(t => t.name === function_name);
+              if (!tool) throw new Error(`Unknown tool: ${function_name}. Available: ${supervisorToolset.map(t => t.name).join(', ')}`);
+              if (tool.name === 'performance_profiler') throw new Error('performance_profiler cannot benchmark itself');
+              const args = tool.parameters.parse(input ?? {});
+              call = () => tool.execute(args, options);
+            }
+
+            const stats = await performanceProfiler.benchmark(call, iterations, warmup, options?.signal);
+            return {
+              success: true,
+              operation,
+              function_name,
+              target_type,
+              warmup,
+              ...stats,
+              options,
+              context
+            };
+          }
+          case 'memory_snapshot': {
+            const snapshot = await performanceProfiler.memorySnapshot(write_heap_snapshot);
+            return { success: true, operation, memory_snapshot: snapshot, options, context };
+          }
+          default:
+            return { success: false, operation, error: 'Unknown operation', options, context };
         }
-        default:
-          return { success: false, operation, error: 'Unknown operation', options, context };
+      } catch (error) {
+        return { success: false, operation, error: error instanceof Error ? error.message : String(error), options, context };
       }
     }
   });
 
   export const logAnalyzerTool = createTool({
     name: 'log_analyzer',
-    description: 'Analyze logs for patterns, errors, performance issues, and anomalies',
+    description: 'Parse logs (JSON lines, logfmt, syslog, nginx/Apache combined, plain) and analyze them for errors, message templates, latency, rate anomalies and trends',
     parameters: z.object({
-      logs: z.array(z.string()).describe('Log entries to analyze'),
+      logs: z.array(z.string()).describe('Log entries to analyze, one line each'),
       analysis_type: z.enum(['error_detection', 'pattern_analysis', 'performance_metrics', 'anomaly_detection', 'trend_analysis']).describe('Type of log analysis'),
+      format: z.enum(['auto', ...logFormats]).optional().default('auto').describe('Log format; auto detects per line'),
       time_range: z.object({
         start: z.string().optional(),
         end: z.string().optional(),
-      }).optional(),
+      }).optional().describe('Only analyze entries within this ISO-8601 range; entries without a timestamp are excluded'),
       filters: z.object({
-        level: z.array(z.enum(['debug', 'info', 'warn', 'error', 'fatal'])).optional(),
+        level: z.array(z.enum(logLevels)).optional(),
         source: z.array(z.string()).optional(),
         keywords: z.array(z.string()).optional(),
       }).optional(),
+      window_seconds: z.number().positive().optional().default(60).describe('Window size for rate and trend analysis'),
+      z_threshold: z.number().positive().optional().default(3).describe('z-score at which a window is flagged'),
+      rare_template_ratio: z.number().min(0).max(1).optional().default(0.01).describe('Templates at or below this share of entries are reported as rare'),
     }),
-    execute: async ({ logs, analysis_type, time_range, filters }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+    execute: async ({ logs, analysis_type, format, time_range, filters, window_seconds = 60, z_threshold = 3, rare_template_ratio = 0.01 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
       void options;
       void context;
-      void time_range;
-      interface LogAnalysisResult {
-        success: boolean;
-        analysis_type: 'error_detection' | 'pattern_analysis' | 'performance_metrics' | 'anomaly_detection' | 'trend_analysis';
-        log_count: number;
-        errors?: string[];
-        error_count?: number;
-        matches?: string[];
-        match_count?: number;
-        performance_issues?: string[];
-        issue_count?: number;
-        anomalies?: string[];
-        anomaly_count?: number;
-        trends: Record<string, number>;
-        error?: string;
-      }
-      const result: LogAnalysisResult = { success: true, analysis_type, log_count: logs.length, trends: {} };
-      switch (analysis_type) {
-        case 'error_detection': {
-          const errors = logs.filter(l => l.toLowerCase().includes('error'));
-          result.errors = errors;
-          result.error_count = errors.length;
-          break;
+      try {
+        const parsed: ParsedLogEntry[] = logs
+          .map((raw, index) => ({ raw, index }))
+          .filter(({ raw }) => raw.trim().length > 0)
+          .map(({ raw, index }) => parseLogLine(raw, index + 1, format));
+
+        // Time-window, level, source and keyword filters
+        const start = time_range?.start ? new Date(time_range.start) : undefined;
+        const end = time_range?.end ? new Date(time_range.end) : undefined;
+        if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+          throw new Error('time_range.start and time_range.end must be ISO-8601 timestamps');
         }
-        case 'pattern_analysis': {
-          if (filters?.keywords) {
-            const matches = logs.filter(l => filters.keywords!.some(k => l.includes(k)));
-            result.matches = matches;
-            result.match_count = matches.length;
-          } else {
-            result.matches = [];
-            result.match_count = 0;
+        const sources = filters?.source?.map(source => source.toLowerCase());
+        const entries = parsed.filter(entry => {
+          if (start || end) {
+            if (!entry.timestamp) return false;
+            if (start && entry.timestamp < start) return false;
+            if (end && entry.timestamp > end) return false;
           }
-          break;
-        }
-        case 'performance_metrics': {
-          // Dummy: count logs with 'slow' or 'latency'
-          const perf = logs.filter(l => /slow|latency/i.test(l));
-          result.performance_issues = perf;
-          result.issue_count = perf.length;
-          break;
-        }
-        case 'anomaly_detection': {
-          // Dummy: flag logs with 'unexpected'
-          const anomalies = logs.filter(l => l.toLowerCase().includes('unexpected'));
-          result.anomalies = anomalies;
-          result.anomaly_count = anomalies.length;
-          break;
-        }
-        case 'trend_analysis': {
-          // Dummy: count logs per day if time_range is given
-          result.trends = {};
-          logs.forEach(l => {
-            const day = (l.match(/\d{4}-\d{2}-\d{2}/) || ['unknown'])[0];
-            result.trends[day] = (result.trends[day] || 0) + 1;
-          });
-          break;
+          if (filters?.level && (!entry.level || !filters.level.includes(entry.level))) return false;
+          if (sources && (!entry.source || !sources.includes(entry.source.toLowerCase()))) return false;
+          if (filters?.keywords && !filters.keywords.some(keyword => entry.raw.includes(keyword))) return false;
+          return true;
+        });
+
+        const formats: Partial<Record<LogFormat, number>> = {};
+        const levels: Partial<Record<LogLevel, number>> = {};
+        for (const entry of parsed) formats[entry.format] = (formats[entry.format] ?? 0) + 1;
+        for (const entry of entries) if (entry.level) levels[entry.level] = (levels[entry.level] ?? 0) + 1;
+
+        const templates = clusterTemplates(entries);
+        const windows = analyzeWindows(entries, window_seconds * 1000, z_threshold);
+        const flaggedWindows = windows.filter(window => window.flagged);
+        // Long spans are analyzed with wider windows than requested
+        const windowSeconds = windows.length > 0 ? (Date.parse(windows[0].end) - Date.parse(windows[0].start)) / 1000 : window_seconds;
+
+        const summarize = (list: ParsedLogEntry[], limit = 50) => list.slice(0, limit).map(entry => ({
+          line: entry.line,
+          timestamp: entry.timestamp?.toISOString(),
+          level: entry.level,
+          source: entry.source,
+          message: entry.message,
+        }));
+
+        const base = {
+          success: true,
+          analysis_type,
+          log_count: logs.length,
+          parsed_count: parsed.length,
+          analyzed_count: entries.length,
+          excluded_count: parsed.length - entries.length,
+          untimed_count: entries.filter(entry => !entry.timestamp).length,
+          formats,
+          levels,
+          template_count: templates.length,
+          templates: templates.slice(0, 50),
+          flagged_windows: flaggedWindows,
+        };
+
+        switch (analysis_type) {
+          case 'error_detection': {
+            const errors = entries.filter(entry => entry.level === 'error' || entry.level === 'fatal');
+            return {
+              ...base,
+              error_count: errors.length,
+              error_rate: entries.length > 0 ? errors.length / entries.length : 0,
+              error_templates: clusterTemplates(errors).slice(0, 25),
+              errors: summarize(errors),
+            };
+          }
+          case 'pattern_analysis': {
+            const keywordCounts = Object.fromEntries((filters?.keywords ?? []).map(keyword =>
+              [keyword, entries.filter(entry => entry.raw.includes(keyword)).length]
+            ));
+            const bySource: Record<string, number> = {};
+            for (const entry of entries) {
+              const source = entry.source ?? 'unknown';
+              bySource[source] = (bySource[source] ?? 0) + 1;
+            }
+            return { ...base, templates: templates.slice(0, 200), keyword_counts: keywordCounts, sources: bySource };
+          }
+          case 'performance_metrics': {
+            const timed = entries
+              .map(entry => ({ entry, durationMs: extractDurationMs(entry) }))
+              .filter((item): item is { entry: ParsedLogEntry; durationMs: number } => item.durationMs !== undefined);
+            const sorted = timed.map(item => item.durationMs).sort((a, b) => a - b);
+            const p95 = percentile(sorted, 95);
+            const slow = timed.filter(item => item.durationMs > p95).sort((a, b) => b.durationMs - a.durationMs);
+            return {
+              ...base,
+              latency_sample_count: sorted.length,
+              latency_ms: sorted.length > 0 ? {
+                min: sorted[0],
+                p50: percentile(sorted, 50),
+                p95,
+                p99: percentile(sorted, 99),
+                max: sorted[sorted.length - 1],
+                mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+              } : undefined,
+              slow_entries: slow.slice(0, 25).map(item => ({ ...summarize([item.entry])[0], duration_ms: item.durationMs })),
+            };
+          }
+          case 'anomaly_detection': {
+            const rareLimit = Math.max(1, Math.floor(entries.length * rare_template_ratio));
+            const rareTemplates = entries.length >= MIN_ENTRIES_FOR_RARE_TEMPLATES ? templates.filter(template => template.count <= rareLimit) : [];
+            return {
+              ...base,
+              window_seconds: windowSeconds,
+              z_threshold,
+              window_count: windows.length,
+              rare_templates: rareTemplates.slice(0, 50),
+              anomaly_count: flaggedWindows.length + rareTemplates.length,
+            };
+          }
+          case 'trend_analysis': {
+            return {
+              ...base,
+              window_seconds: windowSeconds,
+              windows,
+              slope_per_window: countTrend(windows),
+              error_trend: windows.map(window => ({ start: window.start, errors: window.errorCount })),
+            };
+          }
+          default:
+            return { success: false, analysis_type, error: 'Unknown analysis_type' };
         }
-        default:
-          result.success = false;
-          result.error = 'Unknown analysis_type';
+      } catch (error) {
+        return { success: false, analysis_type, error: error instanceof Error ? error.message : String(error) };
       }
-      return result;
     }
   });
 
@@ -414,74 +516,90 @@ export const validationTool = createTool({
   // CONFIGURATION & ENVIRONMENT TOOLS
   // ============================================================================
 
-  // Use BentoCache namespace for config
-  const configCache = cache.namespace('config');
-
   export const configManagerTool = createTool({
     name: 'config_manager',
-    description: 'Manage application configuration, environment variables, and settings (persistent via BentoCache)',
+    description: 'Layered configuration (defaults, voltmachines.config.yaml/json, VOLTMACHINES_* environment variables, runtime overrides) with value sources, schema validation, environment diffs and file backups',
     parameters: z.object({
-      operation: z.enum(['get', 'set', 'delete', 'list', 'validate', 'backup', 'restore']).describe('Configuration operation'),
-      key: z.string().optional().describe('Configuration key'),
+      operation: z.enum(['get', 'set', 'delete', 'list', 'validate', 'diff', 'backup', 'restore', 'list_backups']).describe('Configuration operation'),
+      key: z.string().optional().describe('Configuration key as a dotted path, e.g. supervisor.maxSubAgents'),
       value: z.unknown().optional().describe('Configuration value'),
       environment: z.string().optional().default('default').describe('Environment context'),
-      encrypted: z.boolean().optional().default(false).describe('Encrypt sensitive values'),
+      compare_environment: z.string().optional().describe('Environment to compare against for diff'),
+      backup_id: z.string().optional().describe('Backup to restore (defaults to the latest for the environment)'),
+      encrypted: z.boolean().optional().default(false).describe('Store the value in the secret vault and keep only a reference in config; only for keys whose schema accepts secret references'),
     }),
-    execute: async ({ operation, key, value, environment = 'default', encrypted = false }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+    execute: async ({ operation, key, value, environment = 'default', compare_environment, backup_id, encrypted = false }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
       try {
-        const envPrefix = `${environment}::`;
         switch (operation) {
           case 'get': {
             if (!key) return { success: false, operation, error: 'Key required', options, context };
-            const val: unknown = await configCache.get({ key: envPrefix + key });
-            return { success: true, operation, key, value: val, environment, options, context };
+            const entry = await layeredConfig.get(key, environment);
+            if (!entry) return { success: false, operation, key, environment, error: `Key not found: ${key}`, options, context };
+            return { success: true, operation, key, value: entry.value, source: entry.source, origin: entry.origin, shadowed: entry.shadowed, environment, options, context };
           }
           case 'set': {
             if (!key) return { success: false, operation, error: 'Key required', options, context };
-            const storeValue = encrypted ? `ENCRYPTED(${JSON.stringify(value)})` : value;
-            await configCache.set({ key: envPrefix + key, value: storeValue });
-            return { success: true, operation, key, value: storeValue, environment, options, context };
+            let storeValue = value;
+            if (encrypted) {
+              // Sensitive values live in the vault; config only holds a reference
+              const secretName = `config.${environment}.${key}`;
+              // Only keys whose schema accepts a vault reference (secretValueSchema) can hold one
+              if ((await layeredConfig.check(key, { $secret: secretName }, environment)).length > 0) {
+                return { success: false, operation, key, environment, error: `${key} cannot be encrypted: its schema does not accept a secret reference`, options, context };
+              }
+              const serialized = JSON.stringify(value);
+              const actor = options?.operationContext?.operationId;
+              const exists = (await secretVault.list()).some(secret => secret.secretName === secretName);
+              if (exists) await secretVault.rotate(secretName, serialized, { actor });
+              else await secretVault.store(secretName, serialized, { actor, metadata: { source: 'config_manager' } });
+              storeValue = { $secret: secretName };
+            }
+            const entry = await layeredConfig.set(key, storeValue, environment);
+            return { success: true, operation, key, value: entry.value, source: entry.source, shadowed: entry.shadowed, environment, options, context };
           }
           case 'delete': {
             if (!key) return { success: false, operation, error: 'Key required', options, context };
-            await configCache.delete({ key: envPrefix + key });
-            return { success: true, operation, key, environment, options, context };
+            const removed = layeredConfig.delete(key, environment);
+            const remaining = await layeredConfig.get(key, environment);
+            return {
+              success: true,
+              operation,
+              key,
+              environment,
+              message: removed ? 'Runtime override removed' : 'No runtime override to remove (file, environment and default layers are read-only here)',
+              value: remaining?.value,
+              source: remaining?.source,
+              options,
+              context
+            };
           }
           case 'list': {
-            const allKeys: string[] = await ((configCache as unknown) as { keys: () => Promise<string[]> }).keys();
-            const envKeys: string[] = allKeys.filter((k) => k.startsWith(envPrefix)).map((k) => k.replace(envPrefix, ''));
-            return { success: true, operation, keys: envKeys, environment, options, context };
+            const resolved = [...(await layeredConfig.resolve(environment)).values()]
+              .filter(entry => !key || entry.key.startsWith(key))
+              .sort((a, b) => a.key.localeCompare(b.key));
+            return { success: true, operation, keys: resolved.map(entry => entry.key), values: resolved, environment, options, context };
           }
           case 'validate': {
-            const allKeys: string[] = await ((configCache as unknown) as { keys: () => Promise<string[]> }).keys();
-            const envKeys: string[] = allKeys.filter((k) => k.startsWith(envPrefix));
-            const invalid: string[] = [];
-            for (const k of envKeys) {
-              const v: unknown = await configCache.get({ key: k });
-              if (v == null) invalid.push(k.replace(envPrefix, ''));
-            }
-            return { success: true, operation, invalid_keys: invalid, environment, options, context };
+            const validation = await layeredConfig.validate(environment);
+            const invalid = validation.sections.flatMap(section => section.issues);
+            return { success: true, operation, invalid_keys: invalid, ...validation, environment, options, context };
+          }
+          case 'diff': {
+            if (!compare_environment) return { success: false, operation, error: 'compare_environment required for diff', options, context };
+            const diff = await layeredConfig.diff(environment, compare_environment);
+            return { success: true, operation, environment, compare_environment, changes: diff, change_count: diff.length, options, context };
           }
           case 'backup': {
-            const allKeys: string[] = await ((configCache as unknown) as { keys: () => Promise<string[]> }).keys();
-            const envKeys: string[] = allKeys.filter((k) => k.startsWith(envPrefix));
-            const backupCache = cache.namespace('config_backup');
-            for (const k of envKeys) {
-              const v: unknown = await configCache.get({ key: k });
-              await backupCache.set({ key: k, value: v });
-            }
-            return { success: true, operation, environment, message: 'Backup completed', options, context };
+            const backup = await layeredConfig.backup(environment);
+            return { success: true, operation, environment, backup_id: backup.id, file: backup.file, message: 'Backup completed', options, context };
           }
           case 'restore': {
-            // Restore all env keys from backup namespace
-            const backupCache = cache.namespace('config_backup');
-            const allKeys: string[] = await ((backupCache as unknown) as { keys: () => Promise<string[]> }).keys();
-            const envKeys: string[] = allKeys.filter((k) => k.startsWith(envPrefix));
-            for (const k of envKeys) {
-              const v: unknown = await backupCache.get({ key: k });
-              await configCache.set({ key: k, value: v });
-            }
-            return { success: true, operation, environment, message: 'Restore completed', options, context };
+            const restored = await layeredConfig.restore(environment, backup_id);
+            return { success: true, operation, environment, ...restored, message: 'Restore completed', options, context };
+          }
+          case 'list_backups': {
+            const backups = await layeredConfig.listBackups(environment);
+            return { success: true, operation, environment, backups, options, context };
           }
           default:
             return { success: false, operation, error: 'Unknown operation', environment, options, context };
@@ -503,52 +621,71 @@ export const validationTool = createTool({
     environment: z.string().optional(),
     keys: z.array(z.string()).optional(),
     invalid_keys: z.array(z.string()).optional(),
+    source: z.enum(['default', 'file', 'env', 'override']).optional(),
     message: z.string().optional(),
     error: z.string().optional(),
     options: z.unknown().optional(),
     context: z.unknown().optional(),
   });
 
-  const secretStore: Record<string, { value: string; metadata?: Record<string, string> }> = {};
-
   export const secretManagerTool = createTool({
     name: 'secret_manager',
-    description: 'Secure management of API keys, passwords, and sensitive configuration data',
+    description: 'Encrypted vault (AES-256-GCM, stored under the data directory) for API keys, passwords and other sensitive values, with version history on rotation and an access audit log. Values are only returned by retrieve.',
     parameters: z.object({
-      operation: z.enum(['store', 'retrieve', 'delete', 'rotate', 'list_keys', 'audit']).describe('Secret management operation'),
-      secret_name: z.string().describe('Name/identifier for the secret'),
-      secret_value: z.string().optional().describe('Secret value to store'),
-      encryption_key: z.string().optional().describe('Custom encryption key'),
+      operation: z.enum(['store', 'retrieve', 'delete', 'rotate', 'list_keys', 'history', 'audit']).describe('Secret management operation'),
+      secret_name: z.string().optional().describe('Name/identifier for the secret (required except for list_keys and audit)'),
+      secret_value: z.string().optional().describe('Secret value to store or rotate to'),
+      version: z.number().int().positive().optional().describe('Version to retrieve (defaults to the current one)'),
+      encryption_key: z.string().optional().describe('Vault passphrase, used only when VAULT_MASTER_KEY and VAULT_PASSPHRASE are not set'),
       metadata: z.record(z.string()).optional().describe('Additional metadata'),
+      limit: z.number().int().positive().optional().default(100).describe('Maximum audit entries to return'),
     }),
-    execute: async ({ operation, secret_name, secret_value, encryption_key, metadata }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
-      if (options?.logger) options.logger.info(`Secret operation: ${operation}, secret_name: ${secret_name}`);
-      switch (operation) {
-        case 'store':
-          if (!secret_value) return { success: false, operation, error: 'secret_value required', secret_name, options, context };
-          secretStore[secret_name] = {
-            value: encryption_key ? `ENCRYPTED(${secret_value})` : secret_value,
-            metadata
-          };
-          return { success: true, operation, secret_name, options, context };
-        case 'retrieve':
-          if (!secretStore[secret_name]) return { success: false, operation, error: 'Secret not found', secret_name, options, context };
-          return { success: true, operation, secret_name, secret_value: secretStore[secret_name].value, metadata: secretStore[secret_name].metadata, options, context };
-        case 'delete':
-          delete secretStore[secret_name];
-          return { success: true, operation, secret_name, options, context };
-        case 'rotate':
-          if (!secret_value) return { success: false, operation, error: 'secret_value required for rotation', secret_name, options, context };
-          if (!secretStore[secret_name]) return { success: false, operation, error: 'Secret not found', secret_name, options, context };
-          secretStore[secret_name].value = encryption_key ? `ENCRYPTED(${secret_value})` : secret_value;
-          return { success: true, operation, secret_name, options, context };
-        case 'list_keys':
-          return { success: true, operation, keys: Object.keys(secretStore), options, context };
-        case 'audit':
-          // Dummy: return metadata for all secrets
-          return { success: true, operation, audit: Object.entries(secretStore).map(([k, v]) => ({ secret_name: k, metadata: v.metadata })), options, context };
-        default:
-          return { success: false, operation, error: 'Unknown operation', secret_name, options, context };
+    execute: async ({ operation, secret_name, secret_value, version, encryption_key, metadata, limit = 100 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      if (options?.logger) options.logger.info(`Secret operation: ${operation}, secret_name: ${secret_name ?? '-'}`);
+      const actor = options?.operationContext?.operationId;
+      const requireName = () => {
+        if (!secret_name) throw new Error(`secret_name is required for ${operation}`);
+        return secret_name;
+      };
+
+      try {
+        switch (operation) {
+          case 'store': {
+            if (!secret_value) throw new Error('secret_value required');
+            const secret = await secretVault.store(requireName(), secret_value, { metadata, passphrase: encryption_key, actor });
+            return { success: true, operation, secret_name, secret, options, context };
+          }
+          case 'retrieve': {
+            // The only operation that ever returns plaintext
+            const secret = await secretVault.retrieve(requireName(), { version, passphrase: encryption_key, actor });
+            return { success: true, operation, secret_name, secret_value: secret.value, version: secret.version, metadata: secret.metadata, options, context };
+          }
+          case 'delete': {
+            const deleted = await secretVault.delete(requireName(), { passphrase: encryption_key, actor });
+            return { success: true, operation, secret_name, ...deleted, options, context };
+          }
+          case 'rotate': {
+            if (!secret_value) throw new Error('secret_value required for rotation');
+            const secret = await secretVault.rotate(requireName(), secret_value, { metadata, passphrase: encryption_key, actor });
+            return { success: true, operation, secret_name, secret, options, context };
+          }
+          case 'list_keys': {
+            const secrets = await secretVault.list({ actor });
+            return { success: true, operation, keys: secrets.map(secret => secret.secretName), secrets, options, context };
+          }
+          case 'history': {
+            const versions = await secretVault.history(requireName());
+            return { success: true, operation, secret_name, versions, options, context };
+          }
+          case 'audit': {
+            const audit = await secretVault.audit({ secretName: secret_name, limit });
+            return { success: true, operation, secret_name, audit, options, context };
+          }
+          default:
+            return { success: false, operation, error: 'Unknown operation', secret_name, options, context };
+        }
+      } catch (error) {
+        return { success: false, operation, error: error instanceof Error ? error.message : String(error), secret_name, options, context };
       }
     }
   });
@@ -559,54 +696,78 @@ export const validationTool = createTool({
 
   export const notificationTool = createTool({
     name: 'notification_system',
-    description: 'Send notifications via multiple channels with templating and scheduling, including direct agent-to-agent communication',
+    description: 'Send notifications over webhook (HMAC-signed, retried), Slack, a JSONL file inbox, the console, SMTP email or directly to agents. Supports persisted {{variable}} templates, scheduled sends that survive restarts, and delivery status from recorded attempts.',
     parameters: z.object({
-      operation: z.enum(['send', 'schedule', 'cancel', 'get_status', 'create_template']).describe('Notification operation'),
-      channel: z.enum(['email', 'slack', 'webhook', 'console', 'file', 'agent']).describe('Notification channel'),
-      message: z.string().describe('Notification message'),
-      recipients: z.array(z.string()).optional().describe('List of recipients (for agent channel, agent names)'),
-      template: z.string().optional().describe('Message template name'),
-      variables: z.record(z.unknown()).optional().describe('Template variables'),
-      schedule_time: z.string().datetime().describe('Scheduled time in ISO8601 format'),
+      operation: z.enum(['send', 'schedule', 'cancel', 'get_status', 'create_template', 'list_templates']).describe('Notification operation'),
+      channel: z.enum(notificationChannels).optional().describe('Notification channel (required for send and schedule)'),
+      message: z.string().optional().describe('Notification message, or the template body for create_template'),
+      subject: z.string().optional().describe('Subject line (email subject, webhook/console title)'),
+      recipients: z.array(z.string()).optional().describe('Recipients: email addresses, webhook/Slack URLs or agent names. Webhook and Slack fall back to the configured URL'),
+      template: z.string().optional().describe('Template name to send with, or to create'),
+      variables: z.record(z.unknown()).optional().describe('Template variables for {{name}} placeholders'),
+      schedule_time: z.string().datetime().optional().describe('Scheduled time in ISO8601 format (required for schedule)'),
+      notification_id: z.string().optional().describe('Notification ID for cancel and get_status'),
       priority: z.enum(['low', 'normal', 'high', 'urgent']).optional().default('normal'),
     }),
-    execute: async ({ operation, channel, message, recipients, template, variables, schedule_time, priority = 'normal' }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
-      if (options?.logger) options.logger.info(`Notification operation: ${operation}, channel: ${channel}`);
-      if (operation === 'send' && channel === 'agent') {
-        if (!recipients || recipients.length === 0) {
-          return { success: false, operation, channel, error: 'recipients required for agent channel', options, context };
-        }
-        const results: Record<string, unknown> = {};
-        for (const agentName of recipients) {
-          const agent = agentRegistry[agentName as keyof typeof agentRegistry];
-          if (!agent) {
-            results[agentName] = { error: 'Agent not found' };
-            continue;
-          }
-          try {
-            const response = await agent.generateText(message, variables || {});
-            results[agentName] = response;
-          } catch (err) {
-            results[agentName] = { error: err instanceof Error ? err.message : String(err) };
+    execute: async ({ operation, channel, message, subject, recipients = [], template, variables, schedule_time, notification_id, priority = 'normal' }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      if (options?.logger) options.logger.info(`Notification operation: ${operation}, channel: ${channel ?? '-'}`);
+      try {
+        switch (operation) {
+          case 'send': {
+            if (!channel) throw new Error('channel required for send');
+            const { notification, deliveries } = await notificationDispatcher.send({ channel, recipients, message, subject, template, variables, priority });
+            return { success: notification.status === 'delivered', operation, channel, notification_id: notification.id, status: notification.status, notification, deliveries, options, context };
           }
+          case 'schedule': {
+            if (!channel) throw new Error('channel required for schedule');
+            if (!schedule_time) throw new Error('schedule_time required');
+            const scheduleAt = new Date(schedule_time);
+            if (!isAfter(scheduleAt, new Date())) throw new Error('schedule_time must be in the future');
+            const notification = await notificationDispatcher.schedule({ channel, recipients, message, subject, template, variables, priority }, scheduleAt);
+            return {
+              success: true,
+              operation,
+              channel,
+              notification_id: notification.id,
+              status: notification.status,
+              schedule_time: notification.scheduleTime,
+              sends_in: formatDistance(scheduleAt, new Date()),
+              options,
+              context,
+            };
+          }
+          case 'cancel': {
+            if (!notification_id) throw new Error('notification_id required for cancel');
+            const cancelled = await notificationDispatcher.cancel(notification_id);
+            const { notification } = await notificationDispatcher.status(notification_id);
+            if (!cancelled) {
+              return { success: false, operation, notification_id, status: notification.status, error: `Cannot cancel a notification that is ${notification.status}`, options, context };
+            }
+            return { success: true, operation, notification_id, status: notification.status, cancelled, options, context };
+          }
+          case 'get_status': {
+            if (!notification_id) {
+              const notifications = await listNotifications({ channel, limit: 20 });
+              return { success: true, operation, channel, notifications, options, context };
+            }
+            const { notification, deliveries } = await notificationDispatcher.status(notification_id);
+            return { success: true, operation, notification_id, status: notification.status, notification, deliveries, options, context };
+          }
+          case 'create_template': {
+            if (!template) throw new Error('template (name) required for create_template');
+            if (!message) throw new Error('message (template body) required for create_template');
+            const saved = await saveTemplate({ name: template, subject, body: message, channel });
+            return { success: true, operation, template: saved, options, context };
+          }
+          case 'list_templates': {
+            const templates = await listTemplates();
+            return { success: true, operation, templates, options, context };
+          }
+          default:
+            return { success: false, operation, channel, error: 'Unknown operation', options, context };
         }
-        return { success: true, operation, channel, recipients, results, options, context };
-      }
-      // Simulate other channels
-      switch (operation) {
-        case 'send':
-          return { success: true, operation, channel, message, recipients, priority, variables, sent: true, options, context };
-        case 'schedule':
-          if (!schedule_time) return { success: false, operation, error: 'schedule_time required', channel, options, context };
-          return { success: true, operation, channel, message, recipients, schedule_time, priority, scheduled: true, options, context };
-        case 'cancel':
-          return { success: true, operation, channel, cancelled: true, options, context };
-        case 'get_status':
-          return { success: true, operation, channel, status: 'delivered', options, context };
-        case 'create_template':
-          return { success: true, operation, channel, template, created: true, options, context };
-        default:
-          return { success: false, operation, channel, error: 'Unknown operation', options, context };
+      } catch (error) {
+        return { success: false, operation, channel, notification_id, error: error instanceof Error ? error.message : String(error), options, context };
       }
     }
   });
@@ -615,102 +776,88 @@ export const validationTool = createTool({
   // BATCH PROCESSING & QUEUE TOOLS
   // ============================================================================
 
-  // Use BentoCache namespace for batch jobs
-  const batchCache = cache.namespace('batch');
-
   export const batchProcessorTool = createTool({
     name: 'batch_processor',
-    description: 'Process large datasets in batches with progress tracking and error handling (persistent via BentoCache, real vector embedding)',
+    description: 'Process datasets item by item with a named processor: embed (vector memory), agent (prompt per item, {{item}} placeholder), tool (call a registered tool per item) or transform (data_formatter conversion). Progress and per-item results are checkpointed under the data directory so resume continues after a crash; failed items are kept as an error set that retry_failed can re-queue.',
     parameters: z.object({
-      operation: z.enum(['start_batch', 'process_chunk', 'get_progress', 'pause', 'resume', 'cancel']).describe('Batch operation'),
+      operation: z.enum(['start_batch', 'process_chunk', 'get_progress', 'pause', 'resume', 'cancel', 'retry_failed', 'get_results']).describe('Batch operation'),
       batch_id: z.string().optional().describe('Batch job identifier'),
       data: z.array(z.unknown()).optional().describe('Data to process'),
       batch_size: z.number().optional().default(100).describe('Items per batch'),
       parallel: z.boolean().optional().default(false).describe('Enable parallel processing'),
+      processor: z.enum(['embed', 'agent', 'tool', 'transform']).optional().default('embed').describe('What to do with each item (start_batch)'),
+      agent_name: z.string().optional().describe('Agent for the agent processor'),
+      prompt: z.string().optional().describe('Prompt for the agent processor; {{item}} is replaced by the item, otherwise the item is appended'),
+      tool_name: z.string().optional().describe('Tool for the tool processor'),
+      tool_args: z.record(z.unknown()).optional().default({}).describe('Fixed tool arguments; object items are merged in'),
+      item_arg: z.string().optional().describe('Tool argument that receives the whole item (default: merge object items, else "input")'),
+      input_format: z.enum(['json', 'csv', 'xml', 'yaml', 'auto']).optional().default('auto').describe('Input format for the transform processor'),
+      output_format: z.enum(['json', 'csv', 'xml', 'yaml', 'table']).optional().describe('Output format for the transform processor'),
+      item_indexes: z.array(z.number().int().min(0)).optional().describe('Items to retry (retry_failed); defaults to every retryable failure'),
+      status: z.enum(['done', 'failed', 'pending']).optional().describe('Result filter for get_results'),
+      offset: z.number().int().min(0).optional().default(0),
+      limit: z.number().int().positive().optional().default(100),
     }),
-    execute: async ({ operation, batch_id, data, batch_size = 100, parallel = false }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+    execute: async ({ operation, batch_id, data, batch_size = 100, parallel = false, processor = 'embed', agent_name, prompt, tool_name, tool_args = {}, item_arg, input_format, output_format, item_indexes, status, offset = 0, limit = 100 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      const requireBatchId = () => {
+        if (!batch_id) throw new Error(`batch_id is required for ${operation}`);
+        return batch_id;
+      };
+
       try {
-        const now = formatISO(new Date());
         switch (operation) {
           case 'start_batch': {
             if (!data) return { success: false, operation, error: 'Data required', options, context };
-            const id = batch_id || `batch_${Date.now()}`;
-            const job = { data: [...data], progress: 0, status: 'running', created_at: now };
-            await batchCache.set({ key: id, value: job });
-            return { success: true, operation, batch_id: id, batch_size, status: 'started', options, context };
+            let config: BatchProcessor;
+            switch (processor) {
+              case 'agent':
+                if (!agent_name || !prompt) throw new Error('agent_name and prompt are required for the agent processor');
+                config = { type: 'agent', agentName: agent_name, prompt };
+                break;
+              case 'tool':
+                if (!tool_name) throw new Error('tool_name is required for the tool processor');
+                config = { type: 'tool', toolName: tool_name, args: tool_args, itemArg: item_arg };
+                break;
+              case 'transform':
+                if (!output_format) throw new Error('output_format is required for the transform processor');
+                config = { type: 'transform', inputFormat: input_format, outputFormat: output_format };
+                break;
+              default:
+                config = { type: 'embed' };
+            }
+            const job = await batchRunner.create({ id: batch_id, items: data, processor: config, batchSize: batch_size, parallel });
+            return { success: true, operation, batch_id: job.id, batch_size, processor, total: job.total, status: 'started', options, context };
           }
           case 'process_chunk': {
-            if (!batch_id) return { success: false, operation, error: 'batch_id required', options, context };
-            const job = await batchCache.get({ key: batch_id });
-            if (!job) return { success: false, operation, error: 'Invalid batch_id', options, context };
-            const chunk = job.data.splice(0, batch_size);
-            job.progress += chunk.length;
-            // Real processing: embed each item using vectorMemory
-            const processItem = async (item: unknown): Promise<unknown> => {
-              let result = item;
-              try {
-                if (typeof item === 'string') {
-                  await vectorMemory.addMessage({ id: batch_id, text: item, role: 'user' });
-                  result = { status: 'embedded', text: item };
-                } else if (typeof item === 'object' && item !== null && 'text' in item) {
-                  const allowedRoles = ['user', 'assistant', 'system', 'tool'] as const;
-                  type AllowedRole = typeof allowedRoles[number];
-                  function isAllowedRole(r: unknown): r is AllowedRole {
-                    return typeof r === 'string' && (allowedRoles as readonly string[]).includes(r);
-                  }
-                  const { text, role } = item as { text: string; role?: string };
-                  const safeRole: AllowedRole = isAllowedRole(role) ? role : 'user';
-                  await vectorMemory.addMessage({ id: batch_id, text, role: safeRole });
-                  result = { status: 'embedded', text, role: safeRole };
-                }
-              } catch (err) {
-                result = { status: 'error', error: err instanceof Error ? err.message : String(err), item };
-              }
-              return result;
-            };
-            let results: unknown[];
-            if (parallel) {
-              results = await Promise.all(chunk.map(processItem));
-            } else {
-              results = [];
-              for (const item of chunk) {
-                const res = await processItem(item);
-                results.push(res);
-              }
-            }
-            if (job.data.length === 0) job.status = 'completed';
-            await batchCache.set({ key: batch_id, value: job });
-            return { success: true, operation, batch_id, processed: chunk.length, results, remaining: job.data.length, status: job.status, options, context };
+            const { progress, results } = await batchRunner.processChunk(requireBatchId(), { batchSize: batch_size, signal: options?.signal });
+            return { success: true, operation, batch_id, processed: results.length, results, progress, remaining: progress.remaining, status: progress.job.status, options, context };
           }
           case 'get_progress': {
-            if (!batch_id) return { success: false, operation, error: 'batch_id required', options, context };
-            const job = await batchCache.get({ key: batch_id });
-            if (!job) return { success: false, operation, error: 'Invalid batch_id', options, context };
-            return { success: true, operation, batch_id, progress: job.progress, remaining: job.data.length, status: job.status, options, context };
+            const progress = await batchRunner.progress(requireBatchId());
+            return { success: true, operation, batch_id, progress: progress.processed, remaining: progress.remaining, status: progress.job.status, details: progress, options, context };
           }
           case 'pause': {
-            if (!batch_id) return { success: false, operation, error: 'batch_id required', options, context };
-            const job = await batchCache.get({ key: batch_id });
-            if (!job) return { success: false, operation, error: 'Invalid batch_id', options, context };
-            job.status = 'paused';
-            await batchCache.set({ key: batch_id, value: job });
-            return { success: true, operation, batch_id, status: 'paused', options, context };
+            const job = await batchRunner.setStatus(requireBatchId(), 'paused');
+            return { success: true, operation, batch_id, status: job.status, options, context };
           }
           case 'resume': {
-            if (!batch_id) return { success: false, operation, error: 'batch_id required', options, context };
-            const job = await batchCache.get({ key: batch_id });
-            if (!job) return { success: false, operation, error: 'Invalid batch_id', options, context };
-            job.status = 'running';
-            await batchCache.set({ key: batch_id, value: job });
-            return { success: true, operation, batch_id, status: 'running', options, context };
+            // Reload from the checkpoint and continue with the next chunk
+            const id = requireBatchId();
+            await batchRunner.setStatus(id, 'running');
+            const { progress, results } = await batchRunner.processChunk(id, { batchSize: batch_size, signal: options?.signal });
+            return { success: true, operation, batch_id, processed: results.length, results, progress, remaining: progress.remaining, status: progress.job.status, options, context };
           }
           case 'cancel': {
-            if (!batch_id) return { success: false, operation, error: 'batch_id required', options, context };
-            const job = await batchCache.get({ key: batch_id });
-            if (!job) return { success: false, operation, error: 'Invalid batch_id', options, context };
-            job.status = 'cancelled';
-            await batchCache.set({ key: batch_id, value: job });
-            return { success: true, operation, batch_id, status: 'cancelled', options, context };
+            const job = await batchRunner.setStatus(requireBatchId(), 'cancelled');
+            return { success: true, operation, batch_id, status: job.status, options, context };
+          }
+          case 'retry_failed': {
+            const { queued, job } = await batchRunner.retryFailed(requireBatchId(), item_indexes);
+            return { success: true, operation, batch_id, queued, status: job.status, message: `${queued.length} item(s) queued for retry; run process_chunk to process them`, options, context };
+          }
+          case 'get_results': {
+            const results = await batchRunner.results(requireBatchId(), { status, offset, limit });
+            return { success: true, operation, batch_id, results, options, context };
           }
           default:
             return { success: false, operation, error: 'Unknown operation', options, context };
@@ -721,117 +868,114 @@ export const validationTool = createTool({
     }
   });
 
-  // Use BentoCache namespace for queues
-  const queueCache = cache.namespace('queue');
-
   export const queueManagerTool = createTool({
     name: 'queue_manager',
-    description: 'Manage task queues with priorities, scheduling, and worker coordination (persistent via BentoCache)',
+    description: 'Durable task queues (LibSQL) with priorities, delays and lease-based delivery. dequeue leases a task for a visibility timeout; workers must ack it, nack it for a retry, or extend_lease. Expired leases are redelivered, and tasks that exhaust max_attempts move to the queue\'s dead-letter queue.',
     parameters: z.object({
-      operation: z.enum(['enqueue', 'dequeue', 'peek', 'size', 'clear', 'get_stats']).describe('Queue operation'),
-      queue_name: z.string().describe('Queue identifier'),
+      operation: z.enum(['enqueue', 'dequeue', 'ack', 'nack', 'extend_lease', 'peek', 'size', 'clear', 'get_stats', 'list_dead_letters', 'redrive']).describe('Queue operation'),
+      queue_name: z.string().optional().describe('Queue identifier (optional for get_stats, which then reports every queue)'),
       task: z.object({
         id: z.string().optional(),
         data: z.unknown(),
         priority: z.number().optional().default(0),
-        delay: z.number().optional().default(0),
-        max_attempts: z.number().optional().default(1),
+        delay: z.number().optional().default(0).describe('Seconds before the task is first delivered'),
+        max_attempts: z.number().int().positive().optional().default(3).describe('Deliveries before the task is dead-lettered'),
       }).optional().describe('Task to enqueue'),
-      worker_id: z.string().optional().describe("Worker")
+      worker_id: z.string().optional().describe("Worker"),
+      task_id: z.string().optional().describe('Task ID for ack, nack, extend_lease and redrive'),
+      lease_id: z.string().optional().describe('Lease ID returned by dequeue (ack, nack, extend_lease)'),
+      visibility_timeout: z.number().positive().optional().default(30).describe('Lease duration in seconds (dequeue, extend_lease)'),
+      retry_delay: z.number().min(0).optional().default(0).describe('Seconds before a nacked task is redelivered'),
+      error: z.string().optional().describe('Failure reason recorded by nack'),
+      include_dead_letters: z.boolean().optional().default(false).describe('Also clear the dead-letter queue'),
     }),
-    execute: async function (
-      args: {
-        operation: "clear" | "enqueue" | "dequeue" | "peek" | "size" | "get_stats";
-        queue_name: string;
-        task?: { priority: number; delay: number; max_attempts: number; data?: unknown; id?: string | undefined; } | undefined;
-        worker_id?: string | undefined;
-      },
-      options?: ToolExecuteOptions,
-      context?: ToolExecutionContext
-    ): Promise<unknown> {
-      const { operation, queue_name, task, worker_id: _worker_id } = args;
+    execute: async ({ operation, queue_name, task, worker_id, task_id, lease_id, visibility_timeout = 30, retry_delay = 0, error: failure, include_dead_letters = false }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      const requireQueue = () => {
+        if (!queue_name) throw new Error(`queue_name is required for ${operation}`);
+        return queue_name;
+      };
+      const requireLease = () => {
+        if (!task_id || !lease_id) throw new Error(`task_id and lease_id are required for ${operation}`);
+        return { taskId: task_id, leaseId: lease_id };
+      };
+
       try {
-        const now = formatISO(new Date());
-        // Get or initialize the queue
-        let queue = await queueCache.get({ key: queue_name });
-        if (!queue) queue = [];
         switch (operation) {
           case 'enqueue': {
             if (!task) {
-              return { success: false, error: 'No task provided for enqueue', operation, queue_name };
+              return { success: false, error: 'No task provided for enqueue', operation, queue_name, options, context };
             }
-            const taskId = task.id ?? crypto.randomUUID();
-            const newTask = { ...task, id: taskId, enqueueTime: now, attempts: 0 };
-            queue.push(newTask);
-            await queueCache.set({ key: queue_name, value: queue });
-            return { success: true, operation, queue_name, task: newTask, message: 'Task enqueued', options, context };
+            const queued = await enqueueTask(requireQueue(), {
+              id: task.id,
+              data: task.data,
+              priority: task.priority,
+              delayMs: (task.delay ?? 0) * 1000,
+              maxAttempts: task.max_attempts,
+            });
+            return { success: true, operation, queue_name, task: queued, message: 'Task enqueued', options, context };
           }
           case 'dequeue': {
-            if (queue.length === 0) {
-              return { success: false, error: 'Queue is empty', operation, queue_name };
-            }
-            let selectedIndex = -1;
-            let maxPriorityFound = -Infinity;
-            for (let i = 0; i < queue.length; i++) {
-              const tTask = queue[i] as { delay?: number, enqueueTime?: string, priority?: number };
-              const delayMs = ((tTask.delay ?? 0) * 1000);
-              const enqueueTime = tTask.enqueueTime ? new Date(tTask.enqueueTime).getTime() : 0;
-              if (Date.now() >= (enqueueTime + delayMs)) {
-                const p = tTask.priority ?? 0;
-                if (p > maxPriorityFound) {
-                  maxPriorityFound = p;
-                  selectedIndex = i;
-                }
-              }
-            }
-            if (selectedIndex === -1) {
-              return { success: false, error: 'No tasks available for immediate execution', operation, queue_name };
+            const leased = await leaseTask(requireQueue(), { workerId: worker_id, visibilityTimeoutMs: visibility_timeout * 1000 });
+            if (!leased) {
+              return { success: false, error: 'No tasks available for immediate execution', operation, queue_name, options, context };
             }
-            const dequeuedTask = queue.splice(selectedIndex, 1)[0];
-            if (_worker_id && typeof dequeuedTask === 'object' && dequeuedTask !== null) {
-              (dequeuedTask as Record<string, unknown>).assignedTo = _worker_id;
-            }
-            await queueCache.set({ key: queue_name, value: queue });
-            return { success: true, operation, queue_name, task: dequeuedTask, message: 'Task dequeued', worker_id: _worker_id, options, context };
+            return {
+              success: true,
+              operation,
+              queue_name,
+              task: leased,
+              lease_id: leased.leaseId,
+              lease_expires_at: leased.leaseExpiresAt,
+              message: `Task leased for ${visibility_timeout}s (attempt ${leased.attempts} of ${leased.maxAttempts}); ack, nack or extend_lease before it expires`,
+              worker_id,
+              options,
+              context,
+            };
+          }
+          case 'ack': {
+            const { taskId, leaseId } = requireLease();
+            const acked = await ackTask(requireQueue(), taskId, leaseId);
+            return { success: true, operation, queue_name, task_id, attempts: acked.attempts, message: 'Task completed', options, context };
+          }
+          case 'nack': {
+            const { taskId, leaseId } = requireLease();
+            const nacked = await nackTask(requireQueue(), taskId, leaseId, { delayMs: retry_delay * 1000, error: failure });
+            const message = nacked.state === 'dead'
+              ? `Task dead-lettered after ${nacked.attempts} attempt(s)`
+              : `Task will be redelivered ${retry_delay > 0 ? `in ${retry_delay}s` : 'immediately'}`;
+            return { success: true, operation, queue_name, task: nacked, dead_lettered: nacked.state === 'dead', message, options, context };
+          }
+          case 'extend_lease': {
+            const { taskId, leaseId } = requireLease();
+            const extended = await extendLease(requireQueue(), taskId, leaseId, visibility_timeout * 1000);
+            return { success: true, operation, queue_name, task_id, lease_id, lease_expires_at: extended.leaseExpiresAt, options, context };
           }
           case 'peek': {
-            if (queue.length === 0) {
-              return { success: false, error: 'Queue is empty', operation, queue_name };
-            }
-            let availableTask = null;
-            let highestPriority = -Infinity;
-            for (let i = 0; i < queue.length; i++) {
-              const tTask = queue[i] as { delay?: number, enqueueTime?: string, priority?: number };
-              const delayMs = ((tTask.delay ?? 0) * 1000);
-              const enqueueTime = tTask.enqueueTime ? new Date(tTask.enqueueTime).getTime() : 0;
-              if (Date.now() >= (enqueueTime + delayMs)) {
-                const p = tTask.priority ?? 0;
-                if (p > highestPriority) {
-                  highestPriority = p;
-                  availableTask = tTask;
-                }
-              }
-            }
-            if (!availableTask) {
-              return { success: false, error: 'Queue is empty or tasks are delayed', operation, queue_name };
+            const next = await peekTask(requireQueue());
+            if (!next) {
+              return { success: false, error: 'Queue is empty or tasks are delayed', operation, queue_name, options, context };
             }
-            return { success: true, operation, queue_name, task: availableTask, message: 'Peeked at task', options, context };
+            return { success: true, operation, queue_name, task: next, message: 'Peeked at task', options, context };
           }
           case 'size': {
-            return { success: true, operation, queue_name, size: queue.length, message: 'Queue size', options, context };
+            const [stats] = await getQueueStats(requireQueue());
+            return { success: true, operation, queue_name, size: stats.ready + stats.delayed + stats.inFlight, stats, message: 'Queue size (excluding dead letters)', options, context };
           }
           case 'clear': {
-            await queueCache.set({ key: queue_name, value: [] });
-            return { success: true, operation, queue_name, message: 'Queue cleared', options, context };
+            const removed = await clearQueue(requireQueue(), include_dead_letters);
+            return { success: true, operation, queue_name, removed, message: include_dead_letters ? 'Queue and dead-letter queue cleared' : 'Queue cleared', options, context };
           }
           case 'get_stats': {
-            // For simplicity, just return the current queue length and timestamps
-            const stats = {
-              enqueued: queue.length,
-              oldest: queue[0]?.enqueueTime,
-              newest: queue[queue.length - 1]?.enqueueTime
-            };
-            return { success: true, operation, queue_name, stats, options, context };
+            const queues = await getQueueStats(queue_name);
+            return { success: true, operation, queue_name, stats: queue_name ? queues[0] : undefined, queues, options, context };
+          }
+          case 'list_dead_letters': {
+            const dead = await listDeadLetters(requireQueue());
+            return { success: true, operation, queue_name, dead_letters: dead, count: dead.length, options, context };
+          }
+          case 'redrive': {
+            const redriven = await redriveDeadLetters(requireQueue(), task_id);
+            return { success: true, operation, queue_name, task_id, redriven, message: `${redriven} task(s) returned to the queue`, options, context };
           }
           default:
             return { success: false, error: `Unknown operation: ${operation}`, operation, queue_name, options, context };
@@ -843,7 +987,6 @@ export const validationTool = createTool({
   });
 
   // New tool: Provides system resource usage metrics
-  const scheduledTasks: Record<string, NodeJS.Timeout> = {};
   export const resourceMonitorTool = createTool({
     name: 'resource_monitor',
     description: 'Provides current system resource usage metrics, including memory, CPU usage, and uptime',
@@ -867,27 +1010,79 @@ export const validationTool = createTool({
   // New tool: Schedules a task to be executed at a specified time
   export const taskSchedulerTool = createTool({
     name: 'task_scheduler',
-    description: 'Schedules a task to be executed at a specified time',
+    description: 'Persistent job scheduler. Schedules a stored agent prompt or tool call to run once at an ISO8601 time or repeatedly on a cron expression (e.g. "0 9 * * MON-FRI", "@hourly"). Jobs survive restarts; firings missed while the process was down follow the misfire policy. Supports list, pause, resume, cancel, run_now and run history with outputs.',
     parameters: z.object({
-      taskName: z.string().describe('Name of the task to schedule'),
-      scheduleTime: z.string().datetime().describe('Scheduled time in ISO8601 format')
+      operation: z.enum(['create', 'list', 'get', 'pause', 'resume', 'cancel', 'run_now', 'history']).optional().default('create').describe('Scheduler operation'),
+      taskName: z.string().optional().describe('Name of the task to schedule (required for create)'),
+      scheduleTime: z.string().optional().describe('ISO8601 time for a one-shot job, or a five-field cron expression / @hourly, @daily, @weekly, @monthly'),
+      taskId: z.string().optional().describe('Job ID for get, pause, resume, cancel, run_now and history'),
+      targetType: z.enum(['agent', 'tool']).optional().describe('Run an agent prompt or call a tool'),
+      agentName: z.string().optional().describe('Agent to prompt (targetType agent)'),
+      prompt: z.string().optional().describe('Prompt sent to the agent on each run'),
+      toolName: z.string().optional().describe('Tool to call (targetType tool)'),
+      toolArgs: z.record(z.unknown()).optional().default({}).describe('Arguments passed to the tool on each run'),
+      misfirePolicy: z.enum(['run_once', 'skip']).optional().default('run_once').describe('For firings missed while down: run once on startup, or skip to the next scheduled time'),
+      status: z.enum(['active', 'paused', 'completed', 'cancelled']).optional().describe('Status filter for list'),
+      limit: z.number().int().positive().optional().default(20).describe('Maximum runs to return'),
     }),
-    execute: async ({ taskName, scheduleTime }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
-      void options;
-      void context;
-      const scheduledDate = new Date(scheduleTime);
-      const now = new Date();
-      const delay = scheduledDate.getTime() - now.getTime();
-      if (delay < 0) {
-        return { success: false, message: `Scheduled time ${scheduleTime} is in the past.`, options, context };
+    execute: async ({ operation = 'create', taskName, scheduleTime, taskId, targetType, agentName, prompt, toolName, toolArgs = {}, misfirePolicy = 'run_once', status, limit = 20 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      if (options?.logger) options.logger.info(`Task scheduler operation: ${operation}, task: ${taskName ?? taskId ?? '-'}`);
+      const requireId = () => {
+        if (!taskId) throw new Error(`taskId is required for ${operation}`);
+        return taskId;
+      };
+
+      try {
+        await jobScheduler.start();
+        switch (operation) {
+          case 'create': {
+            if (!taskName) throw new Error('taskName is required for create');
+            if (!scheduleTime) throw new Error('scheduleTime is required for create');
+            let target: JobTarget;
+            if (targetType === 'agent') {
+              if (!agentName || !prompt) throw new Error('agentName and prompt are required for agent jobs');
+              target = { type: 'agent', agentName, prompt };
+            } else if (targetType === 'tool') {
+              if (!toolName) throw new Error('toolName is required for tool jobs');
+              if (toolName === 'task_scheduler') throw new Error('Jobs cannot call task_scheduler');
+              target = { type: 'tool', toolName, args: toolArgs };
+            } else {
+              throw new Error('targetType (agent or tool) is required for create');
+            }
+            const job = await jobScheduler.create({ name: taskName, schedule: scheduleTime, target, misfirePolicy: misfirePolicy as MisfirePolicy });
+            return { success: true, operation, message: `Task '${taskName}' scheduled; next run ${job.nextRunAt}.`, taskId: job.id, job, options, context };
+          }
+          case 'list': {
+            const jobs = await jobScheduler.list(status);
+            return { success: true, operation, jobs, options, context };
+          }
+          case 'get':
+          case 'history': {
+            const { job, runs } = await jobScheduler.get(requireId(), limit);
+            return { success: true, operation, taskId, job, runs, options, context };
+          }
+          case 'pause': {
+            const job = await jobScheduler.pause(requireId());
+            return { success: true, operation, taskId, job, options, context };
+          }
+          case 'resume': {
+            const job = await jobScheduler.resume(requireId());
+            return { success: true, operation, taskId, job, options, context };
+          }
+          case 'cancel': {
+            const job = await jobScheduler.cancel(requireId());
+            return { success: true, operation, taskId, job, options, context };
+          }
+          case 'run_now': {
+            const run = await jobScheduler.runNow(requireId());
+            return { success: run.status === 'success', operation, taskId, run, options, context };
+          }
+          default:
+            return { success: false, operation, error: 'Unknown operation', options, context };
+        }
+      } catch (error) {
+        return { success: false, operation, taskId, error: error instanceof Error ? error.message : String(error), options, context };
       }
-      const taskId = crypto.randomUUID();
-      const timeoutId = setTimeout(() => {
-         console.log(`Executing scheduled task '${taskName}' (ID: ${taskId}) at ${new Date().toISOString()}`);
-         // Insert actual task execution logic here.
-      }, delay);
-      scheduledTasks[taskId] = timeoutId;
-      return { success: true, message: `Task '${taskName}' scheduled for ${scheduleTime}.`, taskId, options, context };
     }
   });
 
@@ -898,90 +1093,206 @@ export const validationTool = createTool({
 
   export const planTool = createTool({
     name: 'plan',
-    description: 'Generate a step-by-step plan for a given goal.',
-    parameters: z.object({ goal: z.string() }),
-    execute: async ({ goal }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => ({
-      success: true,
-      plan: [
-        `Step 1: Understand the goal: ${goal}`,
-        'Step 2: Break down into sub-tasks',
-        'Step 3: Assign resources and deadlines',
-        'Step 4: Monitor progress and adjust as needed'
-      ],
-      options,
-      context
+    description: 'Create structured, persisted plans for a goal (steps with an assigned agent or tool, inputs, expected output, dependencies and acceptance criteria), execute them step by step with tracked state, re-plan after failures, and look up progress by plan ID.',
+    parameters: z.object({
+      operation: z.enum(['create', 'execute_plan', 'replan', 'get_progress', 'list']).optional().default('create'),
+      goal: z.string().optional().describe('Goal to plan for (required for create)'),
+      plan_context: z.string().optional().describe('Background, constraints or resources the planner should know about'),
+      plan_id: z.string().optional().describe('Plan ID (required for execute_plan, replan and get_progress)'),
+      planner_agent: z.string().optional().describe('Subagent that writes the plan (default: problemSolver)'),
+      reason: z.string().optional().describe('Why the plan is being revised (replan); defaults to the failed steps'),
+      background: z.boolean().optional().default(false).describe('Return immediately and keep executing; poll with get_progress'),
+      replan_on_failure: z.boolean().optional().default(false).describe('Revise the plan automatically when a step fails'),
+      max_replans: z.number().int().min(0).optional().default(1).describe('Maximum automatic revisions per execution'),
+      status: z.enum(['pending', 'running', 'done', 'failed']).optional().describe('Filter for list'),
+      limit: z.number().int().positive().optional().default(20).describe('Maximum plans to list')
     }),
+    execute: async ({ operation = 'create', goal, plan_context, plan_id, planner_agent, reason, background = false, replan_on_failure = false, max_replans = 1, status, limit = 20 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      try {
+        if (operation !== 'create' && operation !== 'list' && !plan_id) {
+          return { success: false, operation, error: `plan_id is required for ${operation}`, options, context };
+        }
+        switch (operation) {
+          case 'create': {
+            if (!goal) return { success: false, operation, error: 'goal is required for create', options, context };
+            const plan = await planRunner.create(goal, { context: plan_context, plannerAgent: planner_agent, signal: options?.signal });
+            return { success: true, operation, plan_id: plan.id, ...(await planRunner.progress(plan.id)), options, context };
+          }
+          case 'execute_plan': {
+            const executeOptions = { replanOnFailure: replan_on_failure, maxReplans: max_replans };
+            if (background) {
+              planRunner.execute(plan_id!, executeOptions).catch((error) => {
+                console.error(`[❌ Plan] ${plan_id} stopped:`, error);
+              });
+              return { success: true, operation, plan_id, background: true, message: 'Execution started; use get_progress to follow it', options, context };
+            }
+            const progress = await planRunner.execute(plan_id!, { ...executeOptions, signal: options?.signal });
+            return { success: progress.plan.status === 'done', operation, plan_id, ...progress, options, context };
+          }
+          case 'replan': {
+            await planRunner.replan(plan_id!, { reason, signal: options?.signal });
+            return { success: true, operation, plan_id, ...(await planRunner.progress(plan_id!)), options, context };
+          }
+          case 'get_progress': {
+            const progress = await planRunner.progress(plan_id!);
+            return { success: true, operation, plan_id, executing: planRunner.isExecuting(plan_id!), ...progress, options, context };
+          }
+          case 'list': {
+            const plans = await listPlans({ status, limit });
+            return { success: true, operation, plans, options, context };
+          }
+          default:
+            return { success: false, operation, error: 'Unknown operation', options, context };
+        }
+      } catch (error) {
+        return { success: false, operation, plan_id, error: error instanceof Error ? error.message : String(error), options, context };
+      }
+    },
   });
 
   export const dataVersioningTool = createTool({
     name: 'data_versioning',
-    description: 'Track, snapshot, and roll back data states for reproducibility.',
+    description: 'Snapshot, diff and roll back datasets (files or directories under the data directory). Files are stored content-addressed by SHA-256 with a manifest per version; rollback snapshots the current state first so it can be undone.',
     parameters: z.object({
-      operation: z.enum(['snapshot', 'rollback', 'list_versions']),
-      dataset: z.string(),
-      version: z.string().optional()
+      operation: z.enum(['snapshot', 'rollback', 'list_versions', 'diff']),
+      dataset: z.string().describe('File or directory path relative to the data directory'),
+      version: z.string().optional().describe('Version to roll back to, diff from, or name a new snapshot'),
+      compare_to: z.string().optional().describe('Version to diff against (defaults to the working files)'),
+      message: z.string().optional().describe('Snapshot message'),
+      include_unchanged: z.boolean().optional().default(false).describe('List unchanged files in diff output'),
     }),
-    execute: async ({ operation, dataset, version }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
-      // Simulate versioning logic
-      if (operation === 'snapshot') {
-        return { success: true, operation, dataset, version: version || 'v' + Date.now(), message: 'Snapshot created', options, context };
-      } else if (operation === 'rollback') {
-        return { success: true, operation, dataset, version, message: `Rolled back to version ${version}`, options, context };
-      } else if (operation === 'list_versions') {
-        return { success: true, operation, dataset, versions: ['v1', 'v2', 'v3'], options, context };
+    execute: async ({ operation, dataset, version, compare_to, message, include_unchanged = false }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      try {
+        switch (operation) {
+          case 'snapshot': {
+            const { manifest, created } = await dataVersioning.snapshot(dataset, { message, version });
+            return {
+              success: true,
+              operation,
+              dataset,
+              version: manifest.version,
+              created,
+              files: Object.keys(manifest.files).length,
+              message: created ? `Snapshot ${manifest.version} created` : `No changes since ${manifest.version}`,
+              options,
+              context,
+            };
+          }
+          case 'rollback': {
+            if (!version) throw new Error('version required for rollback');
+            const { restored, removed, backupVersion } = await dataVersioning.rollback(dataset, version);
+            return { success: true, operation, dataset, version, restored, removed, backup_version: backupVersion, message: `Rolled back to version ${version}`, options, context };
+          }
+          case 'list_versions': {
+            const versions = (await dataVersioning.listVersions(dataset)).map(manifest => ({
+              version: manifest.version,
+              message: manifest.message,
+              created_at: manifest.createdAt,
+              parent: manifest.parent,
+              files: Object.keys(manifest.files).length,
+              bytes: Object.values(manifest.files).reduce((total, file) => total + file.size, 0),
+            }));
+            return { success: true, operation, dataset, versions, options, context };
+          }
+          case 'diff': {
+            if (!version) throw new Error('version required for diff');
+            const files = await dataVersioning.diff(dataset, version, compare_to, { includeUnchanged: include_unchanged });
+            const summary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+            for (const file of files) summary[file.status]++;
+            return { success: true, operation, dataset, from: version, to: compare_to ?? WORKING_COPY, summary, files, options, context };
+          }
+          default:
+            return { success: false, operation, dataset, error: 'Unknown operation', options, context };
+        }
+      } catch (error) {
+        return { success: false, operation, dataset, error: error instanceof Error ? error.message : String(error), options, context };
       }
-      return { success: false, operation, dataset, error: 'Unknown operation', options, context };
     }
   });
 
   export const systemHealthTool = createTool({
     name: 'system_health',
-    description: 'Check the health of agents, tools, and the system.',
-    parameters: z.object({}),
-    execute: async (_params, options?: ToolExecuteOptions, context?: ToolExecutionContext) => ({
-      success: true,
-      health: 'All systems operational',
-      timestamp: new Date().toISOString(),
-      options,
-      context
+    description: 'Check the health of the database, MCP servers, embedding model, browser automation and disk space. Reports healthy, degraded or critical with reasons.',
+    parameters: z.object({
+      probes: z.array(z.string()).optional().describe('Run only these probes (e.g. libsql, mcp:filesystem, embedding, playwright, disk); default all')
     }),
+    execute: async ({ probes }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      try {
+        const report = await healthProbes.run(probes);
+        return {
+          success: true,
+          health: report.status,
+          reasons: report.reasons,
+          probes: report.probes,
+          timestamp: report.checkedAt,
+          options,
+          context
+        };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error), available_probes: healthProbes.names(), options, context };
+      }
+    },
   });
 
-  // Use BentoCache namespace for audit trail
-  const auditTrailCache = cache.namespace('audit_trail');
+  const auditEvents = ['agent_start', 'agent_end', 'tool_start', 'tool_end', 'delegation', 'handoff', 'manual'] as const;
 
   export const auditTrailTool = createTool({
     /**
      * @name audit_trail
-     * @description Record and review all actions for compliance (persistent via BentoCache)
+     * @description Review, export and verify the hash-chained audit log of agent, tool, delegation and handoff events
      */
     name: 'audit_trail',
-    description: 'Record and review all actions for compliance (persistent via BentoCache)',
+    description: 'Append-only, hash-chained audit log. Agent starts/ends, tool calls, delegations and handoffs are recorded automatically; record adds a manual entry. Review with filters, export to JSONL, or verify the chain for tampering.',
     parameters: z.object({
-      operation: z.enum(['record', 'review']),
-      action: z.string().optional(),
-      user: z.string().optional(),
-      since: z.string().optional()
+      operation: z.enum(['record', 'review', 'export', 'verify']),
+      action: z.string().optional().describe('What happened (required for record)'),
+      details: z.record(z.unknown()).optional().describe('Extra structured data for record'),
+      event: z.enum(auditEvents).optional().describe('Filter by event type'),
+      agent: z.string().optional().describe('Filter by (or, for record, the acting) agent'),
+      tool: z.string().optional().describe('Filter by tool name'),
+      user: z.string().optional().describe('Filter by (or, for record, the acting) user ID'),
+      session_id: z.string().optional().describe('Filter by (or, for record, the) session ID'),
+      since: z.string().optional().describe('ISO timestamp; only entries at or after this time'),
+      until: z.string().optional().describe('ISO timestamp; only entries at or before this time'),
+      limit: z.number().int().positive().optional().default(100).describe('Maximum entries to return for review'),
+      file_name: z.string().optional().describe('Export file name under data/audit (default: audit-<timestamp>.jsonl)')
     }),
-    execute: async ({ operation, action, user, since }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+    execute: async ({ operation, action, details, event, agent, tool, user, session_id, since, until, limit, file_name }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      const filters = { event, agent, tool, userId: user, sessionId: session_id, since, until };
       try {
-        const now = formatISO(new Date());
         switch (operation) {
           case 'record': {
-            const entry = { action, user, timestamp: now, options, context };
-            const key = `audit:${action || 'unknown'}:${user || 'unknown'}:${now}`;
-            await auditTrailCache.set({ key, value: entry });
-            return { success: true, operation, action, user, timestamp: now, options, context };
+            if (!action) return { success: false, operation, error: 'action is required for record', options, context };
+            const entry = await appendAuditEntry({ event: 'manual', agent, userId: user, sessionId: session_id, details: { action, ...details } });
+            return { success: true, operation, entry, options, context };
           }
           case 'review': {
-            const allKeys: string[] = await ((auditTrailCache as unknown) as { keys: () => Promise<string[]> }).keys();
-            const entries = [];
-            for (const k of allKeys) {
-              const v = await auditTrailCache.get({ key: k });
-              if (since && v && v.timestamp && v.timestamp < since) continue;
-              entries.push({ key: k, ...v });
+            const entries = await listAuditEntries(filters, { limit });
+            return { success: true, operation, filters, count: entries.length, entries, options, context };
+          }
+          case 'export': {
+            const exportDir = path.resolve('./data/audit');
+            const filePath = path.resolve(exportDir, file_name ?? `audit-${formatISO(new Date()).replace(/[:+]/g, '-')}.jsonl`);
+            if (!filePath.startsWith(exportDir + path.sep)) {
+              return { success: false, operation, error: 'file_name must stay inside data/audit', options, context };
+            }
+            await fs.mkdir(exportDir, { recursive: true });
+            await fs.writeFile(filePath, '');
+            // Oldest first, in pages, so large logs are never held in memory
+            let exported = 0;
+            let afterSeq = 0;
+            for (;;) {
+              const page = await listAuditEntries(filters, { order: 'asc', afterSeq, limit: 500 });
+              if (page.length === 0) break;
+              await fs.appendFile(filePath, page.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+              exported += page.length;
+              afterSeq = page[page.length - 1].seq;
             }
-            return { success: true, operation, entries, since, options, context };
+            return { success: true, operation, filters, file: filePath, exported, options, context };
+          }
+          case 'verify': {
+            const verification = await verifyAuditChain();
+            return { success: true, operation, ...verification, options, context };
           }
           default:
             return { success: false, operation, error: 'Unknown operation', options, context };
@@ -994,52 +1305,174 @@ export const validationTool = createTool({
 
   export const airflowIntegrationTool = createTool({
     name: 'airflow_integration',
-    description: 'Trigger and monitor Airflow DAGs.',
+    description: 'Trigger and monitor Airflow DAG runs: trigger with conf, check status, wait for completion, list task instances and fetch task logs.',
     parameters: z.object({
       dag_id: z.string(),
-      action: z.enum(['trigger', 'status']),
-      run_id: z.string().optional()
+      action: z.enum(['trigger', 'status', 'wait', 'list_tasks', 'get_logs']),
+      run_id: z.string().optional().describe('DAG run ID (required except for trigger, where it is optional)'),
+      conf: z.record(z.unknown()).optional().describe('Run configuration passed to the DAG (trigger)'),
+      logical_date: z.string().optional().describe('ISO logical date for the run (trigger)'),
+      task_id: z.string().optional().describe('Task ID (required for get_logs)'),
+      try_number: z.number().int().positive().optional().describe('Task attempt for get_logs (default: latest)'),
+      poll_interval_seconds: z.number().positive().optional().default(10).describe('Polling interval for wait'),
+      timeout_seconds: z.number().positive().optional().default(600).describe('Maximum time to wait'),
+      engine: z.string().optional().default('airflow').describe('Workflow engine adapter to use')
     }),
-    execute: async ({ dag_id, action, run_id }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
-      if (action === 'trigger') {
-        return { success: true, dag_id, action, run_id: run_id || 'run_' + Date.now(), message: 'DAG triggered', options, context };
-      } else if (action === 'status') {
-        return { success: true, dag_id, action, run_id, status: 'success', options, context };
+    execute: async ({ dag_id, action, run_id, conf, logical_date, task_id, try_number, poll_interval_seconds, timeout_seconds, engine }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      try {
+        const adapter = await workflowEngines.get(engine);
+        if (action !== 'trigger' && !run_id) {
+          return { success: false, dag_id, action, error: `run_id is required for ${action}`, options, context };
+        }
+        switch (action) {
+          case 'trigger': {
+            const run = await adapter.trigger(dag_id, { conf, runId: run_id, logicalDate: logical_date });
+            return { success: true, dag_id, action, run_id: run.runId, run, options, context };
+          }
+          case 'status': {
+            const run = await adapter.getRun(dag_id, run_id!);
+            return { success: true, dag_id, action, run_id, status: run.status, run, options, context };
+          }
+          case 'wait': {
+            const run = await workflowEngines.waitForRun(adapter, dag_id, run_id!, {
+              pollIntervalMs: poll_interval_seconds * 1000,
+              timeoutMs: timeout_seconds * 1000,
+              signal: options?.signal,
+            });
+            // Failed tasks explain a failed run
+            const failedTasks = run.status === 'failed'
+              ? (await adapter.listTasks(dag_id, run.runId)).filter(task => task.state === 'failed' || task.state === 'upstream_failed')
+              : undefined;
+            return { success: true, dag_id, action, run_id, status: run.status, run, failedTasks, options, context };
+          }
+          case 'list_tasks': {
+            const tasks = await adapter.listTasks(dag_id, run_id!);
+            return { success: true, dag_id, action, run_id, tasks, options, context };
+          }
+          case 'get_logs': {
+            if (!task_id) return { success: false, dag_id, action, run_id, error: 'task_id is required for get_logs', options, context };
+            const log = await adapter.getTaskLogs(dag_id, run_id!, task_id, try_number);
+            return { success: true, dag_id, action, run_id, ...log, options, context };
+          }
+          default:
+            return { success: false, dag_id, action, run_id, error: 'Unknown action', options, context };
+        }
+      } catch (error) {
+        return { success: false, dag_id, action, run_id, error: error instanceof Error ? error.message : String(error), options, context };
       }
-      return { success: false, dag_id, action, run_id, error: 'Unknown action', options, context };
     }
   });
 
   // --- Add a reflect tool for meta-cognition ---
   export const reflectTool = createTool({
     name: 'reflect',
-    description: 'Reflect on previous actions, decisions, or outcomes to improve future performance.',
-    parameters: z.object({ context: z.string() }),
-    execute: async ({ context: reflectionContext }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => ({
-      success: true,
-      reflection: `Reflecting on: ${reflectionContext}`,
-      options,
-      context
+    description: 'Record lessons learned from previous actions, decisions or outcomes: the situation, what went wrong or right, and a rule for next time, tagged by agent and task type. Relevant lessons are added automatically to an agent\'s context when it gets a similar task. Also lists, searches, edits and retires lessons.',
+    parameters: z.object({
+      operation: z.enum(['record', 'list', 'search', 'edit', 'retire']).optional().default('record'),
+      lesson_id: z.string().optional().describe('Lesson ID (required for edit and retire)'),
+      agent: z.string().optional().describe('Agent the lesson applies to (registry name or "supervisor"); "all" or omitted for every agent'),
+      task_type: z.string().optional().describe('Kind of task, e.g. "web_research" or "code_review" (required for record)'),
+      situation: z.string().optional().describe('The task or circumstances the lesson comes from'),
+      outcome: z.enum(['went_wrong', 'went_right']).optional().describe('Whether this is about a mistake or about something that worked'),
+      what_happened: z.string().optional().describe('What went wrong or right, and why'),
+      rule: z.string().optional().describe('Rule to follow next time'),
+      task: z.string().optional().describe('Task to find relevant lessons for (search)'),
+      status: z.enum(['active', 'retired']).optional().describe('Filter for list'),
+      reason: z.string().optional().describe('Why the lesson no longer applies (retire)'),
+      limit: z.number().int().positive().optional().default(20).describe('Maximum lessons to return')
     }),
+    execute: async ({ operation = 'record', lesson_id, agent, task_type, situation, outcome, what_happened, rule, task, status, reason, limit = 20 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      try {
+        if ((operation === 'edit' || operation === 'retire') && !lesson_id) {
+          return { success: false, operation, error: `lesson_id is required for ${operation}`, options, context };
+        }
+        const forAgent = agent === 'all' ? undefined : agent;
+        switch (operation) {
+          case 'record': {
+            if (!task_type || !situation || !outcome || !what_happened || !rule) {
+              return { success: false, operation, error: 'task_type, situation, outcome, what_happened and rule are required for record', options, context };
+            }
+            const lesson = await lessonsLearned.record({ agent: forAgent, taskType: task_type, situation, outcome, whatHappened: what_happened, rule });
+            return { success: true, operation, lesson, options, context };
+          }
+          case 'list': {
+            const lessons = await lessonsLearned.list({ agent: forAgent, taskType: task_type, status, limit });
+            return { success: true, operation, lessons, options, context };
+          }
+          case 'search': {
+            if (!task) return { success: false, operation, error: 'task is required for search', options, context };
+            const matches = await lessonsLearned.find(task, { agent: agent ?? SUPERVISOR_AGENT, taskType: task_type, limit });
+            return { success: true, operation, matches, options, context };
+          }
+          case 'edit': {
+            const lesson = await lessonsLearned.edit(lesson_id!, {
+              agent: agent === 'all' ? null : agent,
+              taskType: task_type,
+              situation,
+              outcome,
+              whatHappened: what_happened,
+              rule,
+            });
+            return { success: true, operation, lesson, options, context };
+          }
+          case 'retire': {
+            if (!reason) return { success: false, operation, error: 'reason is required for retire', options, context };
+            const lesson = await lessonsLearned.retire(lesson_id!, reason);
+            return { success: true, operation, lesson, options, context };
+          }
+          default:
+            return { success: false, operation, error: 'Unknown operation', options, context };
+        }
+      } catch (error) {
+        return { success: false, operation, lesson_id, error: error instanceof Error ? error.message : String(error), options, context };
+      }
+    },
   });
 
   // --- Add a summarize tool for summarization ---
   export const summarizeTool = createTool({
     name: 'summarize',
-    description: 'Summarize information, logs, or results for quick review.',
-    parameters: z.object({ text: z.string() }),
-    execute: async ({ text }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => ({
-      success: true,
-      summary: text.length > 100 ? text.slice(0, 100) + '...' : text,
-      options,
-      context
+    description: 'Summarize text, a stored conversation, or a file in the data directory. Long input is chunked by tokens, summarized chunk by chunk and merged hierarchically. Styles: bullet, abstract, executive, action_items.',
+    parameters: z.object({
+      text: z.string().optional().describe('Text to summarize'),
+      conversation_id: z.string().optional().describe('Summarize the messages of this conversation instead'),
+      file_path: z.string().optional().describe('Summarize this file (path relative to the data directory) instead'),
+      style: z.enum(summaryStyles).optional().default('bullet'),
+      target_tokens: z.number().int().positive().optional().default(300).describe('Approximate summary length in tokens'),
+      chunk_tokens: z.number().int().min(500).optional().default(3000).describe('Maximum tokens per chunk sent to the model'),
+      focus: z.string().optional().describe('What the summary should concentrate on'),
+      message_limit: z.number().int().positive().optional().default(500).describe('Maximum conversation messages to include')
     }),
+    execute: async ({ text, conversation_id, file_path, style = 'bullet', target_tokens = 300, chunk_tokens = 3000, focus, message_limit = 500 }, options?: ToolExecuteOptions, context?: ToolExecutionContext) => {
+      const sources = [text !== undefined, conversation_id !== undefined, file_path !== undefined].filter(Boolean).length;
+      if (sources !== 1) {
+        return { success: false, error: 'Provide exactly one of text, conversation_id or file_path', options, context };
+      }
+      try {
+        const source: SummarySource = conversation_id !== undefined
+          ? { type: 'conversation', conversationId: conversation_id, limit: message_limit }
+          : file_path !== undefined
+            ? { type: 'file', path: file_path }
+            : { type: 'text', text: text! };
+        const result = await summarizer.summarize(source, {
+          style: style as SummaryStyle,
+          targetTokens: target_tokens,
+          chunkTokens: chunk_tokens,
+          focus,
+          signal: options?.signal,
+        });
+        return { success: true, ...result, options, context };
+      } catch (error) {
+        return { success: false, style, error: error instanceof Error ? error.message : String(error), options, context };
+      }
+    },
   });
 
   // Export all supervisor tools as a toolset array
   export const supervisorToolset = [
     cacheManagerTool,
     validationTool,
+    performanceProfilerTool,
     logAnalyzerTool,
     configManagerTool,
     secretManagerTool,
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Tools callable from background work (scheduled jobs, batch items)
+ *
+ * index.ts registers the supervisor's full toolset at startup; tool modules
+ * cannot import that toolset directly without an import cycle.
+ */
+
+/**
+ * The parts of a VoltAgent tool needed to call it
+ */
+export interface RegisteredTool {
+  name: string;
+  description?: string;
+  parameters?: { parse: (input: unknown) => unknown };
+  /** Declared with `never` so tools with any argument type can be registered */
+  execute?: (args: never, options?: { signal?: AbortSignal }) => unknown;
+}
+
+/**
+ * ToolRegistry: name → tool lookup with argument validation
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  register(tools: RegisteredTool[]): void {
+    for (const tool of tools) this.tools.set(tool.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Names and descriptions of all registered tools
+   */
+  list(): Array<{ name: string; description?: string }> {
+    return [...this.tools.values()].map(tool => ({ name: tool.name, description: tool.description }));
+  }
+
+  /**
+   * Validate `args` against the tool's schema and call it
+   */
+  async invoke(name: string, args: Record<string, unknown>, options: { signal?: AbortSignal } = {}): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool?.execute) throw new Error(`Tool not registered: ${name}`);
+    const parsed = tool.parameters ? tool.parameters.parse(args) : args;
+    // The arguments have just been checked against the tool's own schema
+    const result = await tool.execute(parsed as never, { signal: options.signal });
+    // Supervisor tools echo their execution options; they are not output
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+      const output = { ...(result as Record<string, unknown>) };
+      delete output.options;
+      delete output.context;
+      return output;
+    }
+    return result;
+  }
+}
+
+/**
+ * Supervisor tools report failures as `{ success: false, error }` instead of throwing
+ */
+export function toolFailure(output: unknown): string | undefined {
+  if (output && typeof output === 'object' && (output as { success?: unknown }).success === false) {
+    return String((output as { error?: unknown }).error ?? 'Tool reported failure');
+  }
+  return undefined;
+}
+
+// Export a singleton for global use
+export const toolRegistry = new ToolRegistry();
@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Adapters for external workflow engines (airflow_integration)
+ *
+ * A WorkflowEngineAdapter triggers runs of a workflow, reports run status,
+ * lists the run's tasks and fetches task logs, all in engine-neutral shapes.
+ * The first adapter talks to the Airflow 2 stable REST API (/api/v1) with
+ * basic or bearer-token auth.
+ *
+ * Connection settings live in the `workflow_engines` config section (see
+ * layeredConfig); passwords and tokens may be `{ $secret: name }` references
+ * into the secret vault. Adapters are built from the current settings on
+ * every lookup, so config changes apply without a restart.
+ */
+
+import { setTimeout as sleep } from "node:timers/promises";
+import { z } from "zod";
+import { layeredConfig } from "./layeredConfig.js";
+import { resolveSecretValue, secretValueSchema } from "./secretVault.js";
+
+/**
+ * Engine-neutral run state; the engine's own state is kept in `state`
+ */
+export type WorkflowRunStatus = 'queued' | 'running' | 'success' | 'failed' | 'unknown';
+
+export interface WorkflowRun {
+  engine: string;
+  workflowId: string;
+  runId: string;
+  status: WorkflowRunStatus;
+  state: string;
+  conf?: Record<string, unknown>;
+  logicalDate?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface WorkflowTask {
+  taskId: string;
+  state: string;
+  tryNumber: number;
+  mapIndex?: number;
+  operator?: string;
+  startDate?: string;
+  endDate?: string;
+  durationSeconds?: number;
+}
+
+export interface WorkflowTaskLog {
+  taskId: string;
+  tryNumber: number;
+  content: string;
+}
+
+export interface TriggerOptions {
+  conf?: Record<string, unknown>;
+  /** Engine-assigned when omitted */
+  runId?: string;
+  logicalDate?: string;
+}
+
+export interface WorkflowEngineAdapter {
+  readonly engine: string;
+  trigger(workflowId: string, options?: TriggerOptions): Promise<WorkflowRun>;
+  getRun(workflowId: string, runId: string): Promise<WorkflowRun>;
+  listTasks(workflowId: string, runId: string): Promise<WorkflowTask[]>;
+  /** Logs of one task attempt; the latest attempt when `tryNumber` is omitted */
+  getTaskLogs(workflowId: string, runId: string, taskId: string, tryNumber?: number): Promise<WorkflowTaskLog>;
+}
+
+/**
+ * A request the engine rejected or that could not be made
+ */
+export class WorkflowEngineError extends Error {
+  constructor(message: string, readonly statusCode?: number) {
+    super(message);
+    this.name = "WorkflowEngineError";
+  }
+}
+
+/**
+ * Engine settings schema (config section `workflow_engines`)
+ */
+export const workflowEngineSettingsSchema = z.object({
+  airflow: z.object({
+    baseUrl: z.string().url().default("http://localhost:8080"),
+    auth: z.discriminatedUnion("type", [
+      z.object({ type: z.literal("none") }),
+      z.object({ type: z.literal("basic"), username: z.string(), password: secretValueSchema }),
+      z.object({ type: z.literal("token"), token: secretValueSchema }),
+    ]).default({ type: "none" }),
+    timeoutMs: z.number().int().positive().default(30000),
+  }).default({}),
+});
+
+export type WorkflowEngineSettings = z.infer<typeof workflowEngineSettingsSchema>;
+
+layeredConfig.register('workflow_engines', workflowEngineSettingsSchema, workflowEngineSettingsSchema.parse({}));
+
+const AIRFLOW_RUN_STATUS: Record<string, WorkflowRunStatus> = {
+  queued: 'queued',
+  running: 'running',
+  success: 'success',
+  failed: 'failed',
+};
+
+/**
+ * Airflow 2 stable REST API adapter
+ */
+export class AirflowAdapter implements WorkflowEngineAdapter {
+  readonly engine = 'airflow';
+  private readonly apiUrl: string;
+
+  /**
+   * @param authorization - Value of the Authorization header, if any
+   */
+  constructor(baseUrl: string, private readonly authorization?: string, private readonly timeoutMs = 30000) {
+    this.apiUrl = `${baseUrl.replace(/\/+$/, "")}/api/v1`;
+  }
+
+  async trigger(workflowId: string, options: TriggerOptions = {}): Promise<WorkflowRun> {
+    const body: Record<string, unknown> = { conf: options.conf ?? {} };
+    if (options.runId) body.dag_run_id = options.runId;
+    if (options.logicalDate) body.logical_date = options.logicalDate;
+    const run = await this.request(`/dags/${encodeURIComponent(workflowId)}/dagRuns`, { method: "POST", body: JSON.stringify(body) });
+    return this.toRun(workflowId, run);
+  }
+
+  async getRun(workflowId: string, runId: string): Promise<WorkflowRun> {
+    return this.toRun(workflowId, await this.request(this.runPath(workflowId, runId)));
+  }
+
+  async listTasks(workflowId: string, runId: string): Promise<WorkflowTask[]> {
+    const response = await this.request(`${this.runPath(workflowId, runId)}/taskInstances`) as { task_instances?: Record<string, unknown>[] };
+    return (response.task_instances ?? []).map(task => ({
+      taskId: String(task.task_id),
+      state: (task.state as string | null) ?? "none",
+      tryNumber: Number(task.try_number ?? 0),
+      mapIndex: typeof task.map_index === "number" && task.map_index >= 0 ? task.map_index : undefined,
+      operator: (task.operator as string | null) ?? undefined,
+      startDate: (task.start_date as string | null) ?? undefined,
+      endDate: (task.end_date as string | null) ?? undefined,
+      durationSeconds: typeof task.duration === "number" ? task.duration : undefined,
+    }));
+  }
+
+  async getTaskLogs(workflowId: string, runId: string, taskId: string, tryNumber?: number): Promise<WorkflowTaskLog> {
+    let attempt = tryNumber;
+    if (attempt === undefined) {
+      const task = await this.request(`${this.runPath(workflowId, runId)}/taskInstances/${encodeURIComponent(taskId)}`) as { try_number?: number };
+      attempt = Math.max(1, Number(task.try_number ?? 1));
+    }
+    const content = await this.request(
+      `${this.runPath(workflowId, runId)}/taskInstances/${encodeURIComponent(taskId)}/logs/${attempt}?full_content=true`,
+      { headers: { Accept: "text/plain" } }
+    );
+    return { taskId, tryNumber: attempt, content: String(content) };
+  }
+
+  private runPath(workflowId: string, runId: string): string {
+    return `/dags/${encodeURIComponent(workflowId)}/dagRuns/${encodeURIComponent(runId)}`;
+  }
+
+  private toRun(workflowId: string, run: unknown): WorkflowRun {
+    const data = run as Record<string, unknown>;
+    const state = String(data.state ?? "unknown");
+    return {
+      engine: this.engine,
+      workflowId: String(data.dag_id ?? workflowId),
+      runId: String(data.dag_run_id),
+      status: AIRFLOW_RUN_STATUS[state] ?? 'unknown',
+      state,
+      conf: (data.conf as Record<string, unknown> | null) ?? undefined,
+      logicalDate: (data.logical_date as string | null) ?? (data.execution_date as string | null) ?? undefined,
+      startDate: (data.start_date as string | null) ?? undefined,
+      endDate: (data.end_date as string | null) ?? undefined,
+    };
+  }
+
+  /**
+   * Call the API; JSON responses are parsed, anything else is returned as text
+   */
+  private async request(pathname: string, init: { method?: string; body?: string; headers?: Record<string, string> } = {}): Promise<unknown> {
+    const headers: Record<string, string> = { Accept: "application/json", ...init.headers };
+    if (init.body) headers["Content-Type"] = "application/json";
+    if (this.authorization) headers.Authorization = this.authorization;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiUrl}${pathname}`, {
+        method: init.method ?? "GET",
+        headers,
+        body: init.body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new WorkflowEngineError(`Airflow request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const text = await response.text();
+    const isJson = (response.headers.get("content-type") ?? "").includes("json");
+    if (!response.ok) {
+      // Airflow reports errors as RFC 7807 problem documents
+      let detail = text.slice(0, 500);
+      if (isJson) {
+        try {
+          const problem = JSON.parse(text) as { title?: string; detail?: string };
+          detail = [problem.title, problem.detail].filter(Boolean).join(": ") || detail;
+        } catch {
+          // keep the raw body
+        }
+      }
+      throw new WorkflowEngineError(`Airflow returned ${response.status}${detail ? `: ${detail}` : ""}`, response.status);
+    }
+    return isJson ? JSON.parse(text) : text;
+  }
+}
+
+type AdapterFactory = (settings: WorkflowEngineSettings) => Promise<WorkflowEngineAdapter>;
+
+/**
+ * WorkflowEngines: engine name → adapter built from the current settings
+ */
+export class WorkflowEngines {
+  private factories = new Map<string, AdapterFactory>();
+
+  register(engine: string, factory: AdapterFactory): void {
+    this.factories.set(engine, factory);
+  }
+
+  names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  async get(engine: string): Promise<WorkflowEngineAdapter> {
+    const factory = this.factories.get(engine);
+    if (!factory) throw new Error(`Unknown workflow engine: ${engine}. Available: ${this.names().join(", ")}`);
+    const settings = workflowEngineSettingsSchema.parse(
+      await layeredConfig.getSection('workflow_engines', process.env.NODE_ENV || 'default')
+    );
+    return factory(settings);
+  }
+
+  /**
+   * Poll a run until it succeeds or fails
+   *
+   * @throws When `timeoutMs` passes or `signal` aborts first
+   */
+  async waitForRun(
+    adapter: WorkflowEngineAdapter,
+    workflowId: string,
+    runId: string,
+    options: { pollIntervalMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<WorkflowRun> {
+    const pollIntervalMs = options.pollIntervalMs ?? 10_000;
+    const deadline = Date.now() + (options.timeoutMs ?? 10 * 60 * 1000);
+    for (;;) {
+      const run = await adapter.getRun(workflowId, runId);
+      if (run.status === 'success' || run.status === 'failed') return run;
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new Error(`Run ${runId} of ${workflowId} still ${run.state} when the wait timed out`);
+      }
+      // Rejects with an AbortError when the signal fires; the listener is removed after each wait
+      await sleep(pollIntervalMs, undefined, { signal: options.signal });
+    }
+  }
+}
+
+// Export a singleton for global use
+export const workflowEngines = new WorkflowEngines();
+
+workflowEngines.register('airflow', async ({ airflow }) => {
+  let authorization: string | undefined;
+  if (airflow.auth.type === "basic") {
+    const password = await resolveSecretValue(airflow.auth.password, "airflow_integration");
+    authorization = `Basic ${Buffer.from(`${airflow.auth.username}:${password}`).toString("base64")}`;
+  } else if (airflow.auth.type === "token") {
+    authorization = `Bearer ${await resolveSecretValue(airflow.auth.token, "airflow_integration")}`;
+  }
+  return new AirflowAdapter(airflow.baseUrl, authorization, airflow.timeoutMs);
+});